@@ -14,6 +14,7 @@ const config: Config = {
     ],
   },
   testMatch: ["**/*.test.ts", "**/*.spec.ts"],
+  setupFilesAfterEnv: ["<rootDir>/src/routes/tests/utils/tenant-setup.ts"],
 };
 
 export default config;
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "public"."events" ADD COLUMN     "end_date" TIMESTAMP(3),
+ADD COLUMN     "occurrence_date" TIMESTAMP(3),
+ADD COLUMN     "start_date" TIMESTAMP(3);
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."events" ADD COLUMN     "inflation_indexed" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,14 @@
+-- CreateTable
+CREATE TABLE "public"."capital_market_assumptions" (
+    "id" TEXT NOT NULL,
+    "class_name" TEXT NOT NULL,
+    "expected_return" DECIMAL(7,4) NOT NULL,
+    "volatility" DECIMAL(7,4) NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "capital_market_assumptions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "capital_market_assumptions_class_name_key" ON "public"."capital_market_assumptions"("class_name");
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "public"."simulations" ADD COLUMN     "engine_version" INTEGER,
+ADD COLUMN     "inputs" JSONB,
+ALTER COLUMN "rate" SET DATA TYPE DECIMAL(7,4);
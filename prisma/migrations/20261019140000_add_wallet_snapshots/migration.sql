@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "public"."wallet_snapshots" (
+    "id" TEXT NOT NULL,
+    "total_value" DECIMAL(20,2) NOT NULL,
+    "asset_classes" JSONB,
+    "recorded_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "client_id" TEXT NOT NULL,
+
+    CONSTRAINT "wallet_snapshots_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "wallet_snapshots_client_id_recorded_at_idx" ON "public"."wallet_snapshots"("client_id", "recorded_at");
+
+-- AddForeignKey
+ALTER TABLE "public"."wallet_snapshots" ADD CONSTRAINT "wallet_snapshots_client_id_fkey" FOREIGN KEY ("client_id") REFERENCES "public"."clients"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill
+INSERT INTO "public"."wallet_snapshots" ("id", "total_value", "asset_classes", "recorded_at", "client_id")
+SELECT "id", "total_value", "asset_classes", "updated_at", "client_id" FROM "public"."wallets";
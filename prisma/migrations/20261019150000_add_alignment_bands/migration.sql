@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "public"."alignment_bands" (
+    "id" TEXT NOT NULL,
+    "category" TEXT NOT NULL,
+    "label" TEXT NOT NULL,
+    "color" TEXT NOT NULL,
+    "min_percentage" DECIMAL(7,2) NOT NULL,
+    "min_inclusive" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "alignment_bands_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "alignment_bands_category_key" ON "public"."alignment_bands"("category");
@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "public"."alignment_snapshots" (
+    "id" TEXT NOT NULL,
+    "alignment_percentage" DECIMAL(20,2) NOT NULL,
+    "category" TEXT NOT NULL,
+    "recorded_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "client_id" TEXT NOT NULL,
+
+    CONSTRAINT "alignment_snapshots_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "alignment_snapshots_client_id_recorded_at_idx" ON "public"."alignment_snapshots"("client_id", "recorded_at");
+
+-- AddForeignKey
+ALTER TABLE "public"."alignment_snapshots" ADD CONSTRAINT "alignment_snapshots_client_id_fkey" FOREIGN KEY ("client_id") REFERENCES "public"."clients"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,28 @@
+-- AlterTable
+ALTER TABLE "public"."clients" ADD COLUMN     "advisor_id" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."client_advisors" (
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "client_id" TEXT NOT NULL,
+    "advisor_id" TEXT NOT NULL,
+
+    CONSTRAINT "client_advisors_pkey" PRIMARY KEY ("client_id","advisor_id")
+);
+
+-- CreateIndex
+CREATE INDEX "client_advisors_advisor_id_idx" ON "public"."client_advisors"("advisor_id");
+
+-- AddForeignKey
+ALTER TABLE "public"."clients" ADD CONSTRAINT "clients_advisor_id_fkey" FOREIGN KEY ("advisor_id") REFERENCES "public"."users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."client_advisors" ADD CONSTRAINT "client_advisors_client_id_fkey" FOREIGN KEY ("client_id") REFERENCES "public"."clients"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."client_advisors" ADD CONSTRAINT "client_advisors_advisor_id_fkey" FOREIGN KEY ("advisor_id") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill
+UPDATE "public"."clients" SET "advisor_id" = (
+    SELECT "id" FROM "public"."users" WHERE "role" = 'ADVISOR' ORDER BY "created_at" ASC LIMIT 1
+);
@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "public"."UserRole" ADD VALUE 'ORG_ADMIN';
@@ -0,0 +1,55 @@
+-- CreateTable
+CREATE TABLE "public"."organizations" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "organizations_pkey" PRIMARY KEY ("id")
+);
+
+-- Backfill
+INSERT INTO "public"."organizations" ("id", "name", "updated_at")
+VALUES ('00000000-0000-4000-8000-000000000001', 'Organização Padrão', CURRENT_TIMESTAMP);
+
+-- AlterTable
+ALTER TABLE "public"."users" ADD COLUMN     "organization_id" TEXT;
+ALTER TABLE "public"."clients" ADD COLUMN     "organization_id" TEXT;
+ALTER TABLE "public"."alignment_bands" ADD COLUMN     "organization_id" TEXT;
+
+UPDATE "public"."users" SET "organization_id" = '00000000-0000-4000-8000-000000000001';
+UPDATE "public"."clients" SET "organization_id" = '00000000-0000-4000-8000-000000000001';
+UPDATE "public"."alignment_bands" SET "organization_id" = '00000000-0000-4000-8000-000000000001';
+
+ALTER TABLE "public"."users" ALTER COLUMN "organization_id" SET NOT NULL;
+ALTER TABLE "public"."clients" ALTER COLUMN "organization_id" SET NOT NULL;
+ALTER TABLE "public"."alignment_bands" ALTER COLUMN "organization_id" SET NOT NULL;
+
+-- Backfill
+UPDATE "public"."users" SET "role" = 'ORG_ADMIN' WHERE "id" = (
+    SELECT "id" FROM "public"."users" WHERE "role" = 'ADVISOR' ORDER BY "created_at" ASC LIMIT 1
+);
+
+-- DropIndex
+DROP INDEX "public"."alignment_bands_category_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "alignment_bands_organization_id_category_key" ON "public"."alignment_bands"("organization_id", "category");
+
+-- CreateIndex
+CREATE INDEX "users_organization_id_idx" ON "public"."users"("organization_id");
+
+-- DropIndex
+DROP INDEX "public"."clients_email_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "clients_organization_id_email_key" ON "public"."clients"("organization_id", "email");
+
+-- AddForeignKey
+ALTER TABLE "public"."clients" ADD CONSTRAINT "clients_organization_id_fkey" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."alignment_bands" ADD CONSTRAINT "alignment_bands_organization_id_fkey" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."users" ADD CONSTRAINT "users_organization_id_fkey" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "public"."sessions" ADD COLUMN     "ip_address" TEXT,
+ADD COLUMN     "last_used_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+ADD COLUMN     "user_agent" TEXT;
@@ -0,0 +1,30 @@
+-- CreateEnum
+CREATE TYPE "public"."UserTokenType" AS ENUM ('PASSWORD_RESET', 'EMAIL_VERIFICATION');
+
+-- AlterTable
+ALTER TABLE "public"."users" ADD COLUMN     "email_verified_at" TIMESTAMP(3);
+
+-- Backfill
+UPDATE "public"."users" SET "email_verified_at" = "created_at";
+
+-- CreateTable
+CREATE TABLE "public"."user_tokens" (
+    "id" TEXT NOT NULL,
+    "type" "public"."UserTokenType" NOT NULL,
+    "token_hash" TEXT NOT NULL,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "used_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "user_id" TEXT NOT NULL,
+
+    CONSTRAINT "user_tokens_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "user_tokens_token_hash_key" ON "public"."user_tokens"("token_hash");
+
+-- CreateIndex
+CREATE INDEX "user_tokens_user_id_type_idx" ON "public"."user_tokens"("user_id", "type");
+
+-- AddForeignKey
+ALTER TABLE "public"."user_tokens" ADD CONSTRAINT "user_tokens_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
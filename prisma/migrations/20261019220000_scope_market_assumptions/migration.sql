@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "public"."capital_market_assumptions" ADD COLUMN     "organization_id" TEXT;
+
+-- Backfill
+UPDATE "public"."capital_market_assumptions" SET "organization_id" = '00000000-0000-4000-8000-000000000001';
+
+INSERT INTO "public"."capital_market_assumptions" ("id", "class_name", "expected_return", "volatility", "updated_at", "organization_id")
+SELECT gen_random_uuid()::TEXT, "a"."class_name", "a"."expected_return", "a"."volatility", CURRENT_TIMESTAMP, "o"."id"
+FROM "public"."capital_market_assumptions" "a"
+CROSS JOIN "public"."organizations" "o"
+WHERE "a"."organization_id" = '00000000-0000-4000-8000-000000000001'
+  AND "o"."id" <> '00000000-0000-4000-8000-000000000001';
+
+ALTER TABLE "public"."capital_market_assumptions" ALTER COLUMN "organization_id" SET NOT NULL;
+
+-- DropIndex
+DROP INDEX "public"."capital_market_assumptions_class_name_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "capital_market_assumptions_organization_id_class_name_key" ON "public"."capital_market_assumptions"("organization_id", "class_name");
+
+-- AddForeignKey
+ALTER TABLE "public"."capital_market_assumptions" ADD CONSTRAINT "capital_market_assumptions_organization_id_fkey" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
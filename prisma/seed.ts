@@ -42,11 +42,21 @@ async function main() {
   await prisma.insurance.deleteMany();
   await prisma.event.deleteMany();
   await prisma.goal.deleteMany();
+  await prisma.alignmentSnapshot.deleteMany();
+  await prisma.walletSnapshot.deleteMany();
   await prisma.wallet.deleteMany();
-  await prisma.user.deleteMany();
   await prisma.client.deleteMany();
+  await prisma.user.deleteMany();
+  await prisma.capitalMarketAssumption.deleteMany();
+  await prisma.organization.deleteMany();
 
-  console.log("👤 Creating default ADVISOR user...");
+  console.log("🏢 Creating default organization...");
+  const organization = await prisma.organization.create({
+    data: { name: "Organização Padrão" },
+  });
+  console.log("✅ Default organization created.");
+
+  console.log("👤 Creating default ORG_ADMIN user...");
   const superUserEmail = process.env.SUPER_USER_EMAIL;
   const superUserPassword = process.env.SUPER_USER_PASSWORD;
 
@@ -60,14 +70,30 @@ async function main() {
     superUserPassword,
     BCRYPT_SALT_ROUNDS
   );
-  await prisma.user.create({
+  const advisor = await prisma.user.create({
     data: {
       email: superUserEmail,
+      emailVerifiedAt: new Date(),
       password: hashedPassword,
-      role: "ADVISOR",
+      role: "ORG_ADMIN",
+      organizationId: organization.id,
     },
   });
-  console.log("✅ Default ADVISOR user created.");
+  console.log("✅ Default ORG_ADMIN user created.");
+
+  console.log("📈 Creating default capital market assumptions...");
+  await prisma.capitalMarketAssumption.createMany({
+    data: [
+      { className: "Ações Nacionais", expectedReturn: 12, volatility: 25 },
+      { className: "Ações Internacionais", expectedReturn: 10, volatility: 18 },
+      { className: "Renda Fixa", expectedReturn: 10, volatility: 3 },
+      { className: "Fundos Imobiliários", expectedReturn: 9, volatility: 15 },
+    ].map((assumption) => ({
+      ...assumption,
+      organizationId: organization.id,
+    })),
+  });
+  console.log("✅ Default capital market assumptions created.");
 
   const CLIENT_COUNT = 150;
   console.log(`✨ Seeding ${CLIENT_COUNT} random clients...`);
@@ -83,10 +109,23 @@ async function main() {
     const hasInsurance = Math.random() <= 0.6;
     const hasSimulations = Math.random() <= 0.5;
 
+    const wallet = {
+      totalValue: faker.finance.amount({
+        min: 5000,
+        max: 2000000,
+        dec: 2,
+      }),
+      assetClasses: (Math.random() > 0.1
+        ? generateAssetClasses()
+        : []) as Prisma.InputJsonValue,
+    };
+
     await prisma.client.create({
       data: {
         name: `${firstName} ${lastName}`,
         email: clientEmail,
+        advisorId: advisor.id,
+        organizationId: organization.id,
         dateOfBirth: faker.date.birthdate({ min: 18, max: 70, mode: "age" }),
         isActive: true,
         familyProfile:
@@ -107,24 +146,16 @@ async function main() {
         user: {
           create: {
             email: clientEmail,
+            emailVerifiedAt: new Date(),
             password: await bcrypt.hash("password123", BCRYPT_SALT_ROUNDS),
             role: "VIEWER",
+            organizationId: organization.id,
           },
         },
 
         ...(hasWalletAndGoals && {
-          wallet: {
-            create: {
-              totalValue: faker.finance.amount({
-                min: 5000,
-                max: 2000000,
-                dec: 2,
-              }),
-              assetClasses: (Math.random() > 0.1
-                ? generateAssetClasses()
-                : []) as Prisma.InputJsonValue,
-            },
-          },
+          wallet: { create: wallet },
+          walletSnapshots: { create: wallet },
 
           goals: {
             create: Array.from({
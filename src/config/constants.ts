@@ -1 +1,9 @@
 export const BCRYPT_SALT_ROUNDS = 10;
+export const ACCESS_TOKEN_EXPIRES_IN = "15m";
+export const REFRESH_TOKEN_EXPIRES_IN_DAYS = 30;
+export const SESSION_TOUCH_INTERVAL_SECONDS = 60;
+export const PASSWORD_RESET_TOKEN_EXPIRES_IN_MINUTES = 60;
+export const EMAIL_VERIFICATION_TOKEN_EXPIRES_IN_HOURS = 48;
+export const PASSWORD_RESET_THROTTLE_WINDOW_MINUTES = 15;
+export const PASSWORD_RESET_REQUESTS_PER_IP = 20;
+export const PASSWORD_RESET_REQUESTS_PER_EMAIL = 3;
@@ -1,12 +1,23 @@
 import { FastifyReply, FastifyRequest } from "fastify";
 import { z } from "zod";
 import { clientIdParamsSchema } from "../schemas/client.schema";
+import { prisma } from "../lib/prisma";
+import {
+  canAccessClient,
+  getManagedUserScope,
+} from "../services/client.service";
+import { userIdParamsSchema } from "../schemas/user.schema";
+import { setCurrentOrganization } from "../lib/tenant";
+import { touchSession } from "../services/session.service";
+import { tokensMatch } from "../utils/token";
 
 // eslint-disable-next-line @typescript-eslint/no-unused-vars
 const jwtPayloadSchema = z.object({
   sub: z.uuid(),
-  role: z.enum(["ADVISOR", "VIEWER"]),
+  role: z.enum(["ORG_ADMIN", "ADVISOR", "VIEWER"]),
+  organizationId: z.uuid(),
   clientId: z.uuid().optional(),
+  sid: z.uuid(),
   iat: z.number(),
   exp: z.number(),
 });
@@ -20,10 +31,56 @@ export async function authenticate(
   try {
     await request.jwtVerify();
   } catch {
-    reply
+    return reply
       .status(401)
       .send({ message: "Invalid or expired authentication token." });
   }
+
+  const { organizationId, sid } = request.user;
+
+  if (!organizationId || !sid) {
+    return reply
+      .status(401)
+      .send({ message: "Invalid or expired authentication token." });
+  }
+
+  setCurrentOrganization(organizationId);
+
+  if (!(await touchSession(sid))) {
+    return reply
+      .status(401)
+      .send({ message: "Invalid or expired authentication token." });
+  }
+}
+
+export async function ensurePlatformOperator(
+  request: FastifyRequest,
+  reply: FastifyReply
+) {
+  const platformKey = process.env.PLATFORM_ADMIN_KEY;
+  const providedKey = request.headers["x-platform-key"];
+
+  if (
+    !platformKey ||
+    typeof providedKey !== "string" ||
+    !tokensMatch(providedKey, platformKey)
+  ) {
+    return reply.status(403).send({
+      message: "Acesso negado. Esta rota é restrita ao operador da plataforma.",
+    });
+  }
+}
+
+export async function ensureOrgAdmin(
+  request: FastifyRequest,
+  reply: FastifyReply
+) {
+  if (request.user.role !== "ORG_ADMIN") {
+    return reply.status(403).send({
+      message:
+        "Acesso negado. Esta rota é restrita a administradores da organização.",
+    });
+  }
 }
 
 export async function ensureAdvisor(
@@ -32,7 +89,7 @@ export async function ensureAdvisor(
 ) {
   const { role } = request.user;
 
-  if (role !== "ADVISOR") {
+  if (role === "VIEWER") {
     return reply.status(403).send({
       message: "Acesso negado. Esta rota é restrita a administradores.",
     });
@@ -45,7 +102,7 @@ export async function ensureOwnerOrAdvisor(
 ) {
   const { role, clientId: userClientId } = request.user;
 
-  if (role === "ADVISOR") {
+  if (role !== "VIEWER") {
     return;
   }
 
@@ -53,7 +110,7 @@ export async function ensureOwnerOrAdvisor(
     request.params
   );
 
-  if (role === "VIEWER" && userClientId === targetClientId) {
+  if (userClientId === targetClientId) {
     return;
   }
 
@@ -61,3 +118,58 @@ export async function ensureOwnerOrAdvisor(
     message: "Acesso negado. Você não tem permissão para acessar este recurso.",
   });
 }
+
+export async function ensureManagedUser(
+  request: FastifyRequest,
+  reply: FastifyReply
+) {
+  if (request.user.role === "ORG_ADMIN") {
+    return;
+  }
+
+  const { userId } = userIdParamsSchema.parse(request.params);
+
+  const managedUser = await prisma.user.count({
+    where: { AND: [{ id: userId }, getManagedUserScope(request.user)] },
+  });
+
+  if (managedUser) {
+    return;
+  }
+
+  const userExists = await prisma.user.count({ where: { id: userId } });
+
+  if (!userExists) {
+    return reply.status(404).send({ message: "Usuário não encontrado." });
+  }
+
+  return reply.status(403).send({
+    message:
+      "Acesso negado. Você só pode gerenciar os usuários VIEWER dos clientes da sua carteira.",
+  });
+}
+
+export async function ensureAssignedAdvisor(
+  request: FastifyRequest,
+  reply: FastifyReply
+) {
+  if (request.user.role === "VIEWER") {
+    return;
+  }
+
+  const { clientId } = clientIdParamsSchema.parse(request.params);
+
+  if (await canAccessClient(request.user, clientId)) {
+    return;
+  }
+
+  const clientExists = await prisma.client.count({ where: { id: clientId } });
+
+  if (!clientExists) {
+    return reply.status(404).send({ message: "Cliente não encontrado." });
+  }
+
+  return reply.status(403).send({
+    message: "Acesso negado. Este cliente não pertence à sua carteira.",
+  });
+}
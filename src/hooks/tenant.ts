@@ -0,0 +1,10 @@
+import { FastifyReply, FastifyRequest, HookHandlerDoneFunction } from "fastify";
+import { runWithTenant } from "../lib/tenant";
+
+export function bindTenantContext(
+  _request: FastifyRequest,
+  _reply: FastifyReply,
+  done: HookHandlerDoneFunction
+) {
+  runWithTenant(done);
+}
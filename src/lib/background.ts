@@ -0,0 +1,20 @@
+const pendingTasks = new Set<Promise<void>>();
+
+/**
+ * Starts work that the response must not wait for, such as sending e-mail,
+ * so that the response time does not reveal what the work found.
+ */
+export function runInBackground(
+  task: () => Promise<unknown>,
+  onError: (error: unknown) => void
+) {
+  const pending: Promise<void> = task()
+    .then(() => undefined, onError)
+    .finally(() => pendingTasks.delete(pending));
+
+  pendingTasks.add(pending);
+}
+
+export async function waitForBackgroundTasks() {
+  await Promise.all(pendingTasks);
+}
@@ -0,0 +1,101 @@
+import { mkdir, writeFile } from "node:fs/promises";
+import { randomUUID } from "node:crypto";
+import { resolve } from "node:path";
+import nodemailer from "nodemailer";
+
+export type MailMessage = {
+  to: string;
+  subject: string;
+  text: string;
+};
+
+export type MailTransport = {
+  send(message: MailMessage): Promise<void>;
+};
+
+export const sentMessages: MailMessage[] = [];
+
+const DEFAULT_MAIL_FROM = "Planejamento Patrimonial <no-reply@localhost>";
+
+export function createSmtpTransport(url: string, from: string): MailTransport {
+  const transporter = nodemailer.createTransport(url);
+
+  return {
+    async send(message) {
+      await transporter.sendMail({ from, ...message });
+    },
+  };
+}
+
+export function createFileTransport(
+  directory: string,
+  from: string
+): MailTransport {
+  const transporter = nodemailer.createTransport({
+    streamTransport: true,
+    buffer: true,
+    newline: "unix",
+  });
+
+  return {
+    async send(message) {
+      const info = await transporter.sendMail({ from, ...message });
+
+      await mkdir(directory, { recursive: true });
+      await writeFile(
+        resolve(directory, `${Date.now()}-${randomUUID()}.eml`),
+        info.message
+      );
+    },
+  };
+}
+
+export function createMemoryTransport(): MailTransport {
+  return {
+    async send(message) {
+      sentMessages.push(message);
+    },
+  };
+}
+
+export function createMailTransport(
+  env: NodeJS.ProcessEnv = process.env
+): MailTransport {
+  const from = env.MAIL_FROM || DEFAULT_MAIL_FROM;
+  const defaultTransport =
+    env.NODE_ENV === "production"
+      ? "smtp"
+      : env.NODE_ENV === "test"
+        ? "memory"
+        : "file";
+  const transport = env.MAIL_TRANSPORT || defaultTransport;
+
+  if (env.NODE_ENV === "production" && transport !== "smtp") {
+    throw new Error('Please set MAIL_TRANSPORT to "smtp" in production.');
+  }
+
+  switch (transport) {
+    case "smtp":
+      if (!env.SMTP_URL) {
+        throw new Error("Please set SMTP_URL to use the SMTP mail transport.");
+      }
+      return createSmtpTransport(env.SMTP_URL, from);
+    case "file":
+      return createFileTransport(env.MAIL_DIRECTORY || "tmp/mail", from);
+    case "memory":
+      return createMemoryTransport();
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT "${transport}".`);
+  }
+}
+
+let mailer: MailTransport | undefined;
+
+export function setupMailer(env: NodeJS.ProcessEnv = process.env) {
+  mailer = createMailTransport(env);
+}
+
+export function sendMail(message: MailMessage) {
+  mailer ??= createMailTransport();
+  return mailer.send(message);
+}
@@ -1,3 +1,131 @@
-import { PrismaClient } from "@prisma/client";
+import { Prisma, PrismaClient } from "@prisma/client";
+import {
+  getCurrentOrganizationId,
+  isTenantScopeDisabled,
+  TenantContextError,
+} from "./tenant";
 
-export const prisma = new PrismaClient({ log: ["query"] });
+const ORGANIZATION_MODELS: Prisma.ModelName[] = [
+  "User",
+  "Client",
+  "AlignmentBand",
+  "CapitalMarketAssumption",
+];
+
+const CLIENT_MODELS: Prisma.ModelName[] = [
+  "Goal",
+  "Wallet",
+  "WalletSnapshot",
+  "AlignmentSnapshot",
+  "Event",
+  "Simulation",
+  "Insurance",
+  "ClientAdvisor",
+];
+
+const USER_MODELS: Prisma.ModelName[] = ["Session", "UserToken"];
+
+const TENANT_MODELS: Prisma.ModelName[] = [
+  ...ORGANIZATION_MODELS,
+  ...CLIENT_MODELS,
+  ...USER_MODELS,
+  "RefreshToken",
+];
+
+const FILTERED_OPERATIONS = [
+  "findUnique",
+  "findUniqueOrThrow",
+  "findFirst",
+  "findFirstOrThrow",
+  "findMany",
+  "count",
+  "aggregate",
+  "groupBy",
+  "update",
+  "updateMany",
+  "updateManyAndReturn",
+  "upsert",
+  "delete",
+  "deleteMany",
+];
+
+type QueryArgs = {
+  where?: { AND?: unknown };
+  data?: unknown;
+  create?: unknown;
+};
+
+function getTenantFilter(model: Prisma.ModelName, organizationId: string) {
+  if (ORGANIZATION_MODELS.includes(model)) {
+    return { organizationId };
+  }
+
+  if (CLIENT_MODELS.includes(model)) {
+    return { client: { organizationId } };
+  }
+
+  if (USER_MODELS.includes(model)) {
+    return { user: { organizationId } };
+  }
+
+  return { session: { user: { organizationId } } };
+}
+
+function withOrganization(data: unknown, organizationId: string) {
+  return Array.isArray(data)
+    ? data.map((item) => ({ ...item, organizationId }))
+    : { ...(data as object), organizationId };
+}
+
+const tenantExtension = Prisma.defineExtension({
+  name: "tenant",
+  query: {
+    $allModels: {
+      async $allOperations({ model, operation, args, query }) {
+        if (!TENANT_MODELS.includes(model) || isTenantScopeDisabled()) {
+          return query(args);
+        }
+
+        const organizationId = getCurrentOrganizationId();
+
+        if (!organizationId) {
+          throw new TenantContextError(
+            `Refusing to run ${model}.${operation} without an organization in the tenant context.`
+          );
+        }
+
+        const filter = getTenantFilter(model, organizationId);
+
+        const scopedArgs: QueryArgs = { ...(args as QueryArgs) };
+
+        if (FILTERED_OPERATIONS.includes(operation)) {
+          const { AND = [], ...where } = scopedArgs.where ?? {};
+
+          scopedArgs.where = {
+            ...where,
+            AND: [...(Array.isArray(AND) ? AND : [AND]), filter],
+          };
+        }
+
+        if (ORGANIZATION_MODELS.includes(model)) {
+          if (operation.startsWith("create")) {
+            scopedArgs.data = withOrganization(scopedArgs.data, organizationId);
+          }
+
+          if (operation === "upsert") {
+            scopedArgs.create = withOrganization(
+              scopedArgs.create,
+              organizationId
+            );
+          }
+        }
+
+        return query(scopedArgs as typeof args);
+      },
+    },
+  },
+});
+
+export const prisma = new PrismaClient({ log: ["query"] }).$extends(
+  tenantExtension
+);
@@ -0,0 +1,52 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+
+type TenantStore = {
+  organizationId?: string;
+  unscoped?: boolean;
+};
+
+export class TenantContextError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TenantContextError";
+  }
+}
+
+const tenantStorage = new AsyncLocalStorage<TenantStore>();
+
+export function runWithTenant<T>(callback: () => T) {
+  return tenantStorage.run({}, callback);
+}
+
+/**
+ * Runs the callback without the organization filter, for the flows that
+ * must find a record before knowing its organization (login, refresh,
+ * password reset). Everything else fails closed without an organization.
+ */
+export function runWithoutTenant<T>(callback: () => T) {
+  return tenantStorage.run({ unscoped: true }, callback);
+}
+
+/**
+ * Disables the organization filter for the rest of the current execution
+ * context. Only meant for scripts and test setup, never for request code.
+ */
+export function disableTenantScope() {
+  tenantStorage.enterWith({ unscoped: true });
+}
+
+export function setCurrentOrganization(organizationId: string) {
+  const store = tenantStorage.getStore();
+
+  if (store) {
+    store.organizationId = organizationId;
+  }
+}
+
+export function getCurrentOrganizationId() {
+  return tenantStorage.getStore()?.organizationId;
+}
+
+export function isTenantScopeDisabled() {
+  return tenantStorage.getStore()?.unscoped === true;
+}
@@ -0,0 +1,65 @@
+import { mkdtemp, readdir, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createMailTransport, sentMessages } from "../mailer";
+
+const message = {
+  to: "cliente@example.com",
+  subject: "Assunto",
+  text: "Corpo da mensagem",
+};
+
+describe("Mail Transport Selection (createMailTransport)", () => {
+  it("should keep messages in memory when running the tests", async () => {
+    const transport = createMailTransport({ NODE_ENV: "test" });
+
+    await transport.send(message);
+
+    expect(sentMessages).toContainEqual(message);
+  });
+
+  it("should write each message to a file in the configured directory", async () => {
+    const directory = await mkdtemp(join(tmpdir(), "mail-"));
+
+    try {
+      const transport = createMailTransport({
+        MAIL_TRANSPORT: "file",
+        MAIL_DIRECTORY: directory,
+        MAIL_FROM: "no-reply@example.com",
+      });
+
+      await transport.send(message);
+
+      const [file] = await readdir(directory);
+      const content = await readFile(join(directory, file), "utf8");
+
+      expect(file).toMatch(/\.eml$/);
+      expect(content).toContain("To: cliente@example.com");
+      expect(content).toContain("From: no-reply@example.com");
+      expect(content).toContain("Corpo da mensagem");
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  it("should require an SMTP URL for the SMTP transport", () => {
+    expect(() => createMailTransport({ MAIL_TRANSPORT: "smtp" })).toThrow(
+      "SMTP_URL"
+    );
+  });
+
+  it("should require SMTP in production", () => {
+    expect(() => createMailTransport({ NODE_ENV: "production" })).toThrow(
+      "SMTP_URL"
+    );
+    expect(() =>
+      createMailTransport({ NODE_ENV: "production", MAIL_TRANSPORT: "file" })
+    ).toThrow('Please set MAIL_TRANSPORT to "smtp" in production.');
+  });
+
+  it("should reject unknown transports", () => {
+    expect(() => createMailTransport({ MAIL_TRANSPORT: "pigeon" })).toThrow(
+      'Unknown MAIL_TRANSPORT "pigeon".'
+    );
+  });
+});
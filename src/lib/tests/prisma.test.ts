@@ -0,0 +1,18 @@
+import { prisma } from "../prisma";
+import { runWithTenant, TenantContextError } from "../tenant";
+
+describe("Tenant Extension (prisma)", () => {
+  it("should refuse to query a tenant model without an organization", async () => {
+    await runWithTenant(async () => {
+      await expect(prisma.alignmentBand.deleteMany()).rejects.toThrow(
+        TenantContextError
+      );
+      await expect(prisma.capitalMarketAssumption.findMany()).rejects.toThrow(
+        TenantContextError
+      );
+      await expect(
+        prisma.session.count({ where: { revokedAt: null } })
+      ).rejects.toThrow(TenantContextError);
+    });
+  });
+});
@@ -0,0 +1,13 @@
+import { createThrottle } from "../throttle";
+
+describe("In-Memory Throttle (createThrottle)", () => {
+  it("should refuse attempts over the limit until the window ends", () => {
+    const throttle = createThrottle(2, 1000);
+
+    expect(throttle.attempt("key", 0)).toBe(true);
+    expect(throttle.attempt("key", 100)).toBe(true);
+    expect(throttle.attempt("key", 200)).toBe(false);
+    expect(throttle.attempt("other-key", 200)).toBe(true);
+    expect(throttle.attempt("key", 1000)).toBe(true);
+  });
+});
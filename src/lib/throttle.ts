@@ -0,0 +1,35 @@
+export type Throttle = {
+  attempt(key: string, now?: number): boolean;
+};
+
+/**
+ * Counts attempts per key in fixed windows kept in memory. Enough for a
+ * single instance; multiple instances each keep their own counters.
+ */
+export function createThrottle(limit: number, windowMs: number): Throttle {
+  const windows = new Map<string, { count: number; resetAt: number }>();
+  let nextSweepAt = 0;
+
+  return {
+    attempt(key, now = Date.now()) {
+      if (now >= nextSweepAt) {
+        for (const [storedKey, window] of windows) {
+          if (window.resetAt <= now) {
+            windows.delete(storedKey);
+          }
+        }
+        nextSweepAt = now + windowMs;
+      }
+
+      const window = windows.get(key);
+
+      if (!window || window.resetAt <= now) {
+        windows.set(key, { count: 1, resetAt: now + windowMs });
+        return true;
+      }
+
+      window.count += 1;
+      return window.count <= limit;
+    },
+  };
+}
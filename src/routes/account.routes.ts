@@ -0,0 +1,192 @@
+import { FastifyInstance } from "fastify";
+import bcrypt from "bcryptjs";
+import { z } from "zod";
+import { prisma } from "../lib/prisma";
+import { runWithoutTenant, setCurrentOrganization } from "../lib/tenant";
+import { runInBackground } from "../lib/background";
+import { createThrottle } from "../lib/throttle";
+import {
+  BCRYPT_SALT_ROUNDS,
+  PASSWORD_RESET_REQUESTS_PER_EMAIL,
+  PASSWORD_RESET_REQUESTS_PER_IP,
+  PASSWORD_RESET_THROTTLE_WINDOW_MINUTES,
+} from "../config/constants";
+import {
+  accountTokenParamsSchema,
+  confirmPasswordResetSchema,
+  createPasswordResetSchema,
+} from "../schemas/account.schema";
+import { returnMessageSchema } from "../schemas/shared.schema";
+import { revokeUserSessions } from "../services/session.service";
+import {
+  consumeUserToken,
+  sendEmailVerification,
+  sendPasswordResetEmail,
+  UserTokenError,
+} from "../services/user-token.service";
+
+export async function accountRoutes(app: FastifyInstance) {
+  const throttleWindowMs = PASSWORD_RESET_THROTTLE_WINDOW_MINUTES * 60 * 1000;
+  const resetsByIp = createThrottle(
+    PASSWORD_RESET_REQUESTS_PER_IP,
+    throttleWindowMs
+  );
+  const resetsByEmail = createThrottle(
+    PASSWORD_RESET_REQUESTS_PER_EMAIL,
+    throttleWindowMs
+  );
+
+  app.post(
+    "/password-resets",
+    {
+      schema: {
+        description:
+          "Envia por e-mail um código para redefinir a senha. A resposta é a mesma para e-mails cadastrados ou não.",
+        tags: ["Account"],
+        body: createPasswordResetSchema,
+        response: { 202: returnMessageSchema, 429: returnMessageSchema },
+      },
+    },
+    async (request, reply) => {
+      const { email } = createPasswordResetSchema.parse(request.body);
+
+      if (
+        !resetsByIp.attempt(request.ip) ||
+        !resetsByEmail.attempt(email.toLowerCase())
+      ) {
+        return reply.status(429).send({
+          message:
+            "Muitas solicitações de redefinição de senha. Tente novamente mais tarde.",
+        });
+      }
+
+      runInBackground(
+        async () => {
+          const user = await runWithoutTenant(() =>
+            prisma.user.findUnique({ where: { email } })
+          );
+
+          if (user) {
+            setCurrentOrganization(user.organizationId);
+            await sendPasswordResetEmail(user);
+          }
+        },
+        (error) =>
+          request.log.error(error, "Failed to send the password reset email.")
+      );
+
+      return reply.status(202).send({
+        message:
+          "Se o e-mail estiver cadastrado, você receberá as instruções para redefinir a senha.",
+      });
+    }
+  );
+
+  app.post(
+    "/password-resets/:token/confirm",
+    {
+      schema: {
+        description:
+          "Define uma nova senha a partir do código de redefinição. O código é de uso único e todas as sessões do usuário são encerradas.",
+        tags: ["Account"],
+        params: accountTokenParamsSchema,
+        body: confirmPasswordResetSchema,
+        response: { 204: z.null(), 400: returnMessageSchema },
+      },
+    },
+    async (request, reply) => {
+      const { token } = accountTokenParamsSchema.parse(request.params);
+      const { password } = confirmPasswordResetSchema.parse(request.body);
+
+      try {
+        const userId = await consumeUserToken(token, "PASSWORD_RESET");
+
+        await prisma.user.update({
+          where: { id: userId },
+          data: {
+            password: await bcrypt.hash(password, BCRYPT_SALT_ROUNDS),
+          },
+        });
+        await revokeUserSessions(userId);
+
+        return reply.status(204).send();
+      } catch (error) {
+        if (error instanceof UserTokenError) {
+          return reply.status(400).send({ message: error.message });
+        }
+        throw error;
+      }
+    }
+  );
+
+  app.post(
+    "/email-verifications/:token/confirm",
+    {
+      schema: {
+        description: "Confirma o e-mail do usuário a partir do código enviado.",
+        tags: ["Account"],
+        params: accountTokenParamsSchema,
+        response: { 204: z.null(), 400: returnMessageSchema },
+      },
+    },
+    async (request, reply) => {
+      const { token } = accountTokenParamsSchema.parse(request.params);
+
+      try {
+        const userId = await consumeUserToken(token, "EMAIL_VERIFICATION");
+
+        await prisma.user.update({
+          where: { id: userId },
+          data: { emailVerifiedAt: new Date() },
+        });
+
+        return reply.status(204).send();
+      } catch (error) {
+        if (error instanceof UserTokenError) {
+          return reply.status(400).send({ message: error.message });
+        }
+        throw error;
+      }
+    }
+  );
+
+  app.post(
+    "/me/email-verification",
+    {
+      onRequest: [app.authenticate],
+      schema: {
+        description:
+          "Reenvia o código de confirmação de e-mail do usuário autenticado.",
+        tags: ["Account"],
+        response: {
+          202: returnMessageSchema,
+          401: returnMessageSchema,
+          404: returnMessageSchema,
+          409: returnMessageSchema,
+        },
+        security: [{ bearerAuth: [] }],
+      },
+    },
+    async (request, reply) => {
+      const user = await prisma.user.findUnique({
+        where: { id: request.user.sub },
+      });
+
+      if (!user) {
+        return reply.status(404).send({ message: "Usuário não encontrado." });
+      }
+
+      if (user.emailVerifiedAt) {
+        return reply
+          .status(409)
+          .send({ message: "O e-mail já foi confirmado." });
+      }
+
+      await sendEmailVerification(user);
+
+      return reply
+        .status(202)
+        .send({ message: "Enviamos um novo código de confirmação." });
+    }
+  );
+}
@@ -7,6 +7,10 @@ import {
   clientResponseSchema,
   paginatedClientsResponseSchema,
   clientStatsResponseSchema,
+  clientAdvisorsResponseSchema,
+  updateClientAdvisorsSchema,
+  alignmentDashboardQuerySchema,
+  alignmentDashboardResponseSchema,
 } from "../schemas/client.schema";
 import {
   returnMessageSchema,
@@ -15,7 +19,11 @@ import {
 import { paginate } from "../utils/pagination";
 import { Client, Prisma } from "@prisma/client";
 import { z } from "zod";
-import { getClientPlanningStats } from "../services/client.service";
+import {
+  getAlignmentDashboard,
+  getClientPlanningStats,
+  getClientScope,
+} from "../services/client.service";
 
 const clientPublicSelect = {
   id: true,
@@ -24,17 +32,37 @@ const clientPublicSelect = {
   dateOfBirth: true,
   isActive: true,
   familyProfile: true,
+  advisorId: true,
   createdAt: true,
   updatedAt: true,
 } as const;
 
+const clientAdvisorsSelect = {
+  advisor: { select: { id: true, email: true } },
+  coAdvisors: {
+    select: { advisor: { select: { id: true, email: true } } },
+    orderBy: { createdAt: "asc" },
+  },
+} as const;
+
+function formatClientAdvisors({
+  advisor,
+  coAdvisors,
+}: Prisma.ClientGetPayload<{ select: typeof clientAdvisorsSelect }>) {
+  return {
+    owner: advisor,
+    coAdvisors: coAdvisors.map((coAdvisor) => coAdvisor.advisor),
+  };
+}
+
 export async function clientRoutes(app: FastifyInstance) {
   app.get(
     "/clients",
     {
       onRequest: [app.authenticate, app.ensureAdvisor],
       schema: {
-        description: "Lista todos os clientes com paginação.",
+        description:
+          "Lista com paginação os clientes da carteira do assessor autenticado.",
         tags: ["Clients"],
         querystring: paginationQuerySchema,
         response: {
@@ -49,12 +77,13 @@ export async function clientRoutes(app: FastifyInstance) {
       const { page, pageSize } = paginationQuerySchema.parse(request.query);
 
       const result = await paginate<
-        Prisma.ClientDelegate,
+        typeof prisma.client,
         Prisma.ClientFindManyArgs,
         Client
       >(
         prisma.client,
         {
+          where: getClientScope(request.user),
           select: {
             ...clientPublicSelect,
             wallet: {
@@ -80,7 +109,11 @@ export async function clientRoutes(app: FastifyInstance) {
   app.get(
     "/clients/:clientId",
     {
-      onRequest: [app.authenticate, app.ensureAdvisor],
+      onRequest: [
+        app.authenticate,
+        app.ensureAdvisor,
+        app.ensureAssignedAdvisor,
+      ],
       schema: {
         description: "Obtém os detalhes de um cliente específico.",
         tags: ["Clients"],
@@ -130,7 +163,7 @@ export async function clientRoutes(app: FastifyInstance) {
     async (request, reply) => {
       const data = createClientSchema.parse(request.body);
 
-      const existingClient = await prisma.client.findUnique({
+      const existingClient = await prisma.client.findFirst({
         where: { email: data.email },
       });
       if (existingClient) {
@@ -139,7 +172,13 @@ export async function clientRoutes(app: FastifyInstance) {
           .send({ message: "Um cliente com este e-mail já existe." });
       }
 
-      const client = await prisma.client.create({ data });
+      const client = await prisma.client.create({
+        data: {
+          ...data,
+          advisorId: request.user.sub,
+          organizationId: request.user.organizationId,
+        },
+      });
 
       return reply.status(201).send(client);
     }
@@ -148,7 +187,11 @@ export async function clientRoutes(app: FastifyInstance) {
   app.put(
     "/clients/:clientId",
     {
-      onRequest: [app.authenticate, app.ensureAdvisor],
+      onRequest: [
+        app.authenticate,
+        app.ensureAdvisor,
+        app.ensureAssignedAdvisor,
+      ],
       schema: {
         description: "Atualiza os dados de um cliente específico.",
         tags: ["Clients"],
@@ -197,7 +240,11 @@ export async function clientRoutes(app: FastifyInstance) {
   app.delete(
     "/clients/:clientId",
     {
-      onRequest: [app.authenticate, app.ensureAdvisor],
+      onRequest: [
+        app.authenticate,
+        app.ensureAdvisor,
+        app.ensureAssignedAdvisor,
+      ],
       schema: {
         description: "Deleta um cliente específico.",
         tags: ["Clients"],
@@ -245,9 +292,158 @@ export async function clientRoutes(app: FastifyInstance) {
         security: [{ bearerAuth: [] }],
       },
     },
-    async (_, reply) => {
-      const stats = await getClientPlanningStats();
+    async (request, reply) => {
+      const stats = await getClientPlanningStats(getClientScope(request.user));
       return reply.status(200).send(stats);
     }
   );
+
+  app.get(
+    "/clients/dashboard",
+    {
+      onRequest: [app.authenticate, app.ensureAdvisor],
+      schema: {
+        description:
+          "Obtém o painel de alinhamento dos clientes ativos: a distribuição por categoria, os clientes menos alinhados e os clientes com carteira desatualizada.",
+        tags: ["Clients"],
+        querystring: alignmentDashboardQuerySchema,
+        response: {
+          200: alignmentDashboardResponseSchema,
+          401: returnMessageSchema,
+          403: returnMessageSchema,
+        },
+        security: [{ bearerAuth: [] }],
+      },
+    },
+    async (request, reply) => {
+      const query = alignmentDashboardQuerySchema.parse(request.query);
+
+      const dashboard = await getAlignmentDashboard(
+        getClientScope(request.user),
+        query
+      );
+      return reply.status(200).send(dashboard);
+    }
+  );
+
+  app.get(
+    "/clients/:clientId/advisors",
+    {
+      onRequest: [
+        app.authenticate,
+        app.ensureAdvisor,
+        app.ensureAssignedAdvisor,
+      ],
+      schema: {
+        description:
+          "Obtém o assessor responsável e os co-assessores de um cliente.",
+        tags: ["Clients"],
+        params: clientIdParamsSchema,
+        response: {
+          200: clientAdvisorsResponseSchema,
+          401: returnMessageSchema,
+          403: returnMessageSchema,
+          404: returnMessageSchema,
+        },
+        security: [{ bearerAuth: [] }],
+      },
+    },
+    async (request, reply) => {
+      const { clientId: id } = clientIdParamsSchema.parse(request.params);
+
+      const client = await prisma.client.findUnique({
+        where: { id },
+        select: clientAdvisorsSelect,
+      });
+
+      if (!client) {
+        return reply.status(404).send({ message: "Cliente não encontrado." });
+      }
+
+      return reply.status(200).send(formatClientAdvisors(client));
+    }
+  );
+
+  app.put(
+    "/clients/:clientId/advisors",
+    {
+      onRequest: [
+        app.authenticate,
+        app.ensureAdvisor,
+        app.ensureAssignedAdvisor,
+      ],
+      schema: {
+        description:
+          "Define o assessor responsável e os co-assessores de um cliente. Apenas o assessor responsável pode alterá-los.",
+        tags: ["Clients"],
+        params: clientIdParamsSchema,
+        body: updateClientAdvisorsSchema,
+        response: {
+          200: clientAdvisorsResponseSchema,
+          400: returnMessageSchema,
+          401: returnMessageSchema,
+          403: returnMessageSchema,
+          404: returnMessageSchema,
+        },
+        security: [{ bearerAuth: [] }],
+      },
+    },
+    async (request, reply) => {
+      const { clientId: id } = clientIdParamsSchema.parse(request.params);
+      const { ownerId, coAdvisorIds } = updateClientAdvisorsSchema.parse(
+        request.body
+      );
+
+      const client = await prisma.client.findUnique({
+        where: { id },
+        select: { advisorId: true },
+      });
+
+      if (!client) {
+        return reply.status(404).send({ message: "Cliente não encontrado." });
+      }
+
+      if (
+        request.user.role !== "ORG_ADMIN" &&
+        client.advisorId !== request.user.sub
+      ) {
+        return reply.status(403).send({
+          message:
+            "Acesso negado. Apenas o assessor responsável pode alterar os assessores do cliente.",
+        });
+      }
+
+      const advisorIds = [
+        ...new Set(coAdvisorIds.filter((advisorId) => advisorId !== ownerId)),
+      ];
+
+      const advisorCount = await prisma.user.count({
+        where: {
+          id: { in: [ownerId, ...advisorIds] },
+          role: { in: ["ADVISOR", "ORG_ADMIN"] },
+        },
+      });
+
+      if (advisorCount !== advisorIds.length + 1) {
+        return reply.status(400).send({
+          message:
+            "Todos os assessores informados devem ser usuários ADVISOR ou ORG_ADMIN.",
+        });
+      }
+
+      const [, , updatedClient] = await prisma.$transaction([
+        prisma.clientAdvisor.deleteMany({ where: { clientId: id } }),
+        prisma.clientAdvisor.createMany({
+          data: advisorIds.map((advisorId) => ({ clientId: id, advisorId })),
+        }),
+        prisma.client.update({
+          where: { id },
+          data: { advisorId: ownerId },
+          select: clientAdvisorsSelect,
+        }),
+      ]);
+
+      return reply.status(200).send(formatClientAdvisors(updatedClient));
+    }
+  );
 }
@@ -3,6 +3,7 @@ import { prisma } from "../lib/prisma";
 import {
   createEventSchema,
   updateEventSchema,
+  eventDatesSchema,
   eventIdParamsSchema,
   eventResponseSchema,
   paginatedEventsResponseSchema,
@@ -15,6 +16,7 @@ import { clientIdParamsSchema } from "../schemas/client.schema";
 import { paginate } from "../utils/pagination";
 import { Prisma, Event as PrismaEvent } from "@prisma/client";
 import { z } from "zod";
+import { canAccessClient, getClientScope } from "../services/client.service";
 
 const eventPublicSelect = {
   id: true,
@@ -22,6 +24,10 @@ const eventPublicSelect = {
   category: true,
   value: true,
   frequency: true,
+  startDate: true,
+  endDate: true,
+  occurrenceDate: true,
+  inflationIndexed: true,
   clientId: true,
   createdAt: true,
   updatedAt: true,
@@ -31,7 +37,11 @@ export async function eventRoutes(app: FastifyInstance) {
   app.get(
     "/clients/:clientId/events",
     {
-      onRequest: [app.authenticate, app.ensureOwnerOrAdvisor],
+      onRequest: [
+        app.authenticate,
+        app.ensureOwnerOrAdvisor,
+        app.ensureAssignedAdvisor,
+      ],
       schema: {
         description:
           "Lista todas as movimentações de um cliente específico com paginação.",
@@ -51,7 +61,7 @@ export async function eventRoutes(app: FastifyInstance) {
       const { page, pageSize } = paginationQuerySchema.parse(request.query);
 
       const result = await paginate<
-        Prisma.EventDelegate,
+        typeof prisma.event,
         Prisma.EventFindManyArgs,
         PrismaEvent
       >(
@@ -108,7 +118,7 @@ export async function eventRoutes(app: FastifyInstance) {
           .send({ message: "Movimentação não encontrada." });
       }
 
-      if (user.role !== "ADVISOR" && user.clientId !== event.clientId) {
+      if (!(await canAccessClient(user, event.clientId))) {
         return reply.status(403).send({ message: "Acesso negado." });
       }
 
@@ -122,7 +132,11 @@ export async function eventRoutes(app: FastifyInstance) {
   app.post(
     "/clients/:clientId/events",
     {
-      onRequest: [app.authenticate, app.ensureAdvisor],
+      onRequest: [
+        app.authenticate,
+        app.ensureAdvisor,
+        app.ensureAssignedAdvisor,
+      ],
       schema: {
         description:
           "Cria uma nova movimentação (evento) para um cliente específico.",
@@ -172,6 +186,7 @@ export async function eventRoutes(app: FastifyInstance) {
         body: updateEventSchema,
         response: {
           200: eventResponseSchema,
+          400: returnMessageSchema,
           401: returnMessageSchema,
           403: returnMessageSchema,
           404: returnMessageSchema,
@@ -183,6 +198,30 @@ export async function eventRoutes(app: FastifyInstance) {
       const { eventId } = eventIdParamsSchema.parse(request.params);
       const data = updateEventSchema.parse(request.body);
 
+      const event = await prisma.event.findFirst({
+        where: { id: eventId, client: getClientScope(request.user) },
+        select: {
+          frequency: true,
+          startDate: true,
+          endDate: true,
+          occurrenceDate: true,
+        },
+      });
+
+      if (!event) {
+        return reply
+          .status(404)
+          .send({ message: "Movimentação não encontrada." });
+      }
+
+      const dates = eventDatesSchema.safeParse({ ...event, ...data });
+
+      if (!dates.success) {
+        return reply
+          .status(400)
+          .send({ message: dates.error.issues[0].message });
+      }
+
       try {
         const updatedEvent = await prisma.event.update({
           where: { id: eventId },
@@ -229,7 +268,9 @@ export async function eventRoutes(app: FastifyInstance) {
       const { eventId } = eventIdParamsSchema.parse(request.params);
 
       try {
-        await prisma.event.delete({ where: { id: eventId } });
+        await prisma.event.delete({
+          where: { id: eventId, client: getClientScope(request.user) },
+        });
         return reply.status(204).send();
       } catch (error) {
         if (
@@ -13,8 +13,10 @@ import {
 } from "../schemas/shared.schema";
 import { clientIdParamsSchema } from "../schemas/client.schema";
 import { paginate } from "../utils/pagination";
+import { recordAlignmentSnapshot } from "../services/alignment.service";
 import { Goal, Prisma } from "@prisma/client";
 import { z } from "zod";
+import { canAccessClient, getClientScope } from "../services/client.service";
 
 const goalPublicSelect = {
   id: true,
@@ -30,7 +32,11 @@ export async function goalRoutes(app: FastifyInstance) {
   app.get(
     "/clients/:clientId/goals",
     {
-      onRequest: [app.authenticate, app.ensureOwnerOrAdvisor],
+      onRequest: [
+        app.authenticate,
+        app.ensureOwnerOrAdvisor,
+        app.ensureAssignedAdvisor,
+      ],
       schema: {
         description:
           "Lista todas as metas de um cliente específico com paginação.",
@@ -50,7 +56,7 @@ export async function goalRoutes(app: FastifyInstance) {
       const { page, pageSize } = paginationQuerySchema.parse(request.query);
 
       const result = await paginate<
-        Prisma.GoalDelegate,
+        typeof prisma.goal,
         Prisma.GoalFindManyArgs,
         Goal
       >(
@@ -105,7 +111,7 @@ export async function goalRoutes(app: FastifyInstance) {
         return reply.status(404).send({ message: "Meta não encontrada." });
       }
 
-      if (user.role !== "ADVISOR" && user.clientId !== goal.clientId) {
+      if (!(await canAccessClient(user, goal.clientId))) {
         return reply.status(403).send({ message: "Acesso negado." });
       }
 
@@ -118,7 +124,11 @@ export async function goalRoutes(app: FastifyInstance) {
   app.post(
     "/clients/:clientId/goals",
     {
-      onRequest: [app.authenticate, app.ensureAdvisor],
+      onRequest: [
+        app.authenticate,
+        app.ensureAdvisor,
+        app.ensureAssignedAdvisor,
+      ],
       schema: {
         description: "Cria uma nova meta para um cliente específico.",
         tags: ["Goals"],
@@ -153,6 +163,10 @@ export async function goalRoutes(app: FastifyInstance) {
         select: goalPublicSelect,
       });
 
+      await recordAlignmentSnapshot(clientId).catch((error) =>
+        request.log.error(error, "Failed to record the alignment snapshot.")
+      );
+
       return reply
         .status(201)
         .send({ ...goal, targetValue: goal.targetValue.toString() });
@@ -183,16 +197,19 @@ export async function goalRoutes(app: FastifyInstance) {
 
       try {
         const updatedGoal = await prisma.goal.update({
-          where: { id },
+          where: { id, client: getClientScope(request.user) },
           data,
           select: goalPublicSelect,
         });
-        return reply
-          .status(200)
-          .send({
-            ...updatedGoal,
-            targetValue: updatedGoal.targetValue.toString(),
-          });
+
+        await recordAlignmentSnapshot(updatedGoal.clientId).catch((error) =>
+          request.log.error(error, "Failed to record the alignment snapshot.")
+        );
+
+        return reply.status(200).send({
+          ...updatedGoal,
+          targetValue: updatedGoal.targetValue.toString(),
+        });
       } catch (error) {
         if (
           error instanceof Prisma.PrismaClientKnownRequestError &&
@@ -226,7 +243,15 @@ export async function goalRoutes(app: FastifyInstance) {
       const { goalId: id } = goalIdParamsSchema.parse(request.params);
 
       try {
-        await prisma.goal.delete({ where: { id } });
+        const { clientId } = await prisma.goal.delete({
+          where: { id, client: getClientScope(request.user) },
+          select: { clientId: true },
+        });
+
+        await recordAlignmentSnapshot(clientId).catch((error) =>
+          request.log.error(error, "Failed to record the alignment snapshot.")
+        );
+
         return reply.status(204).send();
       } catch (error) {
         if (
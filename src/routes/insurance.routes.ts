@@ -15,6 +15,7 @@ import { clientIdParamsSchema } from "../schemas/client.schema";
 import { paginate } from "../utils/pagination";
 import { Insurance, Prisma } from "@prisma/client";
 import { z } from "zod";
+import { canAccessClient, getClientScope } from "../services/client.service";
 
 const insurancePublicSelect = {
   id: true,
@@ -29,7 +30,11 @@ export async function insuranceRoutes(app: FastifyInstance) {
   app.get(
     "/clients/:clientId/insurances",
     {
-      onRequest: [app.authenticate, app.ensureOwnerOrAdvisor],
+      onRequest: [
+        app.authenticate,
+        app.ensureOwnerOrAdvisor,
+        app.ensureAssignedAdvisor,
+      ],
       schema: {
         description:
           "Lista todos os seguros de um cliente específico com paginação.",
@@ -49,7 +54,7 @@ export async function insuranceRoutes(app: FastifyInstance) {
       const { page, pageSize } = paginationQuerySchema.parse(request.query);
 
       const result = await paginate<
-        Prisma.InsuranceDelegate,
+        typeof prisma.insurance,
         Prisma.InsuranceFindManyArgs,
         Insurance
       >(
@@ -104,7 +109,7 @@ export async function insuranceRoutes(app: FastifyInstance) {
         return reply.status(404).send({ message: "Seguro não encontrado." });
       }
 
-      if (user.role !== "ADVISOR" && user.clientId !== insurance.clientId) {
+      if (!(await canAccessClient(user, insurance.clientId))) {
         return reply.status(403).send({ message: "Acesso negado." });
       }
 
@@ -118,7 +123,11 @@ export async function insuranceRoutes(app: FastifyInstance) {
   app.post(
     "/clients/:clientId/insurances",
     {
-      onRequest: [app.authenticate, app.ensureAdvisor],
+      onRequest: [
+        app.authenticate,
+        app.ensureAdvisor,
+        app.ensureAssignedAdvisor,
+      ],
       schema: {
         description: "Cria um novo seguro para um cliente específico.",
         tags: ["Insurances"],
@@ -180,7 +189,7 @@ export async function insuranceRoutes(app: FastifyInstance) {
 
       try {
         const updatedInsurance = await prisma.insurance.update({
-          where: { id: insuranceId },
+          where: { id: insuranceId, client: getClientScope(request.user) },
           data,
           select: insurancePublicSelect,
         });
@@ -222,7 +231,9 @@ export async function insuranceRoutes(app: FastifyInstance) {
       const { insuranceId } = insuranceIdParamsSchema.parse(request.params);
 
       try {
-        await prisma.insurance.delete({ where: { id: insuranceId } });
+        await prisma.insurance.delete({
+          where: { id: insuranceId, client: getClientScope(request.user) },
+        });
         return reply.status(204).send();
       } catch (error) {
         if (
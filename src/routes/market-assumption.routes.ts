@@ -0,0 +1,180 @@
+import { FastifyInstance } from "fastify";
+import { prisma } from "../lib/prisma";
+import {
+  createMarketAssumptionSchema,
+  listMarketAssumptionsResponseSchema,
+  marketAssumptionIdParamsSchema,
+  marketAssumptionResponseSchema,
+  updateMarketAssumptionSchema,
+} from "../schemas/market-assumption.schema";
+import { returnMessageSchema } from "../schemas/shared.schema";
+import { CapitalMarketAssumption, Prisma } from "@prisma/client";
+import { z } from "zod";
+
+function formatAssumption(assumption: CapitalMarketAssumption) {
+  return {
+    ...assumption,
+    expectedReturn: assumption.expectedReturn.toString(),
+    volatility: assumption.volatility.toString(),
+  };
+}
+
+export async function marketAssumptionRoutes(app: FastifyInstance) {
+  app.get(
+    "/market-assumptions",
+    {
+      onRequest: [app.authenticate],
+      schema: {
+        description:
+          "Lista as premissas de mercado (retorno esperado e volatilidade) por classe de ativo da organização.",
+        tags: ["Market Assumptions"],
+        response: {
+          200: listMarketAssumptionsResponseSchema,
+          401: returnMessageSchema,
+        },
+        security: [{ bearerAuth: [] }],
+      },
+    },
+    async (_request, reply) => {
+      const assumptions = await prisma.capitalMarketAssumption.findMany({
+        orderBy: { className: "asc" },
+      });
+
+      return reply.status(200).send(assumptions.map(formatAssumption));
+    }
+  );
+
+  app.post(
+    "/market-assumptions",
+    {
+      onRequest: [app.authenticate, app.ensureOrgAdmin],
+      schema: {
+        description:
+          "Cadastra as premissas de mercado de uma classe de ativo para a organização.",
+        tags: ["Market Assumptions"],
+        body: createMarketAssumptionSchema,
+        response: {
+          201: marketAssumptionResponseSchema,
+          401: returnMessageSchema,
+          403: returnMessageSchema,
+          409: returnMessageSchema,
+        },
+        security: [{ bearerAuth: [] }],
+      },
+    },
+    async (request, reply) => {
+      const data = createMarketAssumptionSchema.parse(request.body);
+
+      const existingAssumption = await prisma.capitalMarketAssumption.findFirst(
+        {
+          where: { className: data.className },
+        }
+      );
+      if (existingAssumption) {
+        return reply.status(409).send({
+          message:
+            "Já existem premissas cadastradas para esta classe de ativo.",
+        });
+      }
+
+      const assumption = await prisma.capitalMarketAssumption.create({
+        data: { ...data, organizationId: request.user.organizationId },
+      });
+
+      return reply.status(201).send(formatAssumption(assumption));
+    }
+  );
+
+  app.put(
+    "/market-assumptions/:assumptionId",
+    {
+      onRequest: [app.authenticate, app.ensureOrgAdmin],
+      schema: {
+        description:
+          "Atualiza as premissas de mercado de uma classe de ativo específica.",
+        tags: ["Market Assumptions"],
+        params: marketAssumptionIdParamsSchema,
+        body: updateMarketAssumptionSchema,
+        response: {
+          200: marketAssumptionResponseSchema,
+          401: returnMessageSchema,
+          403: returnMessageSchema,
+          404: returnMessageSchema,
+          409: returnMessageSchema,
+        },
+        security: [{ bearerAuth: [] }],
+      },
+    },
+    async (request, reply) => {
+      const { assumptionId } = marketAssumptionIdParamsSchema.parse(
+        request.params
+      );
+      const data = updateMarketAssumptionSchema.parse(request.body);
+
+      try {
+        const assumption = await prisma.capitalMarketAssumption.update({
+          where: { id: assumptionId },
+          data,
+        });
+
+        return reply.status(200).send(formatAssumption(assumption));
+      } catch (error) {
+        if (error instanceof Prisma.PrismaClientKnownRequestError) {
+          if (error.code === "P2025") {
+            return reply
+              .status(404)
+              .send({ message: "Premissa de mercado não encontrada." });
+          }
+          if (error.code === "P2002") {
+            return reply.status(409).send({
+              message:
+                "Já existem premissas cadastradas para esta classe de ativo.",
+            });
+          }
+        }
+        throw error;
+      }
+    }
+  );
+
+  app.delete(
+    "/market-assumptions/:assumptionId",
+    {
+      onRequest: [app.authenticate, app.ensureOrgAdmin],
+      schema: {
+        description: "Deleta as premissas de mercado de uma classe de ativo.",
+        tags: ["Market Assumptions"],
+        params: marketAssumptionIdParamsSchema,
+        response: {
+          204: z.null(),
+          401: returnMessageSchema,
+          403: returnMessageSchema,
+          404: returnMessageSchema,
+        },
+        security: [{ bearerAuth: [] }],
+      },
+    },
+    async (request, reply) => {
+      const { assumptionId } = marketAssumptionIdParamsSchema.parse(
+        request.params
+      );
+
+      try {
+        await prisma.capitalMarketAssumption.delete({
+          where: { id: assumptionId },
+        });
+        return reply.status(204).send();
+      } catch (error) {
+        if (
+          error instanceof Prisma.PrismaClientKnownRequestError &&
+          error.code === "P2025"
+        ) {
+          return reply
+            .status(404)
+            .send({ message: "Premissa de mercado não encontrada." });
+        }
+        throw error;
+      }
+    }
+  );
+}
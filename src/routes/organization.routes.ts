@@ -0,0 +1,142 @@
+import { FastifyInstance } from "fastify";
+import bcrypt from "bcryptjs";
+import { prisma } from "../lib/prisma";
+import { runWithoutTenant, setCurrentOrganization } from "../lib/tenant";
+import { BCRYPT_SALT_ROUNDS } from "../config/constants";
+import {
+  createOrganizationResponseSchema,
+  createOrganizationSchema,
+  organizationResponseSchema,
+  updateOrganizationSchema,
+} from "../schemas/organization.schema";
+import { returnMessageSchema } from "../schemas/shared.schema";
+import { sendEmailVerification } from "../services/user-token.service";
+
+export async function organizationRoutes(app: FastifyInstance) {
+  app.post(
+    "/organizations",
+    {
+      onRequest: [app.ensurePlatformOperator],
+      schema: {
+        description:
+          "Cadastra uma nova organização (escritório de assessoria) e o seu primeiro administrador (ORG_ADMIN). Restrito ao operador da plataforma, que se identifica pelo cabeçalho X-Platform-Key.",
+        tags: ["Organizations"],
+        body: createOrganizationSchema,
+        response: {
+          201: createOrganizationResponseSchema,
+          403: returnMessageSchema,
+          409: returnMessageSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const { name, admin } = createOrganizationSchema.parse(request.body);
+
+      const existingUser = await runWithoutTenant(() =>
+        prisma.user.findUnique({
+          where: { email: admin.email },
+        })
+      );
+      if (existingUser) {
+        return reply
+          .status(409)
+          .send({ message: "Este e-mail já está em uso." });
+      }
+
+      const hashedPassword = await bcrypt.hash(
+        admin.password,
+        BCRYPT_SALT_ROUNDS
+      );
+
+      const organization = await prisma.organization.create({
+        data: {
+          name,
+          users: {
+            create: {
+              email: admin.email,
+              password: hashedPassword,
+              role: "ORG_ADMIN",
+            },
+          },
+        },
+        include: { users: true },
+      });
+
+      const {
+        users: [{ password: _, ...adminWithoutPassword }],
+        ...organizationData
+      } = organization;
+
+      setCurrentOrganization(organization.id);
+
+      await sendEmailVerification(adminWithoutPassword).catch((error) =>
+        request.log.error(error, "Failed to send the email verification.")
+      );
+
+      return reply.status(201).send({
+        organization: organizationData,
+        admin: adminWithoutPassword,
+      });
+    }
+  );
+
+  app.get(
+    "/organizations/me",
+    {
+      onRequest: [app.authenticate],
+      schema: {
+        description:
+          "Obtém os dados da organização do usuário atualmente autenticado.",
+        tags: ["Organizations"],
+        response: {
+          200: organizationResponseSchema,
+          401: returnMessageSchema,
+          404: returnMessageSchema,
+        },
+        security: [{ bearerAuth: [] }],
+      },
+    },
+    async (request, reply) => {
+      const organization = await prisma.organization.findUnique({
+        where: { id: request.user.organizationId },
+      });
+
+      if (!organization) {
+        return reply
+          .status(404)
+          .send({ message: "Organização não encontrada." });
+      }
+
+      return reply.status(200).send(organization);
+    }
+  );
+
+  app.put(
+    "/organizations/me",
+    {
+      onRequest: [app.authenticate, app.ensureOrgAdmin],
+      schema: {
+        description:
+          "Atualiza os dados da organização do administrador autenticado.",
+        tags: ["Organizations"],
+        body: updateOrganizationSchema,
+        response: {
+          200: organizationResponseSchema,
+          401: returnMessageSchema,
+          403: returnMessageSchema,
+        },
+        security: [{ bearerAuth: [] }],
+      },
+    },
+    async (request, reply) => {
+      const { name } = updateOrganizationSchema.parse(request.body);
+
+      const organization = await prisma.organization.update({
+        where: { id: request.user.organizationId },
+        data: { name },
+      });
+
+      return reply.status(200).send(organization);
+    }
+  );
+}
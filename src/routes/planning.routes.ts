@@ -1,22 +1,35 @@
 import { FastifyInstance } from "fastify";
 import { clientIdParamsSchema } from "../schemas/client.schema";
-import { alignmentResponseSchema } from "../schemas/planning.schema";
+import {
+  alignmentHistoryQuerySchema,
+  alignmentHistoryResponseSchema,
+  alignmentQuerySchema,
+  alignmentResponseSchema,
+} from "../schemas/planning.schema";
 import { returnMessageSchema } from "../schemas/shared.schema";
+import { prisma } from "../lib/prisma";
 import {
   AlignmentError,
   calculateAlignment,
+  calculateAlignmentTrend,
 } from "../services/alignment.service";
+import { ProjectionError } from "../services/projection.service";
 
 export async function planningRoutes(app: FastifyInstance) {
   app.get(
     "/clients/:clientId/alignment",
     {
-      onRequest: [app.authenticate, app.ensureOwnerOrAdvisor],
+      onRequest: [
+        app.authenticate,
+        app.ensureOwnerOrAdvisor,
+        app.ensureAssignedAdvisor,
+      ],
       schema: {
         description:
-          "Calcula o percentual de alinhamento de um cliente ao seu plano financeiro.",
+          "Calcula o percentual de alinhamento de um cliente ao seu plano financeiro, pelo patrimônio atual ou considerando a data de cada meta.",
         tags: ["Planning & Alignment"],
         params: clientIdParamsSchema,
+        querystring: alignmentQuerySchema,
         response: {
           200: alignmentResponseSchema,
           400: returnMessageSchema,
@@ -28,13 +41,17 @@ export async function planningRoutes(app: FastifyInstance) {
     },
     async (request, reply) => {
       const { clientId } = clientIdParamsSchema.parse(request.params);
+      const options = alignmentQuerySchema.parse(request.query);
 
       try {
-        const alignmentData = await calculateAlignment(clientId);
+        const alignmentData = await calculateAlignment(clientId, options);
 
         return reply.status(200).send(alignmentData);
       } catch (error) {
-        if (error instanceof AlignmentError) {
+        if (
+          error instanceof AlignmentError ||
+          error instanceof ProjectionError
+        ) {
           return reply.status(400).send({ message: error.message });
         }
 
@@ -42,4 +59,64 @@ export async function planningRoutes(app: FastifyInstance) {
       }
     }
   );
+
+  app.get(
+    "/clients/:clientId/alignment/history",
+    {
+      onRequest: [
+        app.authenticate,
+        app.ensureOwnerOrAdvisor,
+        app.ensureAssignedAdvisor,
+      ],
+      schema: {
+        description:
+          "Retorna o histórico de alinhamento de um cliente, registrado a cada alteração da carteira ou das metas, e a tendência no período.",
+        tags: ["Planning & Alignment"],
+        params: clientIdParamsSchema,
+        querystring: alignmentHistoryQuerySchema,
+        response: {
+          200: alignmentHistoryResponseSchema,
+          401: returnMessageSchema,
+          403: returnMessageSchema,
+          404: returnMessageSchema,
+        },
+        security: [{ bearerAuth: [] }],
+      },
+    },
+    async (request, reply) => {
+      const { clientId } = clientIdParamsSchema.parse(request.params);
+      const { from, to, tolerance } = alignmentHistoryQuerySchema.parse(
+        request.query
+      );
+
+      const client = await prisma.client.findUnique({
+        where: { id: clientId },
+      });
+
+      if (!client) {
+        return reply.status(404).send({ message: "Cliente não encontrado." });
+      }
+
+      const defaultFrom = new Date();
+      defaultFrom.setUTCFullYear(defaultFrom.getUTCFullYear() - 1);
+
+      const snapshots = await prisma.alignmentSnapshot.findMany({
+        where: { clientId, recordedAt: { gte: from ?? defaultFrom, lte: to } },
+        orderBy: { recordedAt: "asc" },
+      });
+
+      const { trend, change } = calculateAlignmentTrend(snapshots, tolerance);
+
+      return reply.status(200).send({
+        trend,
+        change: change?.toFixed(2) ?? null,
+        tolerance,
+        points: snapshots.map((snapshot) => ({
+          recordedAt: snapshot.recordedAt,
+          alignmentPercentage: snapshot.alignmentPercentage.toFixed(2),
+          category: snapshot.category,
+        })),
+      });
+    }
+  );
 }
@@ -0,0 +1,52 @@
+import { FastifyInstance } from "fastify";
+import { clientIdParamsSchema } from "../schemas/client.schema";
+import { returnMessageSchema } from "../schemas/shared.schema";
+import {
+  loadClientReportData,
+  renderClientReport,
+} from "../services/report.service";
+
+export async function reportRoutes(app: FastifyInstance) {
+  app.get(
+    "/clients/:clientId/report.pdf",
+    {
+      onRequest: [
+        app.authenticate,
+        app.ensureOwnerOrAdvisor,
+        app.ensureAssignedAdvisor,
+      ],
+      schema: {
+        description:
+          "Gera o relatório em PDF de um cliente, com perfil, carteira, metas, movimentações, seguros, alinhamento e a projeção mais recente.",
+        tags: ["Reports"],
+        params: clientIdParamsSchema,
+        response: {
+          401: returnMessageSchema,
+          403: returnMessageSchema,
+          404: returnMessageSchema,
+        },
+        security: [{ bearerAuth: [] }],
+      },
+    },
+    async (request, reply) => {
+      const { clientId } = clientIdParamsSchema.parse(request.params);
+
+      const data = await loadClientReportData(clientId);
+
+      if (!data) {
+        return reply.status(404).send({ message: "Cliente não encontrado." });
+      }
+
+      const pdf = await renderClientReport(data);
+
+      return reply
+        .status(200)
+        .header("Content-Type", "application/pdf")
+        .header(
+          "Content-Disposition",
+          `attachment; filename="relatorio-${clientId}.pdf"`
+        )
+        .send(pdf);
+    }
+  );
+}
@@ -1,18 +1,62 @@
-import { FastifyInstance } from "fastify";
+import { FastifyInstance, FastifyReply, FastifyRequest } from "fastify";
+import { User } from "@prisma/client";
+import { z } from "zod";
 import { prisma } from "../lib/prisma";
+import { runWithoutTenant, setCurrentOrganization } from "../lib/tenant";
 import {
   createSessionSchema,
+  listActiveSessionsResponseSchema,
+  refreshSessionSchema,
+  sessionIdParamsSchema,
   sessionResponseSchema,
 } from "../schemas/session.schema";
 import bcrypt from "bcryptjs";
 import { returnMessageSchema } from "../schemas/shared.schema";
+import { ACCESS_TOKEN_EXPIRES_IN } from "../config/constants";
+import {
+  createSession,
+  listActiveSessions,
+  revokeSession,
+  revokeUserSessions,
+  rotateRefreshToken,
+  SessionError,
+} from "../services/session.service";
+
+function getSessionClient(request: FastifyRequest) {
+  return {
+    ipAddress: request.ip,
+    userAgent: request.headers["user-agent"],
+  };
+}
+
+function signAccessToken(
+  reply: FastifyReply,
+  user: Pick<User, "id" | "role" | "organizationId" | "clientId">,
+  sessionId: string
+) {
+  return reply.jwtSign(
+    {
+      role: user.role,
+      organizationId: user.organizationId,
+      clientId: user.clientId,
+      sid: sessionId,
+    },
+    {
+      sign: {
+        sub: user.id,
+        expiresIn: ACCESS_TOKEN_EXPIRES_IN,
+      },
+    }
+  );
+}
 
 export async function sessionRoutes(app: FastifyInstance) {
   app.post(
     "/sessions",
     {
       schema: {
-        description: "Autentica um usuário e retorna um token JWT.",
+        description:
+          "Autentica um usuário e retorna um token JWT de curta duração e um refresh token.",
         tags: ["Sessions"],
         body: createSessionSchema,
         response: { 200: sessionResponseSchema, 401: returnMessageSchema },
@@ -21,9 +65,11 @@ export async function sessionRoutes(app: FastifyInstance) {
     async (request, reply) => {
       const { email, password } = createSessionSchema.parse(request.body);
 
-      const user = await prisma.user.findUnique({
-        where: { email },
-      });
+      const user = await runWithoutTenant(() =>
+        prisma.user.findUnique({
+          where: { email },
+        })
+      );
 
       if (!user) {
         return reply.status(401).send({ message: "Credenciais inválidas." });
@@ -35,20 +81,149 @@ export async function sessionRoutes(app: FastifyInstance) {
         return reply.status(401).send({ message: "Credenciais inválidas." });
       }
 
-      const token = await reply.jwtSign(
-        {
-          role: user.role,
-          clientId: user.clientId,
-        },
-        {
-          sign: {
-            sub: user.id,
-            expiresIn: "7d",
-          },
-        }
+      setCurrentOrganization(user.organizationId);
+
+      const { session, refreshToken } = await createSession(
+        user.id,
+        getSessionClient(request)
+      );
+      const token = await signAccessToken(reply, user, session.id);
+
+      return reply.send({ token, refreshToken });
+    }
+  );
+
+  app.post(
+    "/sessions/refresh",
+    {
+      schema: {
+        description:
+          "Troca um refresh token por um novo token JWT e um novo refresh token. Reutilizar um refresh token já trocado encerra a sessão inteira.",
+        tags: ["Sessions"],
+        body: refreshSessionSchema,
+        response: { 200: sessionResponseSchema, 401: returnMessageSchema },
+      },
+    },
+    async (request, reply) => {
+      const { refreshToken: currentRefreshToken } = refreshSessionSchema.parse(
+        request.body
       );
 
-      return reply.send({ token });
+      try {
+        const { session, refreshToken } = await rotateRefreshToken(
+          currentRefreshToken,
+          getSessionClient(request)
+        );
+        const token = await signAccessToken(reply, session.user, session.id);
+
+        return reply.send({ token, refreshToken });
+      } catch (error) {
+        if (error instanceof SessionError) {
+          return reply.status(401).send({ message: error.message });
+        }
+        throw error;
+      }
+    }
+  );
+
+  app.delete(
+    "/sessions",
+    {
+      onRequest: [app.authenticate],
+      schema: {
+        description:
+          "Encerra a sessão atual (logout), revogando o token JWT e o refresh token.",
+        tags: ["Sessions"],
+        response: { 204: z.null(), 401: returnMessageSchema },
+        security: [{ bearerAuth: [] }],
+      },
+    },
+    async (request, reply) => {
+      await revokeSession(request.user.sid);
+
+      return reply.status(204).send();
+    }
+  );
+
+  app.get(
+    "/me/sessions",
+    {
+      onRequest: [app.authenticate],
+      schema: {
+        description:
+          "Lista as sessões ativas do usuário autenticado, indicando a sessão atual.",
+        tags: ["Sessions"],
+        response: {
+          200: listActiveSessionsResponseSchema,
+          401: returnMessageSchema,
+        },
+        security: [{ bearerAuth: [] }],
+      },
+    },
+    async (request, reply) => {
+      const sessions = await listActiveSessions(request.user.sub);
+
+      return reply.status(200).send({
+        sessions: sessions.map((session) => ({
+          id: session.id,
+          ipAddress: session.ipAddress,
+          userAgent: session.userAgent,
+          createdAt: session.createdAt,
+          lastUsedAt: session.lastUsedAt,
+          current: session.id === request.user.sid,
+        })),
+      });
+    }
+  );
+
+  app.delete(
+    "/me/sessions",
+    {
+      onRequest: [app.authenticate],
+      schema: {
+        description:
+          "Encerra todas as sessões do usuário autenticado (logout em todos os dispositivos), inclusive a atual.",
+        tags: ["Sessions"],
+        response: { 204: z.null(), 401: returnMessageSchema },
+        security: [{ bearerAuth: [] }],
+      },
+    },
+    async (request, reply) => {
+      await revokeUserSessions(request.user.sub);
+
+      return reply.status(204).send();
+    }
+  );
+
+  app.delete(
+    "/me/sessions/:sessionId",
+    {
+      onRequest: [app.authenticate],
+      schema: {
+        description: "Encerra uma sessão específica do usuário autenticado.",
+        tags: ["Sessions"],
+        params: sessionIdParamsSchema,
+        response: {
+          204: z.null(),
+          401: returnMessageSchema,
+          404: returnMessageSchema,
+        },
+        security: [{ bearerAuth: [] }],
+      },
+    },
+    async (request, reply) => {
+      const { sessionId } = sessionIdParamsSchema.parse(request.params);
+
+      const { count } = await prisma.session.updateMany({
+        where: { id: sessionId, userId: request.user.sub, revokedAt: null },
+        data: { revokedAt: new Date() },
+      });
+
+      if (count === 0) {
+        return reply.status(404).send({ message: "Sessão não encontrada." });
+      }
+
+      return reply.status(204).send();
     }
   );
 }
@@ -0,0 +1,105 @@
+import { FastifyInstance } from "fastify";
+import { z } from "zod";
+import { prisma } from "../lib/prisma";
+import {
+  alignmentSettingsResponseSchema,
+  updateAlignmentSettingsSchema,
+} from "../schemas/settings.schema";
+import { returnMessageSchema } from "../schemas/shared.schema";
+import {
+  DEFAULT_ALIGNMENT_BANDS,
+  formatAlignmentBand,
+} from "../services/alignment.service";
+
+export async function settingsRoutes(app: FastifyInstance) {
+  app.get(
+    "/settings/alignment",
+    {
+      onRequest: [app.authenticate],
+      schema: {
+        description:
+          "Retorna as faixas de alinhamento (categorias e percentuais mínimos) usadas no cálculo do alinhamento.",
+        tags: ["Settings"],
+        response: {
+          200: alignmentSettingsResponseSchema,
+          401: returnMessageSchema,
+        },
+        security: [{ bearerAuth: [] }],
+      },
+    },
+    async (_request, reply) => {
+      const bands = await prisma.alignmentBand.findMany({
+        orderBy: { minPercentage: "desc" },
+      });
+
+      return reply.status(200).send({
+        isDefault: bands.length === 0,
+        bands: (bands.length > 0 ? bands : DEFAULT_ALIGNMENT_BANDS).map(
+          formatAlignmentBand
+        ),
+      });
+    }
+  );
+
+  app.put(
+    "/settings/alignment",
+    {
+      onRequest: [app.authenticate, app.ensureOrgAdmin],
+      schema: {
+        description:
+          "Substitui as faixas de alinhamento da organização. Permite alterar os percentuais mínimos e definir categorias adicionais. Restrito a ORG_ADMIN.",
+        tags: ["Settings"],
+        body: updateAlignmentSettingsSchema,
+        response: {
+          200: alignmentSettingsResponseSchema,
+          400: returnMessageSchema,
+          401: returnMessageSchema,
+          403: returnMessageSchema,
+        },
+        security: [{ bearerAuth: [] }],
+      },
+    },
+    async (request, reply) => {
+      const { bands } = updateAlignmentSettingsSchema.parse(request.body);
+
+      const [, , savedBands] = await prisma.$transaction([
+        prisma.alignmentBand.deleteMany(),
+        prisma.alignmentBand.createMany({
+          data: bands.map((band) => ({
+            ...band,
+            organizationId: request.user.organizationId,
+          })),
+        }),
+        prisma.alignmentBand.findMany({ orderBy: { minPercentage: "desc" } }),
+      ]);
+
+      return reply.status(200).send({
+        isDefault: false,
+        bands: savedBands.map(formatAlignmentBand),
+      });
+    }
+  );
+
+  app.delete(
+    "/settings/alignment",
+    {
+      onRequest: [app.authenticate, app.ensureOrgAdmin],
+      schema: {
+        description:
+          "Remove as faixas de alinhamento personalizadas da organização, restaurando as faixas padrão. Restrito a ORG_ADMIN.",
+        tags: ["Settings"],
+        response: {
+          204: z.null(),
+          401: returnMessageSchema,
+          403: returnMessageSchema,
+        },
+        security: [{ bearerAuth: [] }],
+      },
+    },
+    async (_request, reply) => {
+      await prisma.alignmentBand.deleteMany();
+
+      return reply.status(204).send();
+    }
+  );
+}
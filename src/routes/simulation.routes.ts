@@ -1,25 +1,64 @@
-import { FastifyInstance } from "fastify";
+import { FastifyInstance, FastifyReply } from "fastify";
 import { clientIdParamsSchema } from "../schemas/client.schema";
 import {
+  compareProjectionsResponseSchema,
+  compareProjectionsSchema,
+  compareSimulationsParamsSchema,
+  compareSimulationsResponseSchema,
+  createGoalProjectionSchema,
+  createMonteCarloProjectionSchema,
   createProjectionSchema,
+  createRetirementProjectionSchema,
   createSimulationSchema,
+  goalProjectionResponseSchema,
+  monteCarloResponseSchema,
   paginatedSimulationsResponseSchema,
   projectionResponseSchema,
+  retirementProjectionResponseSchema,
   simulationIdParamsSchema,
   simulationResponseSchema,
+  simulationRerunResponseSchema,
+  simulationTrackingQuerySchema,
+  simulationTrackingResponseSchema,
+  solveProjectionResponseSchema,
+  solveProjectionSchema,
 } from "../schemas/simulation.schema";
 import {
+  ExportFormat,
+  exportFormatQuerySchema,
   paginationQuerySchema,
   returnMessageSchema,
 } from "../schemas/shared.schema";
 import {
   ProjectionError,
+  compareProjectionScenariosForClient,
+  generateGoalProjectionForClient,
+  generateMonteCarloProjectionForClient,
   generateProjectionForClient,
+  generateRetirementProjectionForClient,
 } from "../services/projection.service";
+import { solveProjectionForClient } from "../services/solver.service";
+import {
+  SimulationError,
+  buildSimulationForClient,
+  compareSimulations,
+  rerunSimulation,
+  trackSimulationAgainstActuals,
+} from "../services/simulation.service";
+import {
+  buildProjectionExport,
+  EXPORT_CONTENT_TYPES,
+  generateProjectionCsv,
+  generateProjectionWorkbook,
+  resolveExportFormat,
+} from "../services/export.service";
 import { Prisma, Simulation } from "@prisma/client";
+import { Decimal } from "@prisma/client/runtime/library";
+import { Readable } from "node:stream";
 import { paginate } from "../utils/pagination";
 import { prisma } from "../lib/prisma";
 import z from "zod";
+import { canAccessClient } from "../services/client.service";
 
 const simulationPublicSelect = {
   id: true,
@@ -27,19 +66,48 @@ const simulationPublicSelect = {
   projection: true,
   rate: true,
   endYear: true,
+  inputs: true,
+  engineVersion: true,
   clientId: true,
 } as const;
 
+async function sendProjectionExport(
+  reply: FastifyReply,
+  format: Exclude<ExportFormat, "json">,
+  fileName: string,
+  simulation: Parameters<typeof buildProjectionExport>[0]
+) {
+  const data = buildProjectionExport(simulation);
+
+  reply
+    .header("Content-Type", EXPORT_CONTENT_TYPES[format])
+    .header(
+      "Content-Disposition",
+      `attachment; filename="${fileName}.${format}"`
+    );
+
+  if (format === "csv") {
+    return reply.send(Readable.from(generateProjectionCsv(data)));
+  }
+
+  return reply.send(await generateProjectionWorkbook(data));
+}
+
 export async function simulationRoutes(app: FastifyInstance) {
   app.post(
     "/clients/:clientId/projections",
     {
-      onRequest: [app.authenticate, app.ensureOwnerOrAdvisor],
+      onRequest: [
+        app.authenticate,
+        app.ensureOwnerOrAdvisor,
+        app.ensureAssignedAdvisor,
+      ],
       schema: {
         description:
-          "Gera uma projeção de evolução patrimonial para um cliente.",
+          "Gera uma projeção de evolução patrimonial para um cliente. Também pode ser exportada em CSV ou XLSX via `format` ou cabeçalho `Accept`.",
         tags: ["Simulations & Projections"],
         params: clientIdParamsSchema,
+        querystring: exportFormatQuerySchema,
         body: createProjectionSchema,
         response: {
           200: projectionResponseSchema,
@@ -52,17 +120,40 @@ export async function simulationRoutes(app: FastifyInstance) {
     },
     async (request, reply) => {
       const { clientId } = clientIdParamsSchema.parse(request.params);
-      const { annualRate } = createProjectionSchema.parse(request.body);
+      const { annualRate, ...parameters } = createProjectionSchema.parse(
+        request.body
+      );
+      const format = resolveExportFormat(
+        exportFormatQuerySchema.parse(request.query).format,
+        request.headers.accept
+      );
 
       try {
+        if (format !== "json") {
+          const simulation = await buildSimulationForClient(
+            clientId,
+            annualRate,
+            parameters
+          );
+
+          return sendProjectionExport(reply, format, `projection-${clientId}`, {
+            ...simulation,
+            rate: Decimal(simulation.rate),
+          });
+        }
+
         const projectionData = await generateProjectionForClient(
           clientId,
-          annualRate
+          annualRate,
+          parameters
         );
 
         const formattedResponse = projectionData.map((point) => ({
           year: point.year,
           projectedValue: point.projectedValue.toFixed(2),
+          realValue: point.realValue.toFixed(2),
+          postTaxValue: point.postTaxValue.toFixed(2),
+          postTaxRealValue: point.postTaxRealValue.toFixed(2),
         }));
 
         return reply.send(formattedResponse);
@@ -75,10 +166,287 @@ export async function simulationRoutes(app: FastifyInstance) {
     }
   );
 
+  app.post(
+    "/clients/:clientId/projections/goals",
+    {
+      onRequest: [
+        app.authenticate,
+        app.ensureOwnerOrAdvisor,
+        app.ensureAssignedAdvisor,
+      ],
+      schema: {
+        description:
+          "Gera uma projeção patrimonial indicando quando cada meta é atingida ou não.",
+        tags: ["Simulations & Projections"],
+        params: clientIdParamsSchema,
+        body: createGoalProjectionSchema,
+        response: {
+          200: goalProjectionResponseSchema,
+          400: returnMessageSchema,
+          401: returnMessageSchema,
+          403: returnMessageSchema,
+        },
+        security: [{ bearerAuth: [] }],
+      },
+    },
+    async (request, reply) => {
+      const { clientId } = clientIdParamsSchema.parse(request.params);
+      const { annualRate, ...parameters } = createGoalProjectionSchema.parse(
+        request.body
+      );
+
+      try {
+        const result = await generateGoalProjectionForClient(
+          clientId,
+          annualRate,
+          parameters
+        );
+
+        return reply.send({
+          projection: result.projection.map((point) => ({
+            year: point.year,
+            projectedValue: point.projectedValue.toFixed(2),
+            realValue: point.realValue.toFixed(2),
+          })),
+          goals: result.goals.map((goal) => ({
+            ...goal,
+            targetValue: goal.targetValue.toString(),
+            shortfall: goal.shortfall?.toFixed(2) ?? null,
+          })),
+        });
+      } catch (error) {
+        if (error instanceof ProjectionError) {
+          return reply.status(400).send({ message: error.message });
+        }
+        throw error;
+      }
+    }
+  );
+
+  app.post(
+    "/clients/:clientId/projections/retirement",
+    {
+      onRequest: [
+        app.authenticate,
+        app.ensureOwnerOrAdvisor,
+        app.ensureAssignedAdvisor,
+      ],
+      schema: {
+        description:
+          "Gera uma projeção com fase de aposentadoria e estratégia de resgates, indicando quando o patrimônio se esgota.",
+        tags: ["Simulations & Projections"],
+        params: clientIdParamsSchema,
+        body: createRetirementProjectionSchema,
+        response: {
+          200: retirementProjectionResponseSchema,
+          400: returnMessageSchema,
+          401: returnMessageSchema,
+          403: returnMessageSchema,
+        },
+        security: [{ bearerAuth: [] }],
+      },
+    },
+    async (request, reply) => {
+      const { clientId } = clientIdParamsSchema.parse(request.params);
+      const { annualRate, ...parameters } =
+        createRetirementProjectionSchema.parse(request.body);
+
+      try {
+        const result = await generateRetirementProjectionForClient(
+          clientId,
+          annualRate,
+          parameters
+        );
+
+        return reply.send({
+          ...result,
+          maxSustainableMonthlyIncome:
+            result.maxSustainableMonthlyIncome?.toFixed(2) ?? null,
+          projection: result.projection.map((point) => ({
+            year: point.year,
+            projectedValue: point.projectedValue.toFixed(2),
+            realValue: point.realValue.toFixed(2),
+            withdrawal: point.withdrawal.toFixed(2),
+          })),
+        });
+      } catch (error) {
+        if (error instanceof ProjectionError) {
+          return reply.status(400).send({ message: error.message });
+        }
+        throw error;
+      }
+    }
+  );
+
+  app.post(
+    "/clients/:clientId/projections/solve",
+    {
+      onRequest: [
+        app.authenticate,
+        app.ensureOwnerOrAdvisor,
+        app.ensureAssignedAdvisor,
+      ],
+      schema: {
+        description:
+          "Calcula o aporte mensal, a taxa anual ou a data de aposentadoria necessários para atingir um valor-alvo.",
+        tags: ["Simulations & Projections"],
+        params: clientIdParamsSchema,
+        body: solveProjectionSchema,
+        response: {
+          200: solveProjectionResponseSchema,
+          400: returnMessageSchema,
+          401: returnMessageSchema,
+          403: returnMessageSchema,
+        },
+        security: [{ bearerAuth: [] }],
+      },
+    },
+    async (request, reply) => {
+      const { clientId } = clientIdParamsSchema.parse(request.params);
+      const parameters = solveProjectionSchema.parse(request.body);
+
+      try {
+        const result = await solveProjectionForClient(clientId, parameters);
+
+        return reply.send({
+          ...result,
+          targetValue: result.targetValue.toString(),
+          monthlyContribution: result.monthlyContribution.toFixed(2),
+          projection: result.projection.map((point) => ({
+            year: point.year,
+            projectedValue: point.projectedValue.toFixed(2),
+            realValue: point.realValue.toFixed(2),
+          })),
+        });
+      } catch (error) {
+        if (error instanceof ProjectionError) {
+          return reply.status(400).send({ message: error.message });
+        }
+        throw error;
+      }
+    }
+  );
+
+  app.post(
+    "/clients/:clientId/projections/compare",
+    {
+      onRequest: [
+        app.authenticate,
+        app.ensureOwnerOrAdvisor,
+        app.ensureAssignedAdvisor,
+      ],
+      schema: {
+        description:
+          "Compara projeções de vários cenários hipotéticos, com as diferenças em relação a um cenário base.",
+        tags: ["Simulations & Projections"],
+        params: clientIdParamsSchema,
+        body: compareProjectionsSchema,
+        response: {
+          200: compareProjectionsResponseSchema,
+          400: returnMessageSchema,
+          401: returnMessageSchema,
+          403: returnMessageSchema,
+        },
+        security: [{ bearerAuth: [] }],
+      },
+    },
+    async (request, reply) => {
+      const { clientId } = clientIdParamsSchema.parse(request.params);
+      const parameters = compareProjectionsSchema.parse(request.body);
+
+      try {
+        const result = await compareProjectionScenariosForClient(
+          clientId,
+          parameters
+        );
+
+        return reply.send({
+          baseline: result.baseline,
+          scenarios: result.scenarios.map((scenario) => ({
+            name: scenario.name,
+            annualRate: scenario.annualRate,
+            initialValue: scenario.initialValue.toFixed(2),
+            projection: scenario.projection.map((point) => ({
+              year: point.year,
+              projectedValue: point.projectedValue.toFixed(2),
+              realValue: point.realValue.toFixed(2),
+              deltaFromBaseline: point.deltaFromBaseline.toFixed(2),
+              realDeltaFromBaseline: point.realDeltaFromBaseline.toFixed(2),
+            })),
+          })),
+        });
+      } catch (error) {
+        if (error instanceof ProjectionError) {
+          return reply.status(400).send({ message: error.message });
+        }
+        throw error;
+      }
+    }
+  );
+
+  app.post(
+    "/clients/:clientId/projections/monte-carlo",
+    {
+      onRequest: [
+        app.authenticate,
+        app.ensureOwnerOrAdvisor,
+        app.ensureAssignedAdvisor,
+      ],
+      schema: {
+        description:
+          "Gera uma projeção estocástica (Monte Carlo) com faixas de percentis e probabilidades de sucesso.",
+        tags: ["Simulations & Projections"],
+        params: clientIdParamsSchema,
+        body: createMonteCarloProjectionSchema,
+        response: {
+          200: monteCarloResponseSchema,
+          400: returnMessageSchema,
+          401: returnMessageSchema,
+          403: returnMessageSchema,
+        },
+        security: [{ bearerAuth: [] }],
+      },
+    },
+    async (request, reply) => {
+      const { clientId } = clientIdParamsSchema.parse(request.params);
+      const parameters = createMonteCarloProjectionSchema.parse(request.body);
+
+      try {
+        const result = await generateMonteCarloProjectionForClient(
+          clientId,
+          parameters
+        );
+
+        return reply.send({
+          ...result,
+          percentiles: result.percentiles.map((point) => ({
+            year: point.year,
+            p10: point.p10.toFixed(2),
+            p50: point.p50.toFixed(2),
+            p90: point.p90.toFixed(2),
+          })),
+          goals: result.goals.map((goal) => ({
+            ...goal,
+            targetValue: goal.targetValue.toString(),
+          })),
+        });
+      } catch (error) {
+        if (error instanceof ProjectionError) {
+          return reply.status(400).send({ message: error.message });
+        }
+        throw error;
+      }
+    }
+  );
+
   app.get(
     "/clients/:clientId/simulations",
     {
-      onRequest: [app.authenticate, app.ensureOwnerOrAdvisor],
+      onRequest: [
+        app.authenticate,
+        app.ensureOwnerOrAdvisor,
+        app.ensureAssignedAdvisor,
+      ],
       schema: {
         description: "Lista o histórico de simulações salvas de um cliente.",
         tags: ["Simulations & Projections"],
@@ -97,7 +465,7 @@ export async function simulationRoutes(app: FastifyInstance) {
       const { page, pageSize } = paginationQuerySchema.parse(request.query);
 
       const result = await paginate<
-        Prisma.SimulationDelegate,
+        typeof prisma.simulation,
         Prisma.SimulationFindManyArgs,
         Simulation
       >(
@@ -127,9 +495,11 @@ export async function simulationRoutes(app: FastifyInstance) {
     {
       onRequest: [app.authenticate],
       schema: {
-        description: "Obtém os dados de uma simulação salva específica.",
+        description:
+          "Obtém os dados de uma simulação salva específica. Também pode ser exportada em CSV ou XLSX via `format` ou cabeçalho `Accept`.",
         tags: ["Simulations & Projections"],
         params: simulationIdParamsSchema,
+        querystring: exportFormatQuerySchema,
         response: {
           200: simulationResponseSchema,
           401: returnMessageSchema,
@@ -152,10 +522,24 @@ export async function simulationRoutes(app: FastifyInstance) {
         return reply.status(404).send({ message: "Simulação não encontrada." });
       }
 
-      if (user.role !== "ADVISOR" && user.clientId !== simulation.clientId) {
+      if (!(await canAccessClient(user, simulation.clientId))) {
         return reply.status(403).send({ message: "Acesso negado." });
       }
 
+      const format = resolveExportFormat(
+        exportFormatQuerySchema.parse(request.query).format,
+        request.headers.accept
+      );
+
+      if (format !== "json") {
+        return sendProjectionExport(
+          reply,
+          format,
+          `simulation-${simulation.id}`,
+          simulation
+        );
+      }
+
       return reply
         .status(200)
         .send({ ...simulation, rate: simulation.rate.toString() });
@@ -165,15 +549,20 @@ export async function simulationRoutes(app: FastifyInstance) {
   app.post(
     "/clients/:clientId/simulations",
     {
-      onRequest: [app.authenticate, app.ensureOwnerOrAdvisor],
+      onRequest: [
+        app.authenticate,
+        app.ensureOwnerOrAdvisor,
+        app.ensureAssignedAdvisor,
+      ],
       schema: {
         description:
-          "Salva o resultado de uma projeção no histórico de um cliente.",
+          "Calcula uma projeção e a salva no histórico de um cliente, junto com as premissas de entrada.",
         tags: ["Simulations & Projections"],
         params: clientIdParamsSchema,
         body: createSimulationSchema,
         response: {
           201: simulationResponseSchema,
+          400: returnMessageSchema,
           401: returnMessageSchema,
           403: returnMessageSchema,
           404: returnMessageSchema,
@@ -183,7 +572,7 @@ export async function simulationRoutes(app: FastifyInstance) {
     },
     async (request, reply) => {
       const { clientId } = clientIdParamsSchema.parse(request.params);
-      const { projectionData, rate } = createSimulationSchema.parse(
+      const { annualRate, ...parameters } = createSimulationSchema.parse(
         request.body
       );
 
@@ -194,19 +583,218 @@ export async function simulationRoutes(app: FastifyInstance) {
         return reply.status(404).send({ message: "Cliente não encontrado." });
       }
 
-      const simulation = await prisma.simulation.create({
-        data: {
+      try {
+        const snapshot = await buildSimulationForClient(
           clientId,
-          projection: projectionData,
-          rate,
-          endYear: 2060,
+          annualRate,
+          parameters
+        );
+
+        const simulation = await prisma.simulation.create({
+          data: { clientId, ...snapshot },
+          select: simulationPublicSelect,
+        });
+
+        return reply
+          .status(201)
+          .send({ ...simulation, rate: simulation.rate.toString() });
+      } catch (error) {
+        if (error instanceof ProjectionError) {
+          return reply.status(400).send({ message: error.message });
+        }
+        throw error;
+      }
+    }
+  );
+
+  app.post(
+    "/simulations/:simulationId/rerun",
+    {
+      onRequest: [app.authenticate],
+      schema: {
+        description:
+          "Reexecuta uma simulação salva com as mesmas premissas na versão atual do motor e informa as diferenças.",
+        tags: ["Simulations & Projections"],
+        params: simulationIdParamsSchema,
+        response: {
+          200: simulationRerunResponseSchema,
+          400: returnMessageSchema,
+          401: returnMessageSchema,
+          403: returnMessageSchema,
+          404: returnMessageSchema,
         },
+        security: [{ bearerAuth: [] }],
+      },
+    },
+    async (request, reply) => {
+      const { simulationId } = simulationIdParamsSchema.parse(request.params);
+      const user = request.user;
+
+      const simulation = await prisma.simulation.findUnique({
+        where: { id: simulationId },
         select: simulationPublicSelect,
       });
 
-      return reply
-        .status(201)
-        .send({ ...simulation, rate: simulation.rate.toString() });
+      if (!simulation) {
+        return reply.status(404).send({ message: "Simulação não encontrada." });
+      }
+
+      if (!(await canAccessClient(user, simulation.clientId))) {
+        return reply.status(403).send({ message: "Acesso negado." });
+      }
+
+      try {
+        const result = rerunSimulation(simulation);
+
+        return reply.send({
+          ...result,
+          maxAbsoluteDrift: result.maxAbsoluteDrift.toFixed(2),
+          projection: result.projection.map((point) => ({
+            year: point.year,
+            savedValue: point.savedValue?.toFixed(2) ?? null,
+            currentValue: point.currentValue.toFixed(2),
+            drift: point.drift?.toFixed(2) ?? null,
+          })),
+        });
+      } catch (error) {
+        if (error instanceof SimulationError) {
+          return reply.status(400).send({ message: error.message });
+        }
+        throw error;
+      }
+    }
+  );
+
+  app.get(
+    "/simulations/:simulationId/compare/:otherSimulationId",
+    {
+      onRequest: [app.authenticate],
+      schema: {
+        description:
+          "Compara duas simulações salvas do mesmo cliente ano a ano e lista as premissas alteradas entre elas.",
+        tags: ["Simulations & Projections"],
+        params: compareSimulationsParamsSchema,
+        response: {
+          200: compareSimulationsResponseSchema,
+          400: returnMessageSchema,
+          401: returnMessageSchema,
+          403: returnMessageSchema,
+          404: returnMessageSchema,
+        },
+        security: [{ bearerAuth: [] }],
+      },
+    },
+    async (request, reply) => {
+      const { simulationId, otherSimulationId } =
+        compareSimulationsParamsSchema.parse(request.params);
+      const user = request.user;
+
+      const [simulation, otherSimulation] = await Promise.all([
+        prisma.simulation.findUnique({
+          where: { id: simulationId },
+          select: simulationPublicSelect,
+        }),
+        prisma.simulation.findUnique({
+          where: { id: otherSimulationId },
+          select: simulationPublicSelect,
+        }),
+      ]);
+
+      if (!simulation || !otherSimulation) {
+        return reply.status(404).send({ message: "Simulação não encontrada." });
+      }
+
+      if (
+        !(await canAccessClient(user, simulation.clientId)) ||
+        !(await canAccessClient(user, otherSimulation.clientId))
+      ) {
+        return reply.status(403).send({ message: "Acesso negado." });
+      }
+
+      if (simulation.clientId !== otherSimulation.clientId) {
+        return reply.status(400).send({
+          message: "As simulações devem pertencer ao mesmo cliente.",
+        });
+      }
+
+      const result = compareSimulations(simulation, otherSimulation);
+
+      return reply.send({
+        ...result,
+        rateChange: result.rateChange && {
+          from: result.rateChange.from.toString(),
+          to: result.rateChange.to.toString(),
+        },
+        projection: result.projection.map((point) => ({
+          year: point.year,
+          value: point.value?.toFixed(2) ?? null,
+          otherValue: point.otherValue?.toFixed(2) ?? null,
+          delta: point.delta?.toFixed(2) ?? null,
+        })),
+      });
+    }
+  );
+
+  app.get(
+    "/simulations/:simulationId/tracking",
+    {
+      onRequest: [app.authenticate],
+      schema: {
+        description:
+          "Compara o histórico real da carteira com a trajetória planejada de uma simulação salva (planejado vs. realizado).",
+        tags: ["Simulations & Projections"],
+        params: simulationIdParamsSchema,
+        querystring: simulationTrackingQuerySchema,
+        response: {
+          200: simulationTrackingResponseSchema,
+          401: returnMessageSchema,
+          403: returnMessageSchema,
+          404: returnMessageSchema,
+        },
+        security: [{ bearerAuth: [] }],
+      },
+    },
+    async (request, reply) => {
+      const { simulationId } = simulationIdParamsSchema.parse(request.params);
+      const { tolerance } = simulationTrackingQuerySchema.parse(request.query);
+      const user = request.user;
+
+      const simulation = await prisma.simulation.findUnique({
+        where: { id: simulationId },
+        select: simulationPublicSelect,
+      });
+
+      if (!simulation) {
+        return reply.status(404).send({ message: "Simulação não encontrada." });
+      }
+
+      if (!(await canAccessClient(user, simulation.clientId))) {
+        return reply.status(403).send({ message: "Acesso negado." });
+      }
+
+      const snapshots = await prisma.walletSnapshot.findMany({
+        where: { clientId: simulation.clientId },
+        select: { totalValue: true, recordedAt: true },
+        orderBy: { recordedAt: "asc" },
+      });
+
+      const result = trackSimulationAgainstActuals(
+        simulation,
+        snapshots,
+        tolerance
+      );
+
+      return reply.send({
+        ...result,
+        trackingError: result.trackingError?.toFixed(2) ?? null,
+        points: result.points.map((point) => ({
+          date: point.date,
+          actualValue: point.actualValue.toFixed(2),
+          plannedValue: point.plannedValue.toFixed(2),
+          deviation: point.deviation.toFixed(2),
+          deviationPercent: point.deviationPercent?.toFixed(2) ?? null,
+        })),
+      });
     }
   );
 
@@ -240,7 +828,7 @@ export async function simulationRoutes(app: FastifyInstance) {
         return reply.status(404).send({ message: "Simulação não encontrada." });
       }
 
-      if (user.role !== "ADVISOR" && user.clientId !== simulation.clientId) {
+      if (!(await canAccessClient(user, simulation.clientId))) {
         return reply.status(403).send({
           message:
             "Acesso negado. Você não tem permissão para deletar esta simulação.",
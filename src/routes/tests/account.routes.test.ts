@@ -0,0 +1,221 @@
+import request from "supertest";
+import { app } from "../../server";
+import { prisma } from "../../lib/prisma";
+import { sentMessages } from "../../lib/mailer";
+import { waitForBackgroundTasks } from "../../lib/background";
+import { createTestUser, TEST_EMAIL_SUFFIX } from "./factories/user-factory";
+import { loginAndGetToken } from "./utils/auth-helper";
+
+async function requestPasswordReset(email: string) {
+  const response = await request(app.server)
+    .post("/password-resets")
+    .send({ email });
+  await waitForBackgroundTasks();
+
+  return response;
+}
+
+function getLastTokenSentTo(email: string) {
+  const message = sentMessages.filter((sent) => sent.to === email).at(-1);
+  return message?.text.match(/^[\w-]{43}$/m)?.[0];
+}
+
+describe("Account Routes (password reset and email verification)", () => {
+  beforeAll(async () => {
+    await app.ready();
+  });
+
+  afterEach(async () => {
+    sentMessages.length = 0;
+    await prisma.user.deleteMany({
+      where: {
+        email: {
+          endsWith: TEST_EMAIL_SUFFIX,
+        },
+      },
+    });
+    await prisma.client.deleteMany({
+      where: {
+        email: {
+          endsWith: TEST_EMAIL_SUFFIX,
+        },
+      },
+    });
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  describe("POST /password-resets", () => {
+    it("should send a reset code and let the user choose a new password", async () => {
+      const { user, plainPassword } = await createTestUser({ role: "VIEWER" });
+      const oldToken = await loginAndGetToken(user.email, plainPassword);
+
+      const response = await requestPasswordReset(user.email);
+
+      expect(response.status).toBe(202);
+
+      const resetToken = getLastTokenSentTo(user.email);
+      expect(resetToken).toBeDefined();
+
+      const confirmResponse = await request(app.server)
+        .post(`/password-resets/${resetToken}/confirm`)
+        .send({ password: "brand_new_password" });
+
+      expect(confirmResponse.status).toBe(204);
+
+      const loginResponse = await request(app.server)
+        .post("/sessions")
+        .send({ email: user.email, password: "brand_new_password" });
+      expect(loginResponse.status).toBe(200);
+
+      const meResponse = await request(app.server)
+        .get("/me")
+        .set("Authorization", `Bearer ${oldToken}`);
+      expect(meResponse.status).toBe(401);
+    });
+
+    it("should not accept a reset code twice", async () => {
+      const { user } = await createTestUser({ role: "VIEWER" });
+      await requestPasswordReset(user.email);
+      const resetToken = getLastTokenSentTo(user.email);
+
+      await request(app.server)
+        .post(`/password-resets/${resetToken}/confirm`)
+        .send({ password: "brand_new_password" });
+
+      const response = await request(app.server)
+        .post(`/password-resets/${resetToken}/confirm`)
+        .send({ password: "another_password" });
+
+      expect(response.status).toBe(400);
+    });
+
+    it("should invalidate the previous code when a new one is requested", async () => {
+      const { user } = await createTestUser({ role: "VIEWER" });
+      await requestPasswordReset(user.email);
+      const firstToken = getLastTokenSentTo(user.email);
+
+      await requestPasswordReset(user.email);
+
+      const response = await request(app.server)
+        .post(`/password-resets/${firstToken}/confirm`)
+        .send({ password: "brand_new_password" });
+
+      expect(response.status).toBe(400);
+    });
+
+    it("should answer the same way for unknown emails without sending mail", async () => {
+      const response = await requestPasswordReset(
+        `unknown.${Date.now()}${TEST_EMAIL_SUFFIX}`
+      );
+
+      expect(response.status).toBe(202);
+      expect(sentMessages).toHaveLength(0);
+    });
+
+    it("should throttle repeated requests for the same email", async () => {
+      const { user } = await createTestUser({ role: "VIEWER" });
+
+      for (let attempt = 0; attempt < 3; attempt++) {
+        await requestPasswordReset(user.email);
+      }
+      const response = await requestPasswordReset(user.email);
+
+      expect(response.status).toBe(429);
+      expect(
+        sentMessages.filter((sent) => sent.to === user.email)
+      ).toHaveLength(3);
+    });
+  });
+
+  describe("Email verification", () => {
+    it("should send a verification code to newly created users", async () => {
+      const { user: admin, plainPassword } = await createTestUser({
+        role: "ORG_ADMIN",
+      });
+      const adminToken = await loginAndGetToken(admin.email, plainPassword);
+      const email = `new-user.${Date.now()}${TEST_EMAIL_SUFFIX}`;
+
+      const createResponse = await request(app.server)
+        .post("/users")
+        .set("Authorization", `Bearer ${adminToken}`)
+        .send({ email, password: "password123456", role: "ADVISOR" });
+
+      expect(createResponse.status).toBe(201);
+      expect(createResponse.body.emailVerifiedAt).toBeNull();
+
+      const verificationToken = getLastTokenSentTo(email);
+      const response = await request(app.server).post(
+        `/email-verifications/${verificationToken}/confirm`
+      );
+
+      expect(response.status).toBe(204);
+
+      const user = await prisma.user.findUnique({ where: { email } });
+      expect(user?.emailVerifiedAt).not.toBeNull();
+    });
+
+    it("should require a new confirmation when the email changes", async () => {
+      const { user: admin, plainPassword } = await createTestUser({
+        role: "ORG_ADMIN",
+      });
+      const adminToken = await loginAndGetToken(admin.email, plainPassword);
+      const { user } = await createTestUser({ role: "VIEWER" });
+      await prisma.user.update({
+        where: { id: user.id },
+        data: { emailVerifiedAt: new Date() },
+      });
+      const email = `changed.${Date.now()}${TEST_EMAIL_SUFFIX}`;
+
+      const response = await request(app.server)
+        .put(`/users/${user.id}`)
+        .set("Authorization", `Bearer ${adminToken}`)
+        .send({ email });
+
+      expect(response.status).toBe(200);
+      expect(response.body.emailVerifiedAt).toBeNull();
+
+      const confirmResponse = await request(app.server).post(
+        `/email-verifications/${getLastTokenSentTo(email)}/confirm`
+      );
+
+      expect(confirmResponse.status).toBe(204);
+    });
+
+    it("should not accept a password reset code as a verification code", async () => {
+      const { user } = await createTestUser({ role: "VIEWER" });
+      await requestPasswordReset(user.email);
+      const resetToken = getLastTokenSentTo(user.email);
+
+      const response = await request(app.server).post(
+        `/email-verifications/${resetToken}/confirm`
+      );
+
+      expect(response.status).toBe(400);
+    });
+
+    it("should resend the verification code to the authenticated user", async () => {
+      const { user, plainPassword } = await createTestUser({ role: "VIEWER" });
+      const token = await loginAndGetToken(user.email, plainPassword);
+
+      const response = await request(app.server)
+        .post("/me/email-verification")
+        .set("Authorization", `Bearer ${token}`);
+
+      expect(response.status).toBe(202);
+      expect(getLastTokenSentTo(user.email)).toBeDefined();
+
+      await request(app.server).post(
+        `/email-verifications/${getLastTokenSentTo(user.email)}/confirm`
+      );
+
+      const secondResponse = await request(app.server)
+        .post("/me/email-verification")
+        .set("Authorization", `Bearer ${token}`);
+
+      expect(secondResponse.status).toBe(409);
+    });
+  });
+});
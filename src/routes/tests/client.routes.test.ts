@@ -9,8 +9,14 @@ import {
   createTestGoal,
   TEST_GOAL_DESCRIPTION_SUFFIX,
 } from "./factories/goal-factory";
+import {
+  createTestOrganization,
+  TEST_ORGANIZATION_ID,
+  TEST_ORGANIZATION_NAME_SUFFIX,
+} from "./factories/organization-factory";
 
 describe("Client Routes (CRUD)", () => {
+  let advisorId: string;
   let advisorToken: string;
 
   beforeAll(async () => {
@@ -21,6 +27,7 @@ describe("Client Routes (CRUD)", () => {
     const { user: advisor, plainPassword } = await createTestUser({
       role: "ADVISOR",
     });
+    advisorId = advisor.id;
     advisorToken = await loginAndGetToken(advisor.email, plainPassword);
   });
 
@@ -39,20 +46,26 @@ describe("Client Routes (CRUD)", () => {
         },
       },
     });
-    await prisma.user.deleteMany({
+    await prisma.client.deleteMany({
       where: {
         email: {
           endsWith: TEST_EMAIL_SUFFIX,
         },
       },
     });
-    await prisma.client.deleteMany({
+    await prisma.user.deleteMany({
       where: {
         email: {
           endsWith: TEST_EMAIL_SUFFIX,
         },
       },
     });
+    await prisma.organization.deleteMany({
+      where: {
+        id: { not: TEST_ORGANIZATION_ID },
+        name: { endsWith: TEST_ORGANIZATION_NAME_SUFFIX },
+      },
+    });
   });
 
   afterAll(async () => {
@@ -115,8 +128,8 @@ describe("Client Routes (CRUD)", () => {
 
   describe("GET /clients", () => {
     it("should allow an ADVISOR to list clients with pagination", async () => {
-      await createTestClient();
-      await createTestClient();
+      await createTestClient({ advisorId });
+      await createTestClient({ advisorId });
 
       const response = await request(app.server)
         .get("/clients?page=1&pageSize=5")
@@ -143,7 +156,7 @@ describe("Client Routes (CRUD)", () => {
 
   describe("GET /clients/:clientId", () => {
     it("should allow an ADVISOR to get a specific client by ID", async () => {
-      const client = await createTestClient();
+      const client = await createTestClient({ advisorId });
 
       const response = await request(app.server)
         .get(`/clients/${client.id}`)
@@ -167,7 +180,7 @@ describe("Client Routes (CRUD)", () => {
     });
 
     it("should return 403 if a VIEWER tries to get a client by ID", async () => {
-      const client = await createTestClient();
+      const client = await createTestClient({ advisorId });
       const { user, plainPassword } = await createTestUser({
         role: "VIEWER",
       });
@@ -184,7 +197,7 @@ describe("Client Routes (CRUD)", () => {
 
   describe("PUT /clients/:clientId", () => {
     it("should allow an ADVISOR to update a client's data", async () => {
-      const client = await createTestClient();
+      const client = await createTestClient({ advisorId });
       const updatePayload = { name: "Nome Atualizado", isActive: false };
 
       const response = await request(app.server)
@@ -200,7 +213,7 @@ describe("Client Routes (CRUD)", () => {
     });
 
     it("should return 403 if a VIEWER tries to update a client", async () => {
-      const client = await createTestClient();
+      const client = await createTestClient({ advisorId });
       const { user, plainPassword } = await createTestUser({
         role: "VIEWER",
       });
@@ -227,7 +240,10 @@ describe("Client Routes (CRUD)", () => {
     });
 
     it("should return 409 if updating a client email to one that already exists", async () => {
-      const targetClient = await createTestClient({ emailPrefix: "target" });
+      const targetClient = await createTestClient({
+        emailPrefix: "target",
+        advisorId,
+      });
       const existingClient = await createTestClient({
         emailPrefix: "existing",
       });
@@ -244,7 +260,7 @@ describe("Client Routes (CRUD)", () => {
 
   describe("DELETE /clients/:clientId", () => {
     it("should allow an ADVISOR to delete a client", async () => {
-      const client = await createTestClient();
+      const client = await createTestClient({ advisorId });
 
       const response = await request(app.server)
         .delete(`/clients/${client.id}`)
@@ -269,7 +285,7 @@ describe("Client Routes (CRUD)", () => {
     });
 
     it("should return 403 if a VIEWER tries to delete a client", async () => {
-      const client = await createTestClient();
+      const client = await createTestClient({ advisorId });
       const { user, plainPassword } = await createTestUser({
         role: "VIEWER",
       });
@@ -290,21 +306,21 @@ describe("Client Routes (CRUD)", () => {
 
   describe("GET /clients/stats", () => {
     it("should correctly calculate planning statistics", async () => {
-      const clientWithPlan1 = await createTestClient();
+      const clientWithPlan1 = await createTestClient({ advisorId });
       await createTestWallet({ clientId: clientWithPlan1.id });
       await createTestGoal({ clientId: clientWithPlan1.id });
 
-      const clientWithPlan2 = await createTestClient();
+      const clientWithPlan2 = await createTestClient({ advisorId });
       await createTestWallet({ clientId: clientWithPlan2.id });
       await createTestGoal({ clientId: clientWithPlan2.id });
 
-      const clientIncomplete1 = await createTestClient();
+      const clientIncomplete1 = await createTestClient({ advisorId });
       await createTestWallet({ clientId: clientIncomplete1.id });
 
-      const clientIncomplete2 = await createTestClient();
+      const clientIncomplete2 = await createTestClient({ advisorId });
       await createTestGoal({ clientId: clientIncomplete2.id });
 
-      await createTestClient();
+      await createTestClient({ advisorId });
 
       const response = await request(app.server)
         .get("/clients/stats")
@@ -332,11 +348,11 @@ describe("Client Routes (CRUD)", () => {
     });
 
     it("should return 100% when all clients have a plan", async () => {
-      const client1 = await createTestClient();
+      const client1 = await createTestClient({ advisorId });
       await createTestWallet({ clientId: client1.id });
       await createTestGoal({ clientId: client1.id });
 
-      const client2 = await createTestClient();
+      const client2 = await createTestClient({ advisorId });
       await createTestWallet({ clientId: client2.id });
       await createTestGoal({ clientId: client2.id });
 
@@ -365,4 +381,305 @@ describe("Client Routes (CRUD)", () => {
       expect(response.status).toBe(403);
     });
   });
+
+  describe("Advisor Assignment", () => {
+    const createAdvisor = async (emailPrefix: string) => {
+      const { user, plainPassword } = await createTestUser({
+        role: "ADVISOR",
+        emailPrefix,
+      });
+      return {
+        advisor: user,
+        token: await loginAndGetToken(user.email, plainPassword),
+      };
+    };
+
+    const createClientAs = async (token: string) => {
+      const response = await request(app.server)
+        .post("/clients")
+        .set("Authorization", `Bearer ${token}`)
+        .send({
+          name: "Cliente da Carteira",
+          email: `carteira.${Date.now()}${TEST_EMAIL_SUFFIX}`,
+          dateOfBirth: "1980-05-15",
+        });
+      return response.body;
+    };
+
+    it("should assign the creating ADVISOR as the client owner", async () => {
+      const { advisor, token } = await createAdvisor("owner");
+
+      const client = await createClientAs(token);
+
+      expect(client.advisorId).toBe(advisor.id);
+    });
+
+    it("should hide a client from ADVISORS outside its book", async () => {
+      const { token: ownerToken } = await createAdvisor("owner");
+      const { token: otherToken } = await createAdvisor("other");
+      const client = await createClientAs(ownerToken);
+      const goal = await createTestGoal({ clientId: client.id });
+
+      const detail = await request(app.server)
+        .get(`/clients/${client.id}`)
+        .set("Authorization", `Bearer ${otherToken}`);
+      const nested = await request(app.server)
+        .get(`/clients/${client.id}/goals`)
+        .set("Authorization", `Bearer ${otherToken}`);
+      const byId = await request(app.server)
+        .get(`/goals/${goal.id}`)
+        .set("Authorization", `Bearer ${otherToken}`);
+      const list = await request(app.server)
+        .get("/clients")
+        .set("Authorization", `Bearer ${otherToken}`);
+      const stats = await request(app.server)
+        .get("/clients/stats")
+        .set("Authorization", `Bearer ${otherToken}`);
+
+      expect(detail.status).toBe(403);
+      expect(nested.status).toBe(403);
+      expect(byId.status).toBe(403);
+      expect(
+        list.body.clients.map((listed: { id: string }) => listed.id)
+      ).not.toContain(client.id);
+      expect(stats.body.totalClients).toBe(0);
+    });
+
+    it("should return 404 when an ADVISOR outside the book updates a resource by ID", async () => {
+      const { token: ownerToken } = await createAdvisor("owner");
+      const { token: otherToken } = await createAdvisor("other");
+      const client = await createClientAs(ownerToken);
+      const goal = await createTestGoal({ clientId: client.id });
+
+      const response = await request(app.server)
+        .put(`/goals/${goal.id}`)
+        .set("Authorization", `Bearer ${otherToken}`)
+        .send({ targetValue: 1 });
+
+      expect(response.status).toBe(404);
+    });
+
+    it("should let the owner add co-advisors who can then access the client", async () => {
+      const { advisor: owner, token: ownerToken } =
+        await createAdvisor("owner");
+      const { advisor: coAdvisor, token: coAdvisorToken } =
+        await createAdvisor("co");
+      const client = await createClientAs(ownerToken);
+
+      const response = await request(app.server)
+        .put(`/clients/${client.id}/advisors`)
+        .set("Authorization", `Bearer ${ownerToken}`)
+        .send({ ownerId: owner.id, coAdvisorIds: [coAdvisor.id] });
+
+      expect(response.status).toBe(200);
+      expect(response.body.owner.id).toBe(owner.id);
+      expect(response.body.coAdvisors).toEqual([
+        { id: coAdvisor.id, email: coAdvisor.email },
+      ]);
+
+      const detail = await request(app.server)
+        .get(`/clients/${client.id}`)
+        .set("Authorization", `Bearer ${coAdvisorToken}`);
+
+      expect(detail.status).toBe(200);
+
+      const reassignment = await request(app.server)
+        .put(`/clients/${client.id}/advisors`)
+        .set("Authorization", `Bearer ${coAdvisorToken}`)
+        .send({ ownerId: coAdvisor.id });
+
+      expect(reassignment.status).toBe(403);
+    });
+
+    it("should only let the ORG_ADMIN see and assign unassigned clients", async () => {
+      const { advisor, token: advisorToken } = await createAdvisor("first");
+      const { token: otherToken } = await createAdvisor("second");
+      const { user: admin, plainPassword } = await createTestUser({
+        role: "ORG_ADMIN",
+      });
+      const adminToken = await loginAndGetToken(admin.email, plainPassword);
+      const client = await createTestClient();
+
+      for (const token of [advisorToken, otherToken]) {
+        const detail = await request(app.server)
+          .get(`/clients/${client.id}`)
+          .set("Authorization", `Bearer ${token}`);
+        const list = await request(app.server)
+          .get("/clients?pageSize=100")
+          .set("Authorization", `Bearer ${token}`);
+        const claim = await request(app.server)
+          .put(`/clients/${client.id}/advisors`)
+          .set("Authorization", `Bearer ${token}`)
+          .send({ ownerId: advisor.id });
+
+        expect(detail.status).toBe(403);
+        expect(
+          list.body.clients.map((listed: { id: string }) => listed.id)
+        ).not.toContain(client.id);
+        expect(claim.status).toBe(403);
+      }
+
+      const assignment = await request(app.server)
+        .put(`/clients/${client.id}/advisors`)
+        .set("Authorization", `Bearer ${adminToken}`)
+        .send({ ownerId: advisor.id });
+
+      expect(assignment.status).toBe(200);
+      expect(assignment.body.owner.id).toBe(advisor.id);
+
+      const detail = await request(app.server)
+        .get(`/clients/${client.id}`)
+        .set("Authorization", `Bearer ${advisorToken}`);
+
+      expect(detail.status).toBe(200);
+    });
+
+    it("should return 400 if an assigned user is not an ADVISOR", async () => {
+      const { advisor: owner, token: ownerToken } =
+        await createAdvisor("owner");
+      const { user: viewer } = await createTestUser({ role: "VIEWER" });
+      const client = await createClientAs(ownerToken);
+
+      const response = await request(app.server)
+        .put(`/clients/${client.id}/advisors`)
+        .set("Authorization", `Bearer ${ownerToken}`)
+        .send({ ownerId: owner.id, coAdvisorIds: [viewer.id] });
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe("GET /clients/dashboard", () => {
+    const createClientWithPlan = async (
+      totalValue: number,
+      targetValue: number
+    ) => {
+      const client = await createTestClient({ advisorId });
+      await createTestWallet({ clientId: client.id, totalValue });
+      await createTestGoal({ clientId: client.id, overrides: { targetValue } });
+      return client;
+    };
+
+    it("should summarize the alignment of all active clients", async () => {
+      await createClientWithPlan(95000, 100000);
+      const redClient = await createClientWithPlan(30000, 100000);
+      const yellowDarkClient = await createClientWithPlan(60000, 100000);
+
+      const staleClient = await createTestClient({ advisorId });
+      await createTestWallet({ clientId: staleClient.id });
+      await prisma.wallet.update({
+        where: { clientId: staleClient.id },
+        data: { updatedAt: new Date(Date.now() - 200 * 24 * 60 * 60 * 1000) },
+      });
+
+      const inactiveClient = await createClientWithPlan(0, 100000);
+      await prisma.client.update({
+        where: { id: inactiveClient.id },
+        data: { isActive: false },
+      });
+
+      const response = await request(app.server)
+        .get("/clients/dashboard")
+        .query({ limit: 2 })
+        .set("Authorization", `Bearer ${advisorToken}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.totalActiveClients).toBe(4);
+      expect(response.body.clientsWithPlan).toBe(3);
+      expect(
+        response.body.distribution.map(
+          (band: { category: string; count: number }) => [
+            band.category,
+            band.count,
+          ]
+        )
+      ).toEqual([
+        ["green", 1],
+        ["yellow-light", 0],
+        ["yellow-dark", 1],
+        ["red", 1],
+      ]);
+      expect(
+        response.body.worstAligned.map(
+          (client: { clientId: string }) => client.clientId
+        )
+      ).toEqual([redClient.id, yellowDarkClient.id]);
+      expect(response.body.worstAligned[0].alignmentPercentage).toBe("30.00");
+      expect(response.body.staleAfterDays).toBe(90);
+      expect(response.body.staleWalletCount).toBe(1);
+      expect(response.body.staleWallets[0].clientId).toBe(staleClient.id);
+      expect(response.body.staleWallets[0].daysSinceUpdate).toBe(200);
+    });
+
+    it("should return 403 if a VIEWER tries to access the dashboard", async () => {
+      const { user: viewer, plainPassword } = await createTestUser({
+        role: "VIEWER",
+      });
+      const viewerToken = await loginAndGetToken(viewer.email, plainPassword);
+
+      const response = await request(app.server)
+        .get("/clients/dashboard")
+        .set("Authorization", `Bearer ${viewerToken}`);
+
+      expect(response.status).toBe(403);
+    });
+  });
+
+  describe("Organization Isolation", () => {
+    it("should hide clients of another organization", async () => {
+      const otherOrganization = await createTestOrganization();
+      const otherClient = await createTestClient({
+        organizationId: otherOrganization.id,
+      });
+
+      const listResponse = await request(app.server)
+        .get("/clients?pageSize=100")
+        .set("Authorization", `Bearer ${advisorToken}`);
+
+      expect(listResponse.status).toBe(200);
+      expect(
+        listResponse.body.clients.map((client: { id: string }) => client.id)
+      ).not.toContain(otherClient.id);
+
+      const getResponse = await request(app.server)
+        .get(`/clients/${otherClient.id}`)
+        .set("Authorization", `Bearer ${advisorToken}`);
+
+      expect(getResponse.status).toBe(404);
+
+      const goalResponse = await request(app.server)
+        .post(`/clients/${otherClient.id}/goals`)
+        .set("Authorization", `Bearer ${advisorToken}`)
+        .send({
+          description: `Meta${TEST_GOAL_DESCRIPTION_SUFFIX}`,
+          targetValue: 1000,
+          targetDate: "2030-01-01",
+        });
+
+      expect(goalResponse.status).toBe(404);
+    });
+
+    it("should let an ORG_ADMIN access every client of the organization", async () => {
+      const { user: otherAdvisor } = await createTestUser({
+        role: "ADVISOR",
+        emailPrefix: `other-advisor.${Date.now()}`,
+      });
+      const client = await createTestClient({ advisorId });
+      await prisma.client.update({
+        where: { id: client.id },
+        data: { advisorId: otherAdvisor.id },
+      });
+
+      const { user: admin, plainPassword } = await createTestUser({
+        role: "ORG_ADMIN",
+      });
+      const adminToken = await loginAndGetToken(admin.email, plainPassword);
+
+      const response = await request(app.server)
+        .get(`/clients/${client.id}`)
+        .set("Authorization", `Bearer ${adminToken}`);
+
+      expect(response.status).toBe(200);
+    });
+  });
 });
@@ -11,6 +11,7 @@ import {
 } from "./factories/event-factory";
 
 describe("Event Routes (CRUD)", () => {
+  let advisorId: string;
   let advisorToken: string;
 
   beforeAll(async () => {
@@ -21,6 +22,7 @@ describe("Event Routes (CRUD)", () => {
     const { user: advisor, plainPassword } = await createTestUser({
       role: "ADVISOR",
     });
+    advisorId = advisor.id;
     advisorToken = await loginAndGetToken(advisor.email, plainPassword);
   });
 
@@ -54,7 +56,7 @@ describe("Event Routes (CRUD)", () => {
 
   describe("POST /clients/:clientId/events", () => {
     it("should allow an ADVISOR to create a new event for a client", async () => {
-      const client = await createTestClient();
+      const client = await createTestClient({ advisorId });
       const description = getTestEventDescription("Aporte Mensal");
 
       const response = await request(app.server)
@@ -74,8 +76,86 @@ describe("Event Routes (CRUD)", () => {
       expect(response.body.clientId).toBe(client.id);
     });
 
+    it("should allow an ADVISOR to create an event with a start/end window", async () => {
+      const client = await createTestClient({ advisorId });
+
+      const response = await request(app.server)
+        .post(`/clients/${client.id}/events`)
+        .set("Authorization", `Bearer ${advisorToken}`)
+        .send({
+          description: getTestEventDescription("Salário"),
+          category: "INCOME",
+          value: 15000,
+          frequency: "MONTHLY",
+          startDate: "2025-01-01",
+          endDate: "2045-12-31",
+          inflationIndexed: true,
+        });
+
+      expect(response.status).toBe(201);
+      expect(response.body.inflationIndexed).toBe(true);
+      expect(new Date(response.body.startDate).getUTCFullYear()).toBe(2025);
+      expect(new Date(response.body.endDate).getUTCFullYear()).toBe(2045);
+      expect(response.body.occurrenceDate).toBeNull();
+    });
+
+    it("should allow an ADVISOR to create a unique event with an occurrence date", async () => {
+      const client = await createTestClient({ advisorId });
+
+      const response = await request(app.server)
+        .post(`/clients/${client.id}/events`)
+        .set("Authorization", `Bearer ${advisorToken}`)
+        .send({
+          description: getTestEventDescription("Compra do imóvel"),
+          category: "EXPENSE",
+          value: 800000,
+          frequency: "UNIQUE",
+          occurrenceDate: "2030-06-01",
+        });
+
+      expect(response.status).toBe(201);
+      expect(new Date(response.body.occurrenceDate).getUTCFullYear()).toBe(
+        2030
+      );
+    });
+
+    it("should return 400 if a unique event is given a start/end window", async () => {
+      const client = await createTestClient({ advisorId });
+
+      const response = await request(app.server)
+        .post(`/clients/${client.id}/events`)
+        .set("Authorization", `Bearer ${advisorToken}`)
+        .send({
+          description: getTestEventDescription("Evento Inválido"),
+          category: "EXPENSE",
+          value: 100,
+          frequency: "UNIQUE",
+          startDate: "2030-01-01",
+        });
+
+      expect(response.status).toBe(400);
+    });
+
+    it("should return 400 if the end date is before the start date", async () => {
+      const client = await createTestClient({ advisorId });
+
+      const response = await request(app.server)
+        .post(`/clients/${client.id}/events`)
+        .set("Authorization", `Bearer ${advisorToken}`)
+        .send({
+          description: getTestEventDescription("Evento Inválido"),
+          category: "INCOME",
+          value: 100,
+          frequency: "MONTHLY",
+          startDate: "2030-01-01",
+          endDate: "2029-01-01",
+        });
+
+      expect(response.status).toBe(400);
+    });
+
     it("should return 403 if a VIEWER tries to create a new event for a client", async () => {
-      const client = await createTestClient();
+      const client = await createTestClient({ advisorId });
       const { user: viewer, plainPassword } = await createTestUser({
         role: "VIEWER",
       });
@@ -114,7 +194,7 @@ describe("Event Routes (CRUD)", () => {
 
   describe("GET /clients/:clientId/events", () => {
     it("should allow an ADVISOR to list all events for a specific client", async () => {
-      const client = await createTestClient();
+      const client = await createTestClient({ advisorId });
       await createTestEvent({ clientId: client.id });
       await createTestEvent({ clientId: client.id });
       await createTestEvent();
@@ -148,7 +228,7 @@ describe("Event Routes (CRUD)", () => {
     });
 
     it("should return 403 if a VIEWER tries to list events of ANOTHER client", async () => {
-      const targetClient = await createTestClient();
+      const targetClient = await createTestClient({ advisorId });
       await createTestEvent({ clientId: targetClient.id });
 
       const { user: attacker, plainPassword } = await createTestUser({
@@ -170,7 +250,7 @@ describe("Event Routes (CRUD)", () => {
 
   describe("GET /events/:eventId", () => {
     it("should allow an ADVISOR to get a specific event by its ID", async () => {
-      const event = await createTestEvent();
+      const event = await createTestEvent({ advisorId });
 
       const response = await request(app.server)
         .get(`/events/${event.id}`)
@@ -231,6 +311,7 @@ describe("Event Routes (CRUD)", () => {
   describe("PUT /events/:eventId", () => {
     it("should allow an ADVISOR to update an event", async () => {
       const event = await createTestEvent({
+        advisorId,
         overrides: {
           descriptionPrefix: "Resgate para Viagem",
           category: "EXPENSE",
@@ -252,6 +333,39 @@ describe("Event Routes (CRUD)", () => {
       expect(response.body.value).toBe("6000");
     });
 
+    it("should return 400 if the update would give a unique event a start/end window", async () => {
+      const event = await createTestEvent({
+        advisorId,
+        overrides: { frequency: "UNIQUE" },
+      });
+
+      const response = await request(app.server)
+        .put(`/events/${event.id}`)
+        .set("Authorization", `Bearer ${advisorToken}`)
+        .send({ startDate: "2030-01-01" });
+
+      expect(response.status).toBe(400);
+      expect(response.body).toHaveProperty("message");
+    });
+
+    it("should return 400 if the new end date is before the stored start date", async () => {
+      const event = await createTestEvent({
+        advisorId,
+        overrides: {
+          frequency: "MONTHLY",
+          startDate: new Date("2030-01-01"),
+        },
+      });
+
+      const response = await request(app.server)
+        .put(`/events/${event.id}`)
+        .set("Authorization", `Bearer ${advisorToken}`)
+        .send({ endDate: "2029-01-01" });
+
+      expect(response.status).toBe(400);
+      expect(response.body).toHaveProperty("message");
+    });
+
     it("should return 403 if a VIEWER tries to update an event", async () => {
       const event = await createTestEvent({ overrides: { value: 3000 } });
       const { user, plainPassword } = await createTestUser({
@@ -284,7 +398,7 @@ describe("Event Routes (CRUD)", () => {
 
   describe("DELETE /events/:eventId", () => {
     it("should allow an ADVISOR to delete an event", async () => {
-      const event = await createTestEvent();
+      const event = await createTestEvent({ advisorId });
 
       const response = await request(app.server)
         .delete(`/events/${event.id}`)
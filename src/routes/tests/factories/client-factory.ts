@@ -1,9 +1,12 @@
 import { prisma } from "../../../lib/prisma";
+import { getTestOrganization } from "./organization-factory";
 
 interface CreateUserOptions {
   name?: string;
   dateOfBirth?: string;
   emailPrefix?: string;
+  organizationId?: string;
+  advisorId?: string;
 }
 
 export const TEST_EMAIL_SUFFIX = "123456789.test-email@test.dev";
@@ -13,7 +16,10 @@ export async function createTestClient(options?: CreateUserOptions) {
     name = "Cliente teste",
     emailPrefix,
     dateOfBirth = new Date("2000-01-01"),
+    advisorId,
   } = options || {};
+  const organizationId =
+    options?.organizationId ?? (await getTestOrganization()).id;
   const email = `${name.toLowerCase().replace(" ", "")}.${
     emailPrefix || Date.now()
   }${TEST_EMAIL_SUFFIX}`;
@@ -23,6 +29,8 @@ export async function createTestClient(options?: CreateUserOptions) {
       name,
       email,
       dateOfBirth,
+      organizationId,
+      advisorId,
     },
   });
 
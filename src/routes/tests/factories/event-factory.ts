@@ -3,11 +3,15 @@ import { createTestClient } from "./client-factory";
 
 interface CreateEventOptions {
   clientId?: string;
+  advisorId?: string;
   overrides?: {
     descriptionPrefix?: string;
     category?: "INCOME" | "EXPENSE";
     value?: number;
     frequency?: "UNIQUE" | "MONTHLY" | "ANNUAL";
+    startDate?: Date;
+    endDate?: Date;
+    occurrenceDate?: Date;
   };
 }
 
@@ -18,19 +22,22 @@ export const getTestEventDescription = (prefix?: string) => {
 };
 
 export async function createTestEvent(options: CreateEventOptions = {}) {
-  const { clientId, overrides = {} } = options;
+  const { clientId, advisorId, overrides = {} } = options;
   const {
     descriptionPrefix,
     category = "INCOME",
     value = 5000,
     frequency = "UNIQUE",
+    startDate,
+    endDate,
+    occurrenceDate,
   } = overrides;
   const description = getTestEventDescription(descriptionPrefix);
 
   let finalClientId = clientId;
 
   if (!finalClientId) {
-    const client = await createTestClient();
+    const client = await createTestClient({ advisorId });
     finalClientId = client.id;
   }
 
@@ -39,6 +46,9 @@ export async function createTestEvent(options: CreateEventOptions = {}) {
     category: category,
     value: value,
     frequency: frequency,
+    startDate,
+    endDate,
+    occurrenceDate,
     clientId: finalClientId,
   };
 
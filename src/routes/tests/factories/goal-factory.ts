@@ -3,6 +3,7 @@ import { createTestClient } from "./client-factory";
 
 interface CreateGoalOptions {
   clientId?: string;
+  advisorId?: string;
   overrides?: {
     descriptionPrefix?: string;
     targetValue?: number;
@@ -17,7 +18,7 @@ export const getTestGoalDescription = (prefix?: string) => {
 };
 
 export async function createTestGoal(options: CreateGoalOptions = {}) {
-  const { clientId, overrides = {} } = options;
+  const { clientId, advisorId, overrides = {} } = options;
   const {
     descriptionPrefix,
     targetValue = 100000,
@@ -28,7 +29,7 @@ export async function createTestGoal(options: CreateGoalOptions = {}) {
   let finalClientId = clientId;
 
   if (!finalClientId) {
-    const client = await createTestClient();
+    const client = await createTestClient({ advisorId });
     finalClientId = client.id;
   }
 
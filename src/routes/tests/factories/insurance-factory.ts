@@ -3,6 +3,7 @@ import { createTestClient } from "./client-factory";
 
 interface CreateInsuranceOptions {
   clientId?: string;
+  advisorId?: string;
   type?: "LIFE" | "DISABILITY";
 }
 
@@ -11,12 +12,12 @@ export const TEST_COVERAGE_VALUE = 999999999999999104.52;
 export async function createTestInsurance(
   options: CreateInsuranceOptions = {}
 ) {
-  const { clientId, type = "LIFE" } = options;
+  const { clientId, advisorId, type = "LIFE" } = options;
 
   let finalClientId = clientId;
 
   if (!finalClientId) {
-    const client = await createTestClient();
+    const client = await createTestClient({ advisorId });
     finalClientId = client.id;
   }
 
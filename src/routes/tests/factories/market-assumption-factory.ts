@@ -0,0 +1,34 @@
+import { prisma } from "../../../lib/prisma";
+import { getTestOrganization } from "./organization-factory";
+
+interface CreateMarketAssumptionOptions {
+  classNamePrefix?: string;
+  expectedReturn?: number;
+  volatility?: number;
+  organizationId?: string;
+}
+
+export const TEST_ASSET_CLASS_NAME_SUFFIX = "CLASSE   TESTE123   4567";
+
+export const getTestAssetClassName = (prefix?: string) => {
+  return `${prefix || Date.now()}${TEST_ASSET_CLASS_NAME_SUFFIX}`;
+};
+
+export async function createTestMarketAssumption(
+  options: CreateMarketAssumptionOptions = {}
+) {
+  const { classNamePrefix, expectedReturn = 8, volatility = 15 } = options;
+  const organizationId =
+    options.organizationId ?? (await getTestOrganization()).id;
+
+  const assumption = await prisma.capitalMarketAssumption.create({
+    data: {
+      className: getTestAssetClassName(classNamePrefix),
+      expectedReturn,
+      volatility,
+      organizationId,
+    },
+  });
+
+  return assumption;
+}
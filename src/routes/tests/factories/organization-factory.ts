@@ -0,0 +1,23 @@
+import { prisma } from "../../../lib/prisma";
+
+export const TEST_ORGANIZATION_ID = "7e57a11e-0000-4000-8000-000000000001";
+export const TEST_ORGANIZATION_NAME_SUFFIX = "ORGANIZACAO   TESTE123   4567";
+
+export async function getTestOrganization() {
+  return prisma.organization.upsert({
+    where: { id: TEST_ORGANIZATION_ID },
+    create: {
+      id: TEST_ORGANIZATION_ID,
+      name: `Padrão${TEST_ORGANIZATION_NAME_SUFFIX}`,
+    },
+    update: {},
+  });
+}
+
+export async function createTestOrganization(namePrefix?: string) {
+  return prisma.organization.create({
+    data: {
+      name: `${namePrefix || Date.now()}${TEST_ORGANIZATION_NAME_SUFFIX}`,
+    },
+  });
+}
@@ -3,6 +3,7 @@ import { createTestClient } from "./client-factory";
 
 interface CreateSimulationOptions {
   clientId?: string;
+  advisorId?: string;
   rate?: number;
 }
 
@@ -15,12 +16,13 @@ export const TEST_PROJECTION = [
 
 export async function createTestSimulation({
   clientId,
+  advisorId,
   rate = 4,
 }: CreateSimulationOptions = {}) {
   let finalClientId = clientId;
 
   if (!finalClientId) {
-    const client = await createTestClient();
+    const client = await createTestClient({ advisorId });
     finalClientId = client.id;
   }
 
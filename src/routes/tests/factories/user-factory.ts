@@ -1,17 +1,21 @@
 import bcrypt from "bcryptjs";
 import { prisma } from "../../../lib/prisma";
 import { BCRYPT_SALT_ROUNDS } from "../../../config/constants";
+import { getTestOrganization } from "./organization-factory";
 
 interface CreateUserOptions {
-  role: "ADVISOR" | "VIEWER";
+  role: "ORG_ADMIN" | "ADVISOR" | "VIEWER";
   emailPrefix?: string;
   password?: string;
+  organizationId?: string;
 }
 
 export const TEST_EMAIL_SUFFIX = "123456789.test-email@test.dev";
 
 export async function createTestUser(options: CreateUserOptions) {
   const { role, emailPrefix, password } = options;
+  const organizationId =
+    options.organizationId ?? (await getTestOrganization()).id;
   const email = `${role.toLowerCase()}.${
     emailPrefix || Date.now()
   }${TEST_EMAIL_SUFFIX}`;
@@ -30,6 +34,7 @@ export async function createTestUser(options: CreateUserOptions) {
         name: `Cliente de Teste para ${email}`,
         email,
         dateOfBirth: new Date("1990-01-01"),
+        organizationId,
       },
     });
     clientId = client.id;
@@ -40,6 +45,7 @@ export async function createTestUser(options: CreateUserOptions) {
       email,
       password: hashedPassword,
       role,
+      organizationId,
       clientId,
     },
   });
@@ -3,18 +3,19 @@ import { prisma } from "../../../lib/prisma";
 
 interface CreateWalletOptions {
   clientId?: string;
+  advisorId?: string;
   totalValue?: number;
 }
 
 export const TEST_ASSET_CLASS = { className: "ATIVO TESTE", percentage: 100 };
 
 export async function createTestWallet(options: CreateWalletOptions = {}) {
-  const { clientId, totalValue = 50000 } = options;
+  const { clientId, advisorId, totalValue = 50000 } = options;
 
   let finalClientId = clientId;
 
   if (!finalClientId) {
-    const client = await createTestClient();
+    const client = await createTestClient({ advisorId });
     finalClientId = client.id;
   }
 
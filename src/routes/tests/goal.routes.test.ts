@@ -11,6 +11,7 @@ import {
 } from "./factories/goal-factory";
 
 describe("Goal Routes (CRUD)", () => {
+  let advisorId: string;
   let advisorToken: string;
 
   beforeAll(async () => {
@@ -21,6 +22,7 @@ describe("Goal Routes (CRUD)", () => {
     const { user: advisor, plainPassword } = await createTestUser({
       role: "ADVISOR",
     });
+    advisorId = advisor.id;
     advisorToken = await loginAndGetToken(advisor.email, plainPassword);
   });
 
@@ -54,7 +56,7 @@ describe("Goal Routes (CRUD)", () => {
 
   describe("POST /clients/:clientId/goals", () => {
     it("should allow an ADVISOR to create a new goal for a client", async () => {
-      const client = await createTestClient();
+      const client = await createTestClient({ advisorId });
       const description = getTestGoalDescription("Aposentadoria");
       const goalPayload = {
         description,
@@ -74,7 +76,7 @@ describe("Goal Routes (CRUD)", () => {
     });
 
     it("should return 403 if a VIEWER tries to create a new goal for a client", async () => {
-      const client = await createTestClient();
+      const client = await createTestClient({ advisorId });
       const { user: viewer, plainPassword } = await createTestUser({
         role: "VIEWER",
       });
@@ -111,7 +113,7 @@ describe("Goal Routes (CRUD)", () => {
 
   describe("GET /clients/:clientId/goals", () => {
     it("should allow an ADVISOR to list all goals for a specific client", async () => {
-      const client = await createTestClient();
+      const client = await createTestClient({ advisorId });
 
       await createTestGoal({ clientId: client.id });
       await createTestGoal({ clientId: client.id });
@@ -146,7 +148,7 @@ describe("Goal Routes (CRUD)", () => {
     });
 
     it("should return 403 if a VIEWER tries to list goals of ANOTHER client", async () => {
-      const targetClient = await createTestClient();
+      const targetClient = await createTestClient({ advisorId });
       await createTestGoal({ clientId: targetClient.id });
 
       const { user: attacker, plainPassword } = await createTestUser({
@@ -167,8 +169,8 @@ describe("Goal Routes (CRUD)", () => {
   });
 
   describe("GET /goals/:goalId", () => {
-    it("should allow an ADVISOR to get any specific goal by its ID", async () => {
-      const goal = await createTestGoal();
+    it("should allow an ADVISOR to get a specific goal by its ID", async () => {
+      const goal = await createTestGoal({ advisorId });
 
       const response = await request(app.server)
         .get(`/goals/${goal.id}`)
@@ -230,7 +232,7 @@ describe("Goal Routes (CRUD)", () => {
 
   describe("PUT /goals/:goalId", () => {
     it("should allow an ADVISOR to update a goal", async () => {
-      const goal = await createTestGoal();
+      const goal = await createTestGoal({ advisorId });
       const description = getTestGoalDescription("Meta de Viagem Atualizada");
 
       const response = await request(app.server)
@@ -282,7 +284,7 @@ describe("Goal Routes (CRUD)", () => {
 
   describe("DELETE /goals/:goalId", () => {
     it("should allow an ADVISOR to delete a goal", async () => {
-      const goal = await createTestGoal();
+      const goal = await createTestGoal({ advisorId });
 
       const response = await request(app.server)
         .delete(`/goals/${goal.id}`)
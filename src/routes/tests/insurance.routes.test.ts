@@ -10,6 +10,7 @@ import {
 } from "./factories/insurance-factory";
 
 describe("Insurance Routes (CRUD)", () => {
+  let advisorId: string;
   let advisorToken: string;
 
   beforeAll(async () => {
@@ -20,6 +21,7 @@ describe("Insurance Routes (CRUD)", () => {
     const { user: advisor, plainPassword } = await createTestUser({
       role: "ADVISOR",
     });
+    advisorId = advisor.id;
     advisorToken = await loginAndGetToken(advisor.email, plainPassword);
   });
 
@@ -53,7 +55,7 @@ describe("Insurance Routes (CRUD)", () => {
 
   describe("POST /clients/:clientId/insurances", () => {
     it("should allow an ADVISOR to create a new insurance for a client", async () => {
-      const client = await createTestClient();
+      const client = await createTestClient({ advisorId });
 
       const response = await request(app.server)
         .post(`/clients/${client.id}/insurances`)
@@ -71,7 +73,7 @@ describe("Insurance Routes (CRUD)", () => {
     });
 
     it("should return 403 if a VIEWER tries to add an insurance to a client", async () => {
-      const client = await createTestClient();
+      const client = await createTestClient({ advisorId });
       const { user: viewer, plainPassword } = await createTestUser({
         role: "VIEWER",
       });
@@ -103,7 +105,7 @@ describe("Insurance Routes (CRUD)", () => {
 
   describe("GET /clients/:clientId/insurances", () => {
     it("should allow an ADVISOR to list all insurances for a specific client", async () => {
-      const client = await createTestClient();
+      const client = await createTestClient({ advisorId });
       await createTestInsurance({ clientId: client.id });
       await createTestInsurance({ clientId: client.id });
       await createTestInsurance();
@@ -137,7 +139,7 @@ describe("Insurance Routes (CRUD)", () => {
     });
 
     it("should return 403 if a VIEWER tries to list the insurances of ANOTHER client", async () => {
-      const targetClient = await createTestClient();
+      const targetClient = await createTestClient({ advisorId });
       await createTestInsurance({ clientId: targetClient.id });
 
       const { user: attacker, plainPassword } = await createTestUser({
@@ -159,7 +161,7 @@ describe("Insurance Routes (CRUD)", () => {
 
   describe("GET /insurances/:insuranceId", () => {
     it("should allow an ADVISOR to get a specific insurance by its ID", async () => {
-      const insurance = await createTestInsurance();
+      const insurance = await createTestInsurance({ advisorId });
 
       const response = await request(app.server)
         .get(`/insurances/${insurance.id}`)
@@ -221,7 +223,7 @@ describe("Insurance Routes (CRUD)", () => {
 
   describe("PUT /insurances/:insuranceId", () => {
     it("should allow an ADVISOR to update an insurance", async () => {
-      const insurance = await createTestInsurance({ type: "LIFE" });
+      const insurance = await createTestInsurance({ advisorId, type: "LIFE" });
 
       const response = await request(app.server)
         .put(`/insurances/${insurance.id}`)
@@ -265,7 +267,7 @@ describe("Insurance Routes (CRUD)", () => {
 
   describe("DELETE /insurances/:insuranceId", () => {
     it("should allow an ADVISOR to delete an insurance", async () => {
-      const insurance = await createTestInsurance();
+      const insurance = await createTestInsurance({ advisorId });
 
       const response = await request(app.server)
         .delete(`/insurances/${insurance.id}`)
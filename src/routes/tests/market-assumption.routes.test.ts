@@ -0,0 +1,279 @@
+import request from "supertest";
+import { app } from "../../server";
+import { prisma } from "../../lib/prisma";
+import { createTestUser, TEST_EMAIL_SUFFIX } from "./factories/user-factory";
+import { loginAndGetToken } from "./utils/auth-helper";
+import {
+  createTestMarketAssumption,
+  getTestAssetClassName,
+  TEST_ASSET_CLASS_NAME_SUFFIX,
+} from "./factories/market-assumption-factory";
+import {
+  createTestOrganization,
+  TEST_ORGANIZATION_ID,
+  TEST_ORGANIZATION_NAME_SUFFIX,
+} from "./factories/organization-factory";
+
+describe("Market Assumption Routes (CRUD)", () => {
+  let adminToken: string;
+
+  beforeAll(async () => {
+    await app.ready();
+  });
+
+  beforeEach(async () => {
+    const { user: admin, plainPassword } = await createTestUser({
+      role: "ORG_ADMIN",
+    });
+    adminToken = await loginAndGetToken(admin.email, plainPassword);
+  });
+
+  afterEach(async () => {
+    await prisma.capitalMarketAssumption.deleteMany({
+      where: {
+        className: {
+          endsWith: TEST_ASSET_CLASS_NAME_SUFFIX,
+        },
+      },
+    });
+    await prisma.user.deleteMany({
+      where: {
+        email: {
+          endsWith: TEST_EMAIL_SUFFIX,
+        },
+      },
+    });
+    await prisma.client.deleteMany({
+      where: {
+        email: {
+          endsWith: TEST_EMAIL_SUFFIX,
+        },
+      },
+    });
+    await prisma.organization.deleteMany({
+      where: {
+        id: { not: TEST_ORGANIZATION_ID },
+        name: { endsWith: TEST_ORGANIZATION_NAME_SUFFIX },
+      },
+    });
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  describe("POST /market-assumptions", () => {
+    it("should allow an ORG_ADMIN to create assumptions for an asset class", async () => {
+      const className = getTestAssetClassName("Renda Fixa");
+
+      const response = await request(app.server)
+        .post("/market-assumptions")
+        .set("Authorization", `Bearer ${adminToken}`)
+        .send({ className, expectedReturn: 10.5, volatility: 3 });
+
+      expect(response.status).toBe(201);
+      expect(response.body.organizationId).toBe(TEST_ORGANIZATION_ID);
+      expect(response.body.className).toBe(className);
+      expect(response.body.expectedReturn).toBe("10.5");
+      expect(response.body.volatility).toBe("3");
+    });
+
+    it("should return 409 if the asset class already has assumptions", async () => {
+      const assumption = await createTestMarketAssumption();
+
+      const response = await request(app.server)
+        .post("/market-assumptions")
+        .set("Authorization", `Bearer ${adminToken}`)
+        .send({
+          className: assumption.className,
+          expectedReturn: 5,
+          volatility: 5,
+        });
+
+      expect(response.status).toBe(409);
+      expect(response.body).toHaveProperty("message");
+    });
+
+    it("should allow another organization to use the same asset class name", async () => {
+      const assumption = await createTestMarketAssumption();
+      const organization = await createTestOrganization();
+      const { user: otherAdmin, plainPassword } = await createTestUser({
+        role: "ORG_ADMIN",
+        organizationId: organization.id,
+      });
+      const otherAdminToken = await loginAndGetToken(
+        otherAdmin.email,
+        plainPassword
+      );
+
+      const response = await request(app.server)
+        .post("/market-assumptions")
+        .set("Authorization", `Bearer ${otherAdminToken}`)
+        .send({
+          className: assumption.className,
+          expectedReturn: 5,
+          volatility: 5,
+        });
+
+      expect(response.status).toBe(201);
+      expect(response.body.organizationId).toBe(organization.id);
+    });
+
+    it("should return 403 if an ADVISOR tries to create assumptions", async () => {
+      const { user: advisor, plainPassword } = await createTestUser({
+        role: "ADVISOR",
+      });
+      const advisorToken = await loginAndGetToken(advisor.email, plainPassword);
+
+      const response = await request(app.server)
+        .post("/market-assumptions")
+        .set("Authorization", `Bearer ${advisorToken}`)
+        .send({
+          className: getTestAssetClassName(),
+          expectedReturn: 5,
+          volatility: 5,
+        });
+
+      expect(response.status).toBe(403);
+    });
+
+    it("should return 403 if a VIEWER tries to create assumptions", async () => {
+      const { user: viewer, plainPassword } = await createTestUser({
+        role: "VIEWER",
+      });
+      const viewerToken = await loginAndGetToken(viewer.email, plainPassword);
+
+      const response = await request(app.server)
+        .post("/market-assumptions")
+        .set("Authorization", `Bearer ${viewerToken}`)
+        .send({
+          className: getTestAssetClassName(),
+          expectedReturn: 5,
+          volatility: 5,
+        });
+
+      expect(response.status).toBe(403);
+    });
+  });
+
+  describe("GET /market-assumptions", () => {
+    it("should allow any authenticated user to list the assumptions", async () => {
+      const assumption = await createTestMarketAssumption();
+      const { user: viewer, plainPassword } = await createTestUser({
+        role: "VIEWER",
+      });
+      const viewerToken = await loginAndGetToken(viewer.email, plainPassword);
+
+      const response = await request(app.server)
+        .get("/market-assumptions")
+        .set("Authorization", `Bearer ${viewerToken}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual(
+        expect.arrayContaining([expect.objectContaining({ id: assumption.id })])
+      );
+    });
+
+    it("should not list the assumptions of another organization", async () => {
+      const organization = await createTestOrganization();
+      const assumption = await createTestMarketAssumption({
+        organizationId: organization.id,
+      });
+
+      const response = await request(app.server)
+        .get("/market-assumptions")
+        .set("Authorization", `Bearer ${adminToken}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body).not.toEqual(
+        expect.arrayContaining([expect.objectContaining({ id: assumption.id })])
+      );
+    });
+
+    it("should return 401 if authentication token is not provided", async () => {
+      const response = await request(app.server).get("/market-assumptions");
+
+      expect(response.status).toBe(401);
+    });
+  });
+
+  describe("PUT /market-assumptions/:assumptionId", () => {
+    it("should allow an ORG_ADMIN to update an assumption", async () => {
+      const assumption = await createTestMarketAssumption();
+
+      const response = await request(app.server)
+        .put(`/market-assumptions/${assumption.id}`)
+        .set("Authorization", `Bearer ${adminToken}`)
+        .send({ expectedReturn: 12 });
+
+      expect(response.status).toBe(200);
+      expect(response.body.expectedReturn).toBe("12");
+    });
+
+    it("should return 404 when trying to update an assumption of another organization", async () => {
+      const organization = await createTestOrganization();
+      const assumption = await createTestMarketAssumption({
+        organizationId: organization.id,
+      });
+
+      const response = await request(app.server)
+        .put(`/market-assumptions/${assumption.id}`)
+        .set("Authorization", `Bearer ${adminToken}`)
+        .send({ expectedReturn: 50 });
+
+      expect(response.status).toBe(404);
+    });
+
+    it("should return 404 when trying to update a non-existent assumption", async () => {
+      const nonExistentId = "00000000-0000-0000-0000-000000000000";
+
+      const response = await request(app.server)
+        .put(`/market-assumptions/${nonExistentId}`)
+        .set("Authorization", `Bearer ${adminToken}`)
+        .send({ expectedReturn: 12 });
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe("DELETE /market-assumptions/:assumptionId", () => {
+    it("should allow an ORG_ADMIN to delete an assumption", async () => {
+      const assumption = await createTestMarketAssumption();
+
+      const response = await request(app.server)
+        .delete(`/market-assumptions/${assumption.id}`)
+        .set("Authorization", `Bearer ${adminToken}`);
+
+      expect(response.status).toBe(204);
+
+      const deletedAssumption = await prisma.capitalMarketAssumption.findUnique(
+        { where: { id: assumption.id } }
+      );
+      expect(deletedAssumption).toBeNull();
+    });
+
+    it("should return 403 if an ADVISOR tries to delete an assumption", async () => {
+      const assumption = await createTestMarketAssumption();
+      const { user: advisor, plainPassword } = await createTestUser({
+        role: "ADVISOR",
+      });
+      const advisorToken = await loginAndGetToken(advisor.email, plainPassword);
+
+      const response = await request(app.server)
+        .delete(`/market-assumptions/${assumption.id}`)
+        .set("Authorization", `Bearer ${advisorToken}`);
+
+      expect(response.status).toBe(403);
+    });
+
+    it("should return 404 when trying to delete a non-existent assumption", async () => {
+      const nonExistentId = "00000000-0000-0000-0000-000000000000";
+
+      const response = await request(app.server)
+        .delete(`/market-assumptions/${nonExistentId}`)
+        .set("Authorization", `Bearer ${adminToken}`);
+
+      expect(response.status).toBe(404);
+    });
+  });
+});
@@ -0,0 +1,167 @@
+import request from "supertest";
+import { app } from "../../server";
+import { prisma } from "../../lib/prisma";
+import { createTestUser, TEST_EMAIL_SUFFIX } from "./factories/user-factory";
+import { loginAndGetToken } from "./utils/auth-helper";
+import {
+  TEST_ORGANIZATION_ID,
+  TEST_ORGANIZATION_NAME_SUFFIX,
+} from "./factories/organization-factory";
+
+const PLATFORM_ADMIN_KEY = "test-platform-admin-key";
+
+describe("Organization Routes (/organizations)", () => {
+  beforeAll(async () => {
+    process.env.PLATFORM_ADMIN_KEY = PLATFORM_ADMIN_KEY;
+    await app.ready();
+  });
+
+  afterEach(async () => {
+    await prisma.user.deleteMany({
+      where: {
+        email: {
+          endsWith: TEST_EMAIL_SUFFIX,
+        },
+      },
+    });
+    await prisma.client.deleteMany({
+      where: {
+        email: {
+          endsWith: TEST_EMAIL_SUFFIX,
+        },
+      },
+    });
+    await prisma.organization.deleteMany({
+      where: {
+        id: { not: TEST_ORGANIZATION_ID },
+        name: { endsWith: TEST_ORGANIZATION_NAME_SUFFIX },
+      },
+    });
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  describe("POST /organizations", () => {
+    it("should create an organization with its first ORG_ADMIN", async () => {
+      const email = `admin.${Date.now()}${TEST_EMAIL_SUFFIX}`;
+
+      const response = await request(app.server)
+        .post("/organizations")
+        .set("X-Platform-Key", PLATFORM_ADMIN_KEY)
+        .send({
+          name: `Escritório${TEST_ORGANIZATION_NAME_SUFFIX}`,
+          admin: { email, password: "password123456" },
+        });
+
+      expect(response.status).toBe(201);
+      expect(response.body.organization).toHaveProperty("id");
+      expect(response.body.admin.email).toBe(email);
+      expect(response.body.admin.role).toBe("ORG_ADMIN");
+      expect(response.body.admin.organizationId).toBe(
+        response.body.organization.id
+      );
+      expect(response.body.admin).not.toHaveProperty("password");
+
+      const token = await loginAndGetToken(email, "password123456");
+      const usersResponse = await request(app.server)
+        .get("/users")
+        .set("Authorization", `Bearer ${token}`);
+
+      expect(usersResponse.status).toBe(200);
+      expect(usersResponse.body.meta.total).toBe(1);
+    });
+
+    it("should return 409 if the admin email is already in use", async () => {
+      const { user } = await createTestUser({ role: "ADVISOR" });
+
+      const response = await request(app.server)
+        .post("/organizations")
+        .set("X-Platform-Key", PLATFORM_ADMIN_KEY)
+        .send({
+          name: `Escritório${TEST_ORGANIZATION_NAME_SUFFIX}`,
+          admin: { email: user.email, password: "password123456" },
+        });
+
+      expect(response.status).toBe(409);
+    });
+
+    it("should return 403 for an anonymous call without the platform key", async () => {
+      const email = `admin.${Date.now()}${TEST_EMAIL_SUFFIX}`;
+
+      const response = await request(app.server)
+        .post("/organizations")
+        .send({
+          name: `Escritório${TEST_ORGANIZATION_NAME_SUFFIX}`,
+          admin: { email, password: "password123456" },
+        });
+
+      expect(response.status).toBe(403);
+      expect(await prisma.user.count({ where: { email } })).toBe(0);
+    });
+
+    it("should return 403 if the platform key is wrong", async () => {
+      const response = await request(app.server)
+        .post("/organizations")
+        .set("X-Platform-Key", "wrong-key")
+        .send({
+          name: `Escritório${TEST_ORGANIZATION_NAME_SUFFIX}`,
+          admin: {
+            email: `admin.${Date.now()}${TEST_EMAIL_SUFFIX}`,
+            password: "password123456",
+          },
+        });
+
+      expect(response.status).toBe(403);
+    });
+  });
+
+  describe("GET /organizations/me", () => {
+    it("should return the organization of the authenticated user", async () => {
+      const { user, plainPassword } = await createTestUser({
+        role: "VIEWER",
+      });
+      const token = await loginAndGetToken(user.email, plainPassword);
+
+      const response = await request(app.server)
+        .get("/organizations/me")
+        .set("Authorization", `Bearer ${token}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.id).toBe(TEST_ORGANIZATION_ID);
+    });
+  });
+
+  describe("PUT /organizations/me", () => {
+    it("should allow an ORG_ADMIN to rename the organization", async () => {
+      const { user, plainPassword } = await createTestUser({
+        role: "ORG_ADMIN",
+      });
+      const token = await loginAndGetToken(user.email, plainPassword);
+      const name = `Renomeado${TEST_ORGANIZATION_NAME_SUFFIX}`;
+
+      const response = await request(app.server)
+        .put("/organizations/me")
+        .set("Authorization", `Bearer ${token}`)
+        .send({ name });
+
+      expect(response.status).toBe(200);
+      expect(response.body.name).toBe(name);
+    });
+
+    it("should return 403 if an ADVISOR tries to rename the organization", async () => {
+      const { user, plainPassword } = await createTestUser({
+        role: "ADVISOR",
+      });
+      const token = await loginAndGetToken(user.email, plainPassword);
+
+      const response = await request(app.server)
+        .put("/organizations/me")
+        .set("Authorization", `Bearer ${token}`)
+        .send({ name: `Renomeado${TEST_ORGANIZATION_NAME_SUFFIX}` });
+
+      expect(response.status).toBe(403);
+    });
+  });
+});
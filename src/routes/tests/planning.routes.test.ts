@@ -4,6 +4,7 @@ import { loginAndGetToken } from "./utils/auth-helper";
 import { prisma } from "../../lib/prisma";
 import {
   createTestGoal,
+  getTestGoalDescription,
   TEST_GOAL_DESCRIPTION_SUFFIX,
 } from "./factories/goal-factory";
 import { createTestWallet, TEST_ASSET_CLASS } from "./factories/wallet-factory";
@@ -27,12 +28,14 @@ const businessLogicTestCases = [
 ];
 
 describe("Planning Routes (GET /alignment)", () => {
+  let advisorId: string;
   let advisorToken: string;
 
   beforeEach(async () => {
     const { user: advisor, plainPassword } = await createTestUser({
       role: "ADVISOR",
     });
+    advisorId = advisor.id;
     advisorToken = await loginAndGetToken(advisor.email, plainPassword);
   });
 
@@ -76,7 +79,7 @@ describe("Planning Routes (GET /alignment)", () => {
 
   describe("Authorization", () => {
     it("should allow an ADVISOR to get alignment for any client", async () => {
-      const client = await createTestClient();
+      const client = await createTestClient({ advisorId });
       await createTestWallet({ clientId: client.id });
       await createTestGoal({ clientId: client.id });
 
@@ -107,7 +110,7 @@ describe("Planning Routes (GET /alignment)", () => {
     });
 
     it("should return 401 if authentication token is not provided", async () => {
-      const targetClient = await createTestClient();
+      const targetClient = await createTestClient({ advisorId });
 
       const response = await request(app.server).get(
         `/clients/${targetClient.id}/alignment`
@@ -118,7 +121,7 @@ describe("Planning Routes (GET /alignment)", () => {
     });
 
     it("should return 403 if a VIEWER tries to get alignment of ANOTHER client", async () => {
-      const targetClient = await createTestClient();
+      const targetClient = await createTestClient({ advisorId });
       const { user: attacker, plainPassword } = await createTestUser({
         role: "VIEWER",
       });
@@ -140,7 +143,7 @@ describe("Planning Routes (GET /alignment)", () => {
     "Business Logic - Single Goal Alignment",
     ({ category, patrimony = 0 }) => {
       it(`should categorize as "${category}" at ${patrimony}% of alignment`, async () => {
-        const client = await createTestClient();
+        const client = await createTestClient({ advisorId });
         await createTestWallet({
           clientId: client.id,
           totalValue: patrimony,
@@ -165,7 +168,7 @@ describe("Planning Routes (GET /alignment)", () => {
 
   describe("Business Logic - Other Alignments", () => {
     it(`should categorize as "green" and 100% alignment with zeroed goals`, async () => {
-      const client = await createTestClient();
+      const client = await createTestClient({ advisorId });
       await createTestWallet({
         clientId: client.id,
         totalValue: 0,
@@ -187,7 +190,7 @@ describe("Planning Routes (GET /alignment)", () => {
     });
 
     it("should correctly calculate alignment with multiple goals", async () => {
-      const client = await createTestClient();
+      const client = await createTestClient({ advisorId });
       await createTestWallet({
         clientId: client.id,
         totalValue: 1000,
@@ -217,9 +220,220 @@ describe("Planning Routes (GET /alignment)", () => {
     });
   });
 
+  describe("Business Logic - Time-Aware Alignment", () => {
+    it("should list each goal with its required and funded values", async () => {
+      const client = await createTestClient({ advisorId });
+      await createTestWallet({ clientId: client.id, totalValue: 5000 });
+      await createTestGoal({
+        clientId: client.id,
+        overrides: { targetValue: 3000, targetDate: new Date("2030-01-01") },
+      });
+      await createTestGoal({
+        clientId: client.id,
+        overrides: { targetValue: 4000, targetDate: new Date("2040-01-01") },
+      });
+
+      const response = await request(app.server)
+        .get(`/clients/${client.id}/alignment`)
+        .set("Authorization", `Bearer ${advisorToken}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.method).toBe("current");
+      expect(response.body.goals).toHaveLength(2);
+      expect(response.body.goals[0].fundedValue).toBe("3000.00");
+      expect(response.body.goals[0].alignmentPercentage).toBe("100.00");
+      expect(response.body.goals[1].fundedValue).toBe("2000.00");
+      expect(response.body.goals[1].alignmentPercentage).toBe("50.00");
+    });
+
+    it("should flag underfunded goals and explain the category", async () => {
+      const client = await createTestClient({ advisorId });
+      await createTestWallet({ clientId: client.id, totalValue: 5000 });
+      await createTestGoal({
+        clientId: client.id,
+        overrides: { targetValue: 3000, targetDate: new Date("2030-01-01") },
+      });
+      await createTestGoal({
+        clientId: client.id,
+        overrides: { targetValue: 5000, targetDate: new Date("2040-01-01") },
+      });
+
+      const response = await request(app.server)
+        .get(`/clients/${client.id}/alignment`)
+        .set("Authorization", `Bearer ${advisorToken}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.category).toBe("yellow-dark");
+      expect(response.body.goals[0]).toMatchObject({
+        underfunded: false,
+        shortfall: "0.00",
+        contribution: "37.50",
+      });
+      expect(response.body.goals[1]).toMatchObject({
+        underfunded: true,
+        shortfall: "3000.00",
+        contribution: "25.00",
+      });
+      expect(response.body.reason).toContain('"Amarelo escuro"');
+      expect(response.body.reason).toContain("1 de 2 metas está subfinanciada");
+    });
+
+    it("should discount distant goals with the present-value method", async () => {
+      const client = await createTestClient({ advisorId });
+      await createTestWallet({ clientId: client.id, totalValue: 50000 });
+      await createTestGoal({
+        clientId: client.id,
+        overrides: { targetValue: 100000, targetDate: new Date("2060-01-01") },
+      });
+
+      const current = await request(app.server)
+        .get(`/clients/${client.id}/alignment`)
+        .set("Authorization", `Bearer ${advisorToken}`);
+      const presentValue = await request(app.server)
+        .get(`/clients/${client.id}/alignment`)
+        .query({ method: "present-value", annualRate: 4 })
+        .set("Authorization", `Bearer ${advisorToken}`);
+
+      expect(presentValue.status).toBe(200);
+      expect(presentValue.body.method).toBe("present-value");
+      expect(Number(presentValue.body.goals[0].requiredValue)).toBeLessThan(
+        100000
+      );
+      expect(Number(presentValue.body.alignmentPercentage)).toBeGreaterThan(
+        Number(current.body.alignmentPercentage)
+      );
+      expect(presentValue.body.category).toBe("green");
+    });
+
+    it("should compare the projected wealth at each target date with the projected method", async () => {
+      const client = await createTestClient({ advisorId });
+      await createTestWallet({ clientId: client.id, totalValue: 50000 });
+      await createTestGoal({
+        clientId: client.id,
+        overrides: { targetValue: 100000, targetDate: new Date("2060-01-01") },
+      });
+
+      const response = await request(app.server)
+        .get(`/clients/${client.id}/alignment`)
+        .query({ method: "projected", annualRate: 4 })
+        .set("Authorization", `Bearer ${advisorToken}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.method).toBe("projected");
+      expect(response.body.goals[0].requiredValue).toBe("100000.00");
+      expect(Number(response.body.goals[0].fundedValue)).toBeGreaterThan(50000);
+      expect(response.body.category).toBe("green");
+    });
+
+    it("should return 400 for an unknown method", async () => {
+      const client = await createTestClient({ advisorId });
+
+      const response = await request(app.server)
+        .get(`/clients/${client.id}/alignment`)
+        .query({ method: "future" })
+        .set("Authorization", `Bearer ${advisorToken}`);
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe("GET /clients/:clientId/alignment/history", () => {
+    it("should record the alignment whenever the wallet or goals change", async () => {
+      const client = await createTestClient({ advisorId });
+
+      await request(app.server)
+        .put(`/clients/${client.id}/wallet`)
+        .set("Authorization", `Bearer ${advisorToken}`)
+        .send({ totalValue: 30000, assetClasses: [TEST_ASSET_CLASS] });
+      const { body: goal } = await request(app.server)
+        .post(`/clients/${client.id}/goals`)
+        .set("Authorization", `Bearer ${advisorToken}`)
+        .send({
+          description: getTestGoalDescription("Casa"),
+          targetValue: 100000,
+          targetDate: "2040-01-01",
+        });
+      await request(app.server)
+        .put(`/clients/${client.id}/wallet`)
+        .set("Authorization", `Bearer ${advisorToken}`)
+        .send({ totalValue: 60000, assetClasses: [TEST_ASSET_CLASS] });
+      await request(app.server)
+        .put(`/goals/${goal.id}`)
+        .set("Authorization", `Bearer ${advisorToken}`)
+        .send({ targetValue: 75000 });
+
+      const response = await request(app.server)
+        .get(`/clients/${client.id}/alignment/history`)
+        .set("Authorization", `Bearer ${advisorToken}`);
+
+      expect(response.status).toBe(200);
+      expect(
+        response.body.points.map(
+          (point: { alignmentPercentage: string; category: string }) => [
+            point.alignmentPercentage,
+            point.category,
+          ]
+        )
+      ).toEqual([
+        ["30.00", "red"],
+        ["60.00", "yellow-dark"],
+        ["80.00", "yellow-light"],
+      ]);
+      expect(response.body.trend).toBe("IMPROVING");
+      expect(response.body.change).toBe("50.00");
+    });
+
+    it("should record a 0% alignment when the wallet is deleted", async () => {
+      const client = await createTestClient({ advisorId });
+      await createTestGoal({ clientId: client.id });
+
+      await request(app.server)
+        .put(`/clients/${client.id}/wallet`)
+        .set("Authorization", `Bearer ${advisorToken}`)
+        .send({ totalValue: 60000, assetClasses: [TEST_ASSET_CLASS] });
+      await request(app.server)
+        .delete(`/clients/${client.id}/wallet`)
+        .set("Authorization", `Bearer ${advisorToken}`);
+
+      const response = await request(app.server)
+        .get(`/clients/${client.id}/alignment/history`)
+        .set("Authorization", `Bearer ${advisorToken}`);
+
+      expect(response.status).toBe(200);
+      expect(
+        response.body.points.map(
+          (point: { alignmentPercentage: string }) => point.alignmentPercentage
+        )
+      ).toEqual(["60.00", "0.00"]);
+      expect(response.body.trend).toBe("DECLINING");
+    });
+
+    it("should return an empty history without a trend when nothing was recorded", async () => {
+      const client = await createTestClient({ advisorId });
+
+      const response = await request(app.server)
+        .get(`/clients/${client.id}/alignment/history`)
+        .set("Authorization", `Bearer ${advisorToken}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.points).toEqual([]);
+      expect(response.body.trend).toBeNull();
+    });
+
+    it("should return 404 if the client does not exist", async () => {
+      const nonExistentId = "00000000-0000-0000-0000-000000000000";
+
+      const response = await request(app.server)
+        .get(`/clients/${nonExistentId}/alignment/history`)
+        .set("Authorization", `Bearer ${advisorToken}`);
+
+      expect(response.status).toBe(404);
+    });
+  });
+
   describe("Error Handling", () => {
     it("should return 400 if client has no wallet", async () => {
-      const client = await createTestClient();
+      const client = await createTestClient({ advisorId });
       await createTestGoal({ clientId: client.id });
 
       const response = await request(app.server)
@@ -233,7 +447,7 @@ describe("Planning Routes (GET /alignment)", () => {
     });
 
     it("should return 400 if client has no goals", async () => {
-      const client = await createTestClient();
+      const client = await createTestClient({ advisorId });
       await createTestWallet({ clientId: client.id });
 
       const response = await request(app.server)
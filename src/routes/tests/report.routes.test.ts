@@ -0,0 +1,110 @@
+import request from "supertest";
+import { app } from "../../server";
+import { prisma } from "../../lib/prisma";
+import { createTestUser, TEST_EMAIL_SUFFIX } from "./factories/user-factory";
+import { loginAndGetToken } from "./utils/auth-helper";
+import { createTestClient } from "./factories/client-factory";
+import { createTestWallet } from "./factories/wallet-factory";
+import { createTestGoal } from "./factories/goal-factory";
+import { createTestEvent } from "./factories/event-factory";
+import { createTestInsurance } from "./factories/insurance-factory";
+
+describe("Report Routes", () => {
+  let advisorId: string;
+  let advisorToken: string;
+
+  beforeAll(async () => {
+    await app.ready();
+  });
+
+  beforeEach(async () => {
+    const { user: advisor, plainPassword } = await createTestUser({
+      role: "ADVISOR",
+    });
+    advisorId = advisor.id;
+    advisorToken = await loginAndGetToken(advisor.email, plainPassword);
+  });
+
+  afterEach(async () => {
+    await prisma.user.deleteMany({
+      where: {
+        email: {
+          endsWith: TEST_EMAIL_SUFFIX,
+        },
+      },
+    });
+    await prisma.client.deleteMany({
+      where: {
+        email: {
+          endsWith: TEST_EMAIL_SUFFIX,
+        },
+      },
+    });
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  describe("GET /clients/:clientId/report.pdf", () => {
+    it("should allow an ADVISOR to download a client's PDF report", async () => {
+      const client = await createTestClient({ advisorId });
+      await createTestWallet({ clientId: client.id });
+      await createTestGoal({ clientId: client.id });
+      await createTestEvent({ clientId: client.id });
+      await createTestInsurance({ clientId: client.id });
+
+      const response = await request(app.server)
+        .get(`/clients/${client.id}/report.pdf`)
+        .set("Authorization", `Bearer ${advisorToken}`)
+        .responseType("blob");
+
+      expect(response.status).toBe(200);
+      expect(response.headers["content-type"]).toBe("application/pdf");
+      expect(response.headers["content-disposition"]).toContain(
+        `relatorio-${client.id}.pdf`
+      );
+      expect(response.body.subarray(0, 5).toString()).toBe("%PDF-");
+    });
+
+    it("should allow a VIEWER to download THEIR OWN report, even without a plan", async () => {
+      const { user: viewer, plainPassword } = await createTestUser({
+        role: "VIEWER",
+      });
+      const viewerToken = await loginAndGetToken(viewer.email, plainPassword);
+
+      const response = await request(app.server)
+        .get(`/clients/${viewer.clientId}/report.pdf`)
+        .set("Authorization", `Bearer ${viewerToken}`)
+        .responseType("blob");
+
+      expect(response.status).toBe(200);
+      expect(response.headers["content-type"]).toBe("application/pdf");
+    });
+
+    it("should return 403 if a VIEWER tries to download ANOTHER client's report", async () => {
+      const client = await createTestClient({ advisorId });
+      const { user: viewer, plainPassword } = await createTestUser({
+        role: "VIEWER",
+      });
+      const viewerToken = await loginAndGetToken(viewer.email, plainPassword);
+
+      const response = await request(app.server)
+        .get(`/clients/${client.id}/report.pdf`)
+        .set("Authorization", `Bearer ${viewerToken}`);
+
+      expect(response.status).toBe(403);
+    });
+
+    it("should return 404 for a non-existent client", async () => {
+      const nonExistentId = "00000000-0000-0000-0000-000000000000";
+
+      const response = await request(app.server)
+        .get(`/clients/${nonExistentId}/report.pdf`)
+        .set("Authorization", `Bearer ${advisorToken}`);
+
+      expect(response.status).toBe(404);
+      expect(response.body).toHaveProperty("message");
+    });
+  });
+});
@@ -41,6 +41,7 @@ describe("Session Routes (POST /sessions)", () => {
     expect(response.status).toBe(200);
     expect(response.body).toHaveProperty("token");
     expect(typeof response.body.token).toBe("string");
+    expect(typeof response.body.refreshToken).toBe("string");
   });
 
   it("should be able to authenticate and return a JWT with correct payload", async () => {
@@ -58,7 +59,9 @@ describe("Session Routes (POST /sessions)", () => {
 
     expect(decodedToken.sub).toBe(user.id);
     expect(decodedToken.role).toBe(user.role);
+    expect(decodedToken.organizationId).toBe(user.organizationId);
     expect(decodedToken.clientId).toBe(user.clientId);
+    expect(decodedToken.sid).toBeDefined();
     expect(decodedToken.iat).toBeDefined();
     expect(decodedToken.exp).toBeDefined();
   });
@@ -99,4 +102,214 @@ describe("Session Routes (POST /sessions)", () => {
     expect(response.statusCode).toBe(400);
     expect(response.body).toHaveProperty("message");
   });
+
+  describe("POST /sessions/refresh", () => {
+    it("should rotate the refresh token and issue a new access token", async () => {
+      const { user, plainPassword } = await createTestUser({ role: "VIEWER" });
+      const login = await request(app.server)
+        .post("/sessions")
+        .send({ email: user.email, password: plainPassword });
+
+      const response = await request(app.server)
+        .post("/sessions/refresh")
+        .send({ refreshToken: login.body.refreshToken });
+
+      expect(response.status).toBe(200);
+      expect(response.body.refreshToken).not.toBe(login.body.refreshToken);
+
+      const meResponse = await request(app.server)
+        .get("/me")
+        .set("Authorization", `Bearer ${response.body.token}`);
+
+      expect(meResponse.status).toBe(200);
+      expect(meResponse.body.id).toBe(user.id);
+    });
+
+    it("should revoke the whole session when a refresh token is reused", async () => {
+      const { user, plainPassword } = await createTestUser({ role: "VIEWER" });
+      const login = await request(app.server)
+        .post("/sessions")
+        .send({ email: user.email, password: plainPassword });
+
+      const rotated = await request(app.server)
+        .post("/sessions/refresh")
+        .send({ refreshToken: login.body.refreshToken });
+
+      const reused = await request(app.server)
+        .post("/sessions/refresh")
+        .send({ refreshToken: login.body.refreshToken });
+
+      expect(reused.status).toBe(401);
+
+      const afterReuse = await request(app.server)
+        .post("/sessions/refresh")
+        .send({ refreshToken: rotated.body.refreshToken });
+
+      expect(afterReuse.status).toBe(401);
+
+      const meResponse = await request(app.server)
+        .get("/me")
+        .set("Authorization", `Bearer ${rotated.body.token}`);
+
+      expect(meResponse.status).toBe(401);
+    });
+
+    it("should return 401 for an unknown refresh token", async () => {
+      const response = await request(app.server)
+        .post("/sessions/refresh")
+        .send({ refreshToken: `unknown-${Date.now()}` });
+
+      expect(response.status).toBe(401);
+      expect(response.body).toHaveProperty("message");
+    });
+  });
+
+  describe("DELETE /sessions", () => {
+    it("should log out and reject the access and refresh tokens", async () => {
+      const { user, plainPassword } = await createTestUser({ role: "VIEWER" });
+      const login = await request(app.server)
+        .post("/sessions")
+        .send({ email: user.email, password: plainPassword });
+
+      const response = await request(app.server)
+        .delete("/sessions")
+        .set("Authorization", `Bearer ${login.body.token}`);
+
+      expect(response.status).toBe(204);
+
+      const meResponse = await request(app.server)
+        .get("/me")
+        .set("Authorization", `Bearer ${login.body.token}`);
+
+      expect(meResponse.status).toBe(401);
+
+      const refreshResponse = await request(app.server)
+        .post("/sessions/refresh")
+        .send({ refreshToken: login.body.refreshToken });
+
+      expect(refreshResponse.status).toBe(401);
+    });
+
+    it("should reject the token of a deleted user", async () => {
+      const { user, plainPassword } = await createTestUser({ role: "VIEWER" });
+      const login = await request(app.server)
+        .post("/sessions")
+        .send({ email: user.email, password: plainPassword });
+
+      await prisma.user.delete({ where: { id: user.id } });
+
+      const meResponse = await request(app.server)
+        .get("/me")
+        .set("Authorization", `Bearer ${login.body.token}`);
+
+      expect(meResponse.status).toBe(401);
+    });
+  });
+
+  describe("Active Sessions (/me/sessions)", () => {
+    async function login(email: string, password: string, userAgent: string) {
+      const response = await request(app.server)
+        .post("/sessions")
+        .set("User-Agent", userAgent)
+        .send({ email, password });
+
+      return response.body as { token: string; refreshToken: string };
+    }
+
+    it("should list the active sessions and flag the current one", async () => {
+      const { user, plainPassword } = await createTestUser({ role: "VIEWER" });
+      const laptop = await login(user.email, plainPassword, "Laptop");
+      await login(user.email, plainPassword, "Phone");
+
+      const response = await request(app.server)
+        .get("/me/sessions")
+        .set("Authorization", `Bearer ${laptop.token}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.sessions).toHaveLength(2);
+
+      const current = response.body.sessions.find(
+        (session: { current: boolean }) => session.current
+      );
+      expect(current.userAgent).toBe("Laptop");
+      expect(current).toHaveProperty("ipAddress");
+      expect(current).toHaveProperty("lastUsedAt");
+    });
+
+    it("should leave out sessions whose refresh token has expired", async () => {
+      const { user, plainPassword } = await createTestUser({ role: "VIEWER" });
+      const laptop = await login(user.email, plainPassword, "Laptop");
+      const phone = await login(user.email, plainPassword, "Phone");
+      const phoneSessionId = app.jwt.verify<AuthenticatedUser>(phone.token).sid;
+      await prisma.refreshToken.updateMany({
+        where: { sessionId: phoneSessionId },
+        data: { expiresAt: new Date(Date.now() - 1000) },
+      });
+
+      const response = await request(app.server)
+        .get("/me/sessions")
+        .set("Authorization", `Bearer ${laptop.token}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.sessions).toHaveLength(1);
+      expect(response.body.sessions[0].userAgent).toBe("Laptop");
+    });
+
+    it("should end a specific session", async () => {
+      const { user, plainPassword } = await createTestUser({ role: "VIEWER" });
+      const laptop = await login(user.email, plainPassword, "Laptop");
+      const phone = await login(user.email, plainPassword, "Phone");
+      const phoneSessionId = app.jwt.verify<AuthenticatedUser>(phone.token).sid;
+
+      const response = await request(app.server)
+        .delete(`/me/sessions/${phoneSessionId}`)
+        .set("Authorization", `Bearer ${laptop.token}`);
+
+      expect(response.status).toBe(204);
+
+      const phoneResponse = await request(app.server)
+        .get("/me")
+        .set("Authorization", `Bearer ${phone.token}`);
+      expect(phoneResponse.status).toBe(401);
+
+      const laptopResponse = await request(app.server)
+        .get("/me")
+        .set("Authorization", `Bearer ${laptop.token}`);
+      expect(laptopResponse.status).toBe(200);
+    });
+
+    it("should return 404 when ending a session of another user", async () => {
+      const { user, plainPassword } = await createTestUser({ role: "VIEWER" });
+      const { user: otherUser, plainPassword: otherPassword } =
+        await createTestUser({ role: "VIEWER" });
+      const own = await login(user.email, plainPassword, "Laptop");
+      const other = await login(otherUser.email, otherPassword, "Laptop");
+      const otherSessionId = app.jwt.verify<AuthenticatedUser>(other.token).sid;
+
+      const response = await request(app.server)
+        .delete(`/me/sessions/${otherSessionId}`)
+        .set("Authorization", `Bearer ${own.token}`);
+
+      expect(response.status).toBe(404);
+    });
+
+    it("should log out everywhere", async () => {
+      const { user, plainPassword } = await createTestUser({ role: "VIEWER" });
+      const laptop = await login(user.email, plainPassword, "Laptop");
+      const phone = await login(user.email, plainPassword, "Phone");
+
+      const response = await request(app.server)
+        .delete("/me/sessions")
+        .set("Authorization", `Bearer ${laptop.token}`);
+
+      expect(response.status).toBe(204);
+
+      for (const { token } of [laptop, phone]) {
+        const meResponse = await request(app.server)
+          .get("/me")
+          .set("Authorization", `Bearer ${token}`);
+        expect(meResponse.status).toBe(401);
+      }
+    });
+  });
 });
@@ -0,0 +1,205 @@
+import request from "supertest";
+import { app } from "../../server";
+import { prisma } from "../../lib/prisma";
+import { createTestUser, TEST_EMAIL_SUFFIX } from "./factories/user-factory";
+import { loginAndGetToken } from "./utils/auth-helper";
+import { createTestClient } from "./factories/client-factory";
+import { createTestWallet, TEST_ASSET_CLASS } from "./factories/wallet-factory";
+import {
+  createTestGoal,
+  TEST_GOAL_DESCRIPTION_SUFFIX,
+} from "./factories/goal-factory";
+
+const customBands = [
+  { category: "blue", label: "Azul", color: "#2563eb", minPercentage: 120 },
+  { category: "green", label: "Verde", color: "#16a34a", minPercentage: 80 },
+  { category: "red", label: "Vermelho", color: "#dc2626", minPercentage: 0 },
+];
+
+describe("Settings Routes (/settings/alignment)", () => {
+  let advisorId: string;
+  let advisorToken: string;
+  let adminToken: string;
+
+  beforeAll(async () => {
+    await app.ready();
+  });
+
+  beforeEach(async () => {
+    const { user: advisor, plainPassword } = await createTestUser({
+      role: "ADVISOR",
+    });
+    advisorId = advisor.id;
+    advisorToken = await loginAndGetToken(advisor.email, plainPassword);
+
+    const { user: admin, plainPassword: adminPassword } = await createTestUser({
+      role: "ORG_ADMIN",
+    });
+    adminToken = await loginAndGetToken(admin.email, adminPassword);
+  });
+
+  afterEach(async () => {
+    await prisma.alignmentBand.deleteMany();
+    await prisma.wallet.deleteMany({
+      where: {
+        assetClasses: {
+          equals: TEST_ASSET_CLASS,
+        },
+      },
+    });
+    await prisma.goal.deleteMany({
+      where: {
+        description: {
+          endsWith: TEST_GOAL_DESCRIPTION_SUFFIX,
+        },
+      },
+    });
+    await prisma.user.deleteMany({
+      where: {
+        email: {
+          endsWith: TEST_EMAIL_SUFFIX,
+        },
+      },
+    });
+    await prisma.client.deleteMany({
+      where: {
+        email: {
+          endsWith: TEST_EMAIL_SUFFIX,
+        },
+      },
+    });
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  describe("GET /settings/alignment", () => {
+    it("should return the default bands when none are configured", async () => {
+      const response = await request(app.server)
+        .get("/settings/alignment")
+        .set("Authorization", `Bearer ${advisorToken}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.isDefault).toBe(true);
+      expect(
+        response.body.bands.map((band: { category: string }) => band.category)
+      ).toEqual(["green", "yellow-light", "yellow-dark", "red"]);
+    });
+  });
+
+  describe("PUT /settings/alignment", () => {
+    it("should allow an ORG_ADMIN to replace the bands", async () => {
+      const response = await request(app.server)
+        .put("/settings/alignment")
+        .set("Authorization", `Bearer ${adminToken}`)
+        .send({ bands: customBands });
+
+      expect(response.status).toBe(200);
+      expect(response.body.isDefault).toBe(false);
+      expect(response.body.bands).toHaveLength(3);
+      expect(response.body.bands[0]).toEqual({
+        category: "blue",
+        label: "Azul",
+        color: "#2563eb",
+        minPercentage: "120",
+        minInclusive: true,
+      });
+    });
+
+    it("should categorize alignments with the configured bands", async () => {
+      await request(app.server)
+        .put("/settings/alignment")
+        .set("Authorization", `Bearer ${adminToken}`)
+        .send({ bands: customBands });
+
+      const client = await createTestClient({ advisorId });
+      await createTestWallet({ clientId: client.id, totalValue: 150000 });
+      await createTestGoal({
+        clientId: client.id,
+        overrides: { targetValue: 100000 },
+      });
+
+      const response = await request(app.server)
+        .get(`/clients/${client.id}/alignment`)
+        .set("Authorization", `Bearer ${advisorToken}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.category).toBe("blue");
+      expect(response.body.band.label).toBe("Azul");
+      expect(response.body.reason).toContain('"Azul" (a partir de 120%)');
+    });
+
+    it("should return 400 if no band starts at 0%", async () => {
+      const response = await request(app.server)
+        .put("/settings/alignment")
+        .set("Authorization", `Bearer ${adminToken}`)
+        .send({ bands: customBands.slice(0, 2) });
+
+      expect(response.status).toBe(400);
+    });
+
+    it("should return 400 for duplicated categories", async () => {
+      const response = await request(app.server)
+        .put("/settings/alignment")
+        .set("Authorization", `Bearer ${adminToken}`)
+        .send({
+          bands: [...customBands, { ...customBands[0], minPercentage: 150 }],
+        });
+
+      expect(response.status).toBe(400);
+    });
+
+    it("should return 403 if an ADVISOR tries to replace the bands", async () => {
+      const response = await request(app.server)
+        .put("/settings/alignment")
+        .set("Authorization", `Bearer ${advisorToken}`)
+        .send({ bands: customBands });
+
+      expect(response.status).toBe(403);
+    });
+
+    it("should return 403 if a VIEWER tries to replace the bands", async () => {
+      const { user: viewer, plainPassword } = await createTestUser({
+        role: "VIEWER",
+      });
+      const viewerToken = await loginAndGetToken(viewer.email, plainPassword);
+
+      const response = await request(app.server)
+        .put("/settings/alignment")
+        .set("Authorization", `Bearer ${viewerToken}`)
+        .send({ bands: customBands });
+
+      expect(response.status).toBe(403);
+    });
+  });
+
+  describe("DELETE /settings/alignment", () => {
+    it("should restore the default bands", async () => {
+      await request(app.server)
+        .put("/settings/alignment")
+        .set("Authorization", `Bearer ${adminToken}`)
+        .send({ bands: customBands });
+
+      const response = await request(app.server)
+        .delete("/settings/alignment")
+        .set("Authorization", `Bearer ${adminToken}`);
+
+      expect(response.status).toBe(204);
+
+      const settings = await request(app.server)
+        .get("/settings/alignment")
+        .set("Authorization", `Bearer ${advisorToken}`);
+
+      expect(settings.body.isDefault).toBe(true);
+    });
+
+    it("should return 403 if an ADVISOR tries to restore the default bands", async () => {
+      const response = await request(app.server)
+        .delete("/settings/alignment")
+        .set("Authorization", `Bearer ${advisorToken}`);
+
+      expect(response.status).toBe(403);
+    });
+  });
+});
@@ -3,17 +3,26 @@ import { createTestUser, TEST_EMAIL_SUFFIX } from "./factories/user-factory";
 import { loginAndGetToken } from "./utils/auth-helper";
 import { prisma } from "../../lib/prisma";
 import { createTestWallet, TEST_ASSET_CLASS } from "./factories/wallet-factory";
-import { TEST_EVENT_DESCRIPTION_SUFFIX } from "./factories/event-factory";
+import {
+  createTestEvent,
+  TEST_EVENT_DESCRIPTION_SUFFIX,
+} from "./factories/event-factory";
 import { app } from "../../server";
 import { createTestClient } from "./factories/client-factory";
+import { createTestGoal } from "./factories/goal-factory";
 import { Decimal } from "@prisma/client/runtime/library";
 import { calculateMonthlyRate } from "../../utils/finance";
+import {
+  createTestMarketAssumption,
+  TEST_ASSET_CLASS_NAME_SUFFIX,
+} from "./factories/market-assumption-factory";
 import {
   createTestSimulation,
   TEST_PROJECTION,
 } from "./factories/simulation-factory";
 
 describe("Simulation & Projection Routes", () => {
+  let advisorId: string;
   let advisorToken: string;
 
   beforeAll(async () => {
@@ -24,6 +33,7 @@ describe("Simulation & Projection Routes", () => {
     const { user: advisor, plainPassword } = await createTestUser({
       role: "ADVISOR",
     });
+    advisorId = advisor.id;
     advisorToken = await loginAndGetToken(advisor.email, plainPassword);
   });
 
@@ -35,6 +45,13 @@ describe("Simulation & Projection Routes", () => {
         },
       },
     });
+    await prisma.capitalMarketAssumption.deleteMany({
+      where: {
+        className: {
+          endsWith: TEST_ASSET_CLASS_NAME_SUFFIX,
+        },
+      },
+    });
     await prisma.event.deleteMany({
       where: {
         description: {
@@ -71,7 +88,7 @@ describe("Simulation & Projection Routes", () => {
 
   describe("POST /clients/:clientId/projections", () => {
     it("should allow an ADVISOR to generate a projection for a client successfully", async () => {
-      const client = await createTestClient();
+      const client = await createTestClient({ advisorId });
       await createTestWallet({ clientId: client.id, totalValue: 100000 });
 
       const response = await request(app.server)
@@ -108,7 +125,7 @@ describe("Simulation & Projection Routes", () => {
     });
 
     it("should return 401 if authentication token is not provided", async () => {
-      const targetClient = await createTestClient();
+      const targetClient = await createTestClient({ advisorId });
 
       const response = await request(app.server).get(
         `/clients/${targetClient.id}/alignment`
@@ -119,7 +136,7 @@ describe("Simulation & Projection Routes", () => {
     });
 
     it("should return 403 if a VIEWER tries to generate a projection for ANOTHER client", async () => {
-      const targetClient = await createTestClient();
+      const targetClient = await createTestClient({ advisorId });
       const { user: attacker, plainPassword } = await createTestUser({
         role: "VIEWER",
       });
@@ -138,7 +155,7 @@ describe("Simulation & Projection Routes", () => {
     });
 
     it("should return 400 if the client does not have a wallet", async () => {
-      const client = await createTestClient();
+      const client = await createTestClient({ advisorId });
 
       const response = await request(app.server)
         .post(`/clients/${client.id}/projections`)
@@ -150,7 +167,7 @@ describe("Simulation & Projection Routes", () => {
     });
 
     it("should use the default annual rate of 4% if none is provided", async () => {
-      const client = await createTestClient();
+      const client = await createTestClient({ advisorId });
       const initialValue = 100000;
       await createTestWallet({ clientId: client.id, totalValue: initialValue });
 
@@ -176,202 +193,1312 @@ describe("Simulation & Projection Routes", () => {
     });
   });
 
-  describe("Simulation Management (/simulations)", () => {
-    describe("POST /clients/:clientId/simulations", () => {
-      it("should allow an ADVISOR to save a simulation for a client", async () => {
-        const client = await createTestClient();
+  describe("POST /clients/:clientId/projections (export)", () => {
+    it("should export the projection as CSV when requested via the format query", async () => {
+      const client = await createTestClient({ advisorId });
+      await createTestWallet({ clientId: client.id, totalValue: 100000 });
 
-        const response = await request(app.server)
-          .post(`/clients/${client.id}/simulations`)
-          .set("Authorization", `Bearer ${advisorToken}`)
-          .send({
-            projectionData: TEST_PROJECTION,
-            rate: 5,
-          });
+      const response = await request(app.server)
+        .post(`/clients/${client.id}/projections?format=csv`)
+        .set("Authorization", `Bearer ${advisorToken}`)
+        .send({ annualRate: 5, startDate: "2030-01-01", endYear: 2035 });
 
-        expect(response.status).toBe(201);
-        expect(response.body).toHaveProperty("id");
-        expect(response.body.clientId).toBe(client.id);
-      });
+      expect(response.status).toBe(200);
+      expect(response.headers["content-type"]).toContain("text/csv");
+      expect(response.headers["content-disposition"]).toContain(
+        `projection-${client.id}.csv`
+      );
+      expect(response.text).toContain("year,projectedValue");
+      expect(response.text).toContain("walletValue,100000");
+    });
 
-      it("should allow a VIEWER to save a simulation for THEMSELVES", async () => {
-        const { user: viewer, plainPassword } = await createTestUser({
-          role: "VIEWER",
+    it("should export the projection as XLSX when requested via the Accept header", async () => {
+      const client = await createTestClient({ advisorId });
+      await createTestWallet({ clientId: client.id, totalValue: 100000 });
+
+      const response = await request(app.server)
+        .post(`/clients/${client.id}/projections`)
+        .set("Authorization", `Bearer ${advisorToken}`)
+        .set(
+          "Accept",
+          "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+        )
+        .responseType("blob")
+        .send({ annualRate: 5 });
+
+      expect(response.status).toBe(200);
+      expect(response.headers["content-type"]).toContain("spreadsheetml.sheet");
+      expect(response.body.subarray(0, 2).toString()).toBe("PK");
+    });
+  });
+
+  describe("POST /clients/:clientId/projections (taxes and fees)", () => {
+    it("should return the pre-tax and post-tax curves", async () => {
+      const client = await createTestClient({ advisorId });
+      await createTestWallet({ clientId: client.id, totalValue: 100000 });
+
+      const response = await request(app.server)
+        .post(`/clients/${client.id}/projections`)
+        .set("Authorization", `Bearer ${advisorToken}`)
+        .send({
+          annualRate: 10,
+          startDate: "2030-01-01",
+          endYear: 2030,
+          managementFee: 1,
         });
-        const viewerToken = await loginAndGetToken(viewer.email, plainPassword);
 
-        const response = await request(app.server)
-          .post(`/clients/${viewer.clientId}/simulations`)
-          .set("Authorization", `Bearer ${viewerToken}`)
-          .send({
-            projectionData: TEST_PROJECTION,
-            rate: 5,
-          });
+      expect(response.status).toBe(200);
+      expect(response.body[0].projectedValue).toBe("110000.00");
+      expect(response.body[0].postTaxValue).toBe("108900.00");
+      expect(response.body[0]).toHaveProperty("postTaxRealValue");
+    });
 
-        expect(response.status).toBe(201);
-        expect(response.body).toHaveProperty("id");
-        expect(response.body.clientId).toBe(viewer.clientId);
-      });
+    it("should apply the Brazilian regressive tax preset", async () => {
+      const client = await createTestClient({ advisorId });
+      await createTestWallet({ clientId: client.id, totalValue: 100000 });
 
-      it("should return 403 if a VIEWER tries to save a simulation for ANOTHER client", async () => {
-        const targetClient = await createTestClient();
-        const { user: viewer, plainPassword } = await createTestUser({
-          role: "VIEWER",
+      const response = await request(app.server)
+        .post(`/clients/${client.id}/projections`)
+        .set("Authorization", `Bearer ${advisorToken}`)
+        .send({
+          annualRate: 10,
+          startDate: "2030-01-01",
+          endYear: 2032,
+          gainsTaxPreset: "BR_REGRESSIVE_FIXED_INCOME",
         });
-        const viewerToken = await loginAndGetToken(viewer.email, plainPassword);
 
-        const response = await request(app.server)
-          .post(`/clients/${targetClient.id}/simulations`)
-          .set("Authorization", `Bearer ${viewerToken}`)
-          .send({
-            projectionData: TEST_PROJECTION,
-            rate: 5,
-          });
+      expect(response.status).toBe(200);
+      expect(response.body[0].postTaxValue).toBe("108000.00");
+      expect(response.body[2].postTaxValue).toBe("128135.00");
+    });
 
-        expect(response.status).toBe(403);
-        expect(response.body).toHaveProperty("message");
-      });
+    it("should return 400 if both a gains tax rate and a preset are provided", async () => {
+      const client = await createTestClient({ advisorId });
+      await createTestWallet({ clientId: client.id });
 
-      it("should return 404 if trying to save a simulation for a non-existent client ID", async () => {
-        const nonExistentClientId = "00000000-0000-0000-0000-000000000000";
+      const response = await request(app.server)
+        .post(`/clients/${client.id}/projections`)
+        .set("Authorization", `Bearer ${advisorToken}`)
+        .send({
+          gainsTaxRate: 15,
+          gainsTaxPreset: "BR_REGRESSIVE_FIXED_INCOME",
+        });
 
-        const response = await request(app.server)
-          .post(`/clients/${nonExistentClientId}/simulations`)
-          .set("Authorization", `Bearer ${advisorToken}`)
-          .send({
-            projectionData: TEST_PROJECTION,
-            rate: 5,
-          });
+      expect(response.status).toBe(400);
+    });
+  });
 
-        expect(response.status).toBe(404);
-        expect(response.body.message).toContain("Cliente não encontrado");
-      });
+  describe("POST /clients/:clientId/projections (horizon)", () => {
+    it("should stop the projection at the requested end year", async () => {
+      const client = await createTestClient({ advisorId });
+      await createTestWallet({ clientId: client.id });
+
+      const response = await request(app.server)
+        .post(`/clients/${client.id}/projections`)
+        .set("Authorization", `Bearer ${advisorToken}`)
+        .send({ startDate: "2030-01-01", endYear: 2040 });
+
+      expect(response.status).toBe(200);
+      expect(response.body[0].year).toBe(2030);
+      expect(response.body[response.body.length - 1].year).toBe(2040);
     });
 
-    describe("GET /clients/:clientId/simulations", () => {
-      it("should allow an ADVISOR to list simulations for any client", async () => {
-        const targetClient = await createTestClient();
-        await createTestSimulation({ clientId: targetClient.id! });
-        await createTestSimulation({ clientId: targetClient.id! });
-        await createTestSimulation();
+    it("should derive the end year from the client's age", async () => {
+      const client = await createTestClient({ advisorId });
+      await createTestWallet({ clientId: client.id });
 
-        const response = await request(app.server)
-          .get(`/clients/${targetClient.id}/simulations`)
-          .set("Authorization", `Bearer ${advisorToken}`);
+      const response = await request(app.server)
+        .post(`/clients/${client.id}/projections`)
+        .set("Authorization", `Bearer ${advisorToken}`)
+        .send({ untilAge: 90 });
 
-        expect(response.status).toBe(200);
-        expect(response.body.simulations).toHaveLength(2);
-        expect(response.body.meta.total).toBe(2);
-      });
+      expect(response.status).toBe(200);
+      expect(response.body[response.body.length - 1].year).toBe(2090);
+    });
 
-      it("should allow a VIEWER to list THEIR OWN saved simulations", async () => {
-        const { user: viewer, plainPassword } = await createTestUser({
-          role: "VIEWER",
-        });
-        const viewerToken = await loginAndGetToken(viewer.email, plainPassword);
+    it("should return nominal and inflation-adjusted values", async () => {
+      const client = await createTestClient({ advisorId });
+      await createTestWallet({ clientId: client.id, totalValue: 100000 });
 
-        await createTestSimulation({ clientId: viewer.clientId! });
-        await createTestSimulation({ clientId: viewer.clientId! });
-        await createTestSimulation();
+      const response = await request(app.server)
+        .post(`/clients/${client.id}/projections`)
+        .set("Authorization", `Bearer ${advisorToken}`)
+        .send({ annualRate: 0, inflationRate: 5 });
 
-        const response = await request(app.server)
-          .get(`/clients/${viewer.clientId}/simulations`)
-          .set("Authorization", `Bearer ${viewerToken}`);
+      expect(response.status).toBe(200);
 
-        expect(response.status).toBe(200);
-        expect(response.body.simulations).toHaveLength(2);
-        expect(response.body.meta.total).toBe(2);
+      const lastPoint = response.body[response.body.length - 1];
+      expect(lastPoint).toHaveProperty("realValue");
+      expect(parseFloat(lastPoint.realValue)).toBeLessThan(
+        parseFloat(lastPoint.projectedValue)
+      );
+    });
+
+    it("should derive the rate from the allocation when requested", async () => {
+      const client = await createTestClient({ advisorId });
+      const initialValue = 100000;
+      await createTestWallet({ clientId: client.id, totalValue: initialValue });
+      const assumption = await createTestMarketAssumption({
+        expectedReturn: 12,
       });
 
-      it("should return 403 if a VIEWER tries to list simulations of ANOTHER client", async () => {
-        const targetClient = await createTestClient();
-        await createTestSimulation({ clientId: targetClient.id });
+      const response = await request(app.server)
+        .post(`/clients/${client.id}/projections`)
+        .set("Authorization", `Bearer ${advisorToken}`)
+        .send({
+          startDate: "2030-01-01",
+          endYear: 2030,
+          returnSource: "ALLOCATION",
+          assetClasses: [{ className: assumption.className, percentage: 100 }],
+        });
 
-        const { user: attacker, plainPassword } = await createTestUser({
-          role: "VIEWER",
+      expect(response.status).toBe(200);
+      expect(parseFloat(response.body[0].projectedValue)).toBeCloseTo(
+        initialValue * 1.12,
+        2
+      );
+    });
+
+    it("should return 400 if the allocation has no market assumptions", async () => {
+      const client = await createTestClient({ advisorId });
+      await createTestWallet({ clientId: client.id });
+
+      const response = await request(app.server)
+        .post(`/clients/${client.id}/projections`)
+        .set("Authorization", `Bearer ${advisorToken}`)
+        .send({
+          returnSource: "ALLOCATION",
+          assetClasses: [{ className: "CLASSE INEXISTENTE", percentage: 100 }],
         });
-        const attackerToken = await loginAndGetToken(
-          attacker.email,
-          plainPassword
-        );
 
-        const response = await request(app.server)
-          .get(`/clients/${targetClient.id}/simulations`)
-          .set("Authorization", `Bearer ${attackerToken}`);
+      expect(response.status).toBe(400);
+      expect(response.body).toHaveProperty("message");
+    });
 
-        expect(response.status).toBe(403);
-        expect(response.body).toHaveProperty("message");
-      });
+    it("should return 400 if both endYear and untilAge are provided", async () => {
+      const client = await createTestClient({ advisorId });
+      await createTestWallet({ clientId: client.id });
+
+      const response = await request(app.server)
+        .post(`/clients/${client.id}/projections`)
+        .set("Authorization", `Bearer ${advisorToken}`)
+        .send({ endYear: 2050, untilAge: 90 });
+
+      expect(response.status).toBe(400);
     });
 
-    describe("GET /simulations/:simulationId", () => {
-      it("should allow an ADVISOR to get any specific saved simulation", async () => {
-        const simulation = await createTestSimulation();
+    it("should return 400 if the end year is before the start year", async () => {
+      const client = await createTestClient({ advisorId });
+      await createTestWallet({ clientId: client.id });
 
-        const response = await request(app.server)
-          .get(`/simulations/${simulation.id}`)
-          .set("Authorization", `Bearer ${advisorToken}`);
+      const response = await request(app.server)
+        .post(`/clients/${client.id}/projections`)
+        .set("Authorization", `Bearer ${advisorToken}`)
+        .send({ startDate: "2030-01-01", endYear: 2029 });
 
-        expect(response.status).toBe(200);
-        expect(response.body).toHaveProperty("id");
-        expect(response.body.id).toBe(simulation.id);
+      expect(response.status).toBe(400);
+      expect(response.body).toHaveProperty("message");
+    });
+  });
+
+  describe("POST /clients/:clientId/projections/goals", () => {
+    it("should report which goals are reached and which are missed", async () => {
+      const client = await createTestClient({ advisorId });
+      await createTestWallet({ clientId: client.id, totalValue: 100000 });
+      const reachableGoal = await createTestGoal({
+        clientId: client.id,
+        overrides: { targetValue: 50000, targetDate: new Date("2032-01-01") },
+      });
+      const missedGoal = await createTestGoal({
+        clientId: client.id,
+        overrides: { targetValue: 500000, targetDate: new Date("2032-01-01") },
       });
 
-      it("should allow a VIEWER to get THEIR OWN specific simulation by ID", async () => {
-        const { user: viewer, plainPassword } = await createTestUser({
-          role: "VIEWER",
-        });
-        const viewerToken = await loginAndGetToken(viewer.email, plainPassword);
+      const response = await request(app.server)
+        .post(`/clients/${client.id}/projections/goals`)
+        .set("Authorization", `Bearer ${advisorToken}`)
+        .send({ annualRate: 0, startDate: "2030-01-01", endYear: 2035 });
 
-        const simulation = await createTestSimulation({
-          clientId: viewer.clientId!,
-        });
+      expect(response.status).toBe(200);
+      expect(response.body.projection).toHaveLength(6);
 
-        const response = await request(app.server)
-          .get(`/simulations/${simulation.id}`)
-          .set("Authorization", `Bearer ${viewerToken}`);
+      const reached = response.body.goals.find(
+        (goal: { goalId: string }) => goal.goalId === reachableGoal.id
+      );
+      const missed = response.body.goals.find(
+        (goal: { goalId: string }) => goal.goalId === missedGoal.id
+      );
 
-        expect(response.status).toBe(200);
-        expect(response.body).toHaveProperty("id");
-        expect(response.body).toHaveProperty("clientId");
-        expect(response.body.id).toBe(simulation.id);
-        expect(response.body.clientId).toBe(viewer.clientId);
+      expect(reached).toMatchObject({
+        status: "REACHED",
+        reachedYear: 2030,
+        shortfall: "0.00",
       });
+      expect(missed).toMatchObject({
+        status: "MISSED",
+        reachedYear: null,
+        shortfall: "400000.00",
+      });
+    });
 
-      it("should return 403 if a VIEWER tries to get a simulation of ANOTHER client", async () => {
-        const targetSimulation = await createTestSimulation();
+    it("should withdraw reached goals from the projection when requested", async () => {
+      const client = await createTestClient({ advisorId });
+      await createTestWallet({ clientId: client.id, totalValue: 100000 });
+      await createTestGoal({
+        clientId: client.id,
+        overrides: { targetValue: 40000, targetDate: new Date("2031-06-01") },
+      });
 
-        const { user: attacker, plainPassword } = await createTestUser({
-          role: "VIEWER",
+      const response = await request(app.server)
+        .post(`/clients/${client.id}/projections/goals`)
+        .set("Authorization", `Bearer ${advisorToken}`)
+        .send({
+          annualRate: 0,
+          startDate: "2030-01-01",
+          endYear: 2031,
+          withdrawGoals: true,
         });
-        const attackerToken = await loginAndGetToken(
-          attacker.email,
-          plainPassword
-        );
 
-        const response = await request(app.server)
-          .get(`/simulations/${targetSimulation.id}`)
-          .set("Authorization", `Bearer ${attackerToken}`);
+      expect(response.status).toBe(200);
+      expect(response.body.projection[0].projectedValue).toBe("100000.00");
+      expect(response.body.projection[1].projectedValue).toBe("60000.00");
+    });
 
-        expect(response.status).toBe(403);
-        expect(response.body).toHaveProperty("message");
-      });
+    it("should return 400 if the client does not have a wallet", async () => {
+      const client = await createTestClient({ advisorId });
 
-      it("should return 404 for a non-existent simulation ID", async () => {
-        const nonExistentId = "00000000-0000-0000-0000-000000000000";
+      const response = await request(app.server)
+        .post(`/clients/${client.id}/projections/goals`)
+        .set("Authorization", `Bearer ${advisorToken}`)
+        .send({});
 
-        const response = await request(app.server)
-          .get(`/simulations/${nonExistentId}`)
-          .set("Authorization", `Bearer ${advisorToken}`);
+      expect(response.status).toBe(400);
+      expect(response.body).toHaveProperty("message");
+    });
 
-        expect(response.status).toBe(404);
-        expect(response.body).toHaveProperty("message");
+    it("should return 403 if a VIEWER tries to simulate ANOTHER client", async () => {
+      const targetClient = await createTestClient({ advisorId });
+      const { user: attacker, plainPassword } = await createTestUser({
+        role: "VIEWER",
       });
-    });
+      const attackerToken = await loginAndGetToken(
+        attacker.email,
+        plainPassword
+      );
 
-    describe("DELETE /simulations/:simulationId", () => {
-      it("should allow an ADVISOR to delete a simulation", async () => {
-        const simulation = await createTestSimulation();
+      const response = await request(app.server)
+        .post(`/clients/${targetClient.id}/projections/goals`)
+        .set("Authorization", `Bearer ${attackerToken}`)
+        .send({});
+
+      expect(response.status).toBe(403);
+    });
+  });
+
+  describe("POST /clients/:clientId/projections/retirement", () => {
+    it("should report the depletion year and the maximum sustainable income", async () => {
+      const client = await createTestClient({ advisorId });
+      await createTestWallet({ clientId: client.id, totalValue: 120000 });
+
+      const response = await request(app.server)
+        .post(`/clients/${client.id}/projections/retirement`)
+        .set("Authorization", `Bearer ${advisorToken}`)
+        .send({
+          annualRate: 0,
+          startDate: "2060-01-01",
+          endYear: 2070,
+          retirementAge: 60,
+          withdrawalStrategy: "FIXED_REAL",
+          monthlyWithdrawal: 2000,
+        });
+
+      expect(response.status).toBe(200);
+      expect(response.body.retirementDate).toBe("2060-01-01T00:00:00.000Z");
+      expect(response.body.depletionYear).toBe(2064);
+      expect(response.body.maxSustainableMonthlyIncome).toBe("909.09");
+      expect(response.body.projection[0].withdrawal).toBe("24000.00");
+    });
+
+    it("should return 400 if the withdrawal strategy is missing its parameters", async () => {
+      const client = await createTestClient({ advisorId });
+      await createTestWallet({ clientId: client.id });
+
+      const response = await request(app.server)
+        .post(`/clients/${client.id}/projections/retirement`)
+        .set("Authorization", `Bearer ${advisorToken}`)
+        .send({ retirementAge: 65, withdrawalStrategy: "PERCENTAGE" });
+
+      expect(response.status).toBe(400);
+    });
+
+    it("should return 400 if retirement happens after the projection horizon", async () => {
+      const client = await createTestClient({ advisorId });
+      await createTestWallet({ clientId: client.id });
+
+      const response = await request(app.server)
+        .post(`/clients/${client.id}/projections/retirement`)
+        .set("Authorization", `Bearer ${advisorToken}`)
+        .send({
+          endYear: 2050,
+          retirementAge: 65,
+          withdrawalStrategy: "PERCENTAGE",
+          withdrawalRate: 4,
+        });
+
+      expect(response.status).toBe(400);
+      expect(response.body).toHaveProperty("message");
+    });
+
+    it("should return 403 if a VIEWER tries to simulate ANOTHER client", async () => {
+      const targetClient = await createTestClient({ advisorId });
+      const { user: attacker, plainPassword } = await createTestUser({
+        role: "VIEWER",
+      });
+      const attackerToken = await loginAndGetToken(
+        attacker.email,
+        plainPassword
+      );
+
+      const response = await request(app.server)
+        .post(`/clients/${targetClient.id}/projections/retirement`)
+        .set("Authorization", `Bearer ${attackerToken}`)
+        .send({
+          retirementAge: 65,
+          withdrawalStrategy: "FIXED_REAL",
+          monthlyWithdrawal: 1000,
+        });
+
+      expect(response.status).toBe(403);
+    });
+  });
+
+  describe("POST /clients/:clientId/projections/solve", () => {
+    it("should solve the monthly contribution needed to reach a target", async () => {
+      const client = await createTestClient({ advisorId });
+      await createTestWallet({ clientId: client.id, totalValue: 0 });
+
+      const response = await request(app.server)
+        .post(`/clients/${client.id}/projections/solve`)
+        .set("Authorization", `Bearer ${advisorToken}`)
+        .send({
+          solveFor: "MONTHLY_CONTRIBUTION",
+          targetValue: 24000,
+          targetYear: 2031,
+          annualRate: 0,
+          startDate: "2030-01-01",
+        });
+
+      expect(response.status).toBe(200);
+      expect(response.body.monthlyContribution).toBe("1000.00");
+      expect(response.body.projection.at(-1)).toMatchObject({
+        year: 2031,
+        projectedValue: "24000.00",
+      });
+    });
+
+    it("should solve the required annual rate to reach a goal", async () => {
+      const client = await createTestClient({ advisorId });
+      await createTestWallet({ clientId: client.id, totalValue: 100000 });
+      const goal = await createTestGoal({
+        clientId: client.id,
+        overrides: { targetValue: 110000, targetDate: new Date("2030-12-01") },
+      });
+
+      const response = await request(app.server)
+        .post(`/clients/${client.id}/projections/solve`)
+        .set("Authorization", `Bearer ${advisorToken}`)
+        .send({
+          solveFor: "ANNUAL_RATE",
+          goalId: goal.id,
+          startDate: "2030-01-01",
+        });
+
+      expect(response.status).toBe(200);
+      expect(response.body.annualRate).toBe(10);
+      expect(response.body.targetValue).toBe("110000");
+    });
+
+    it("should solve the retirement date for a target wealth", async () => {
+      const client = await createTestClient({ advisorId });
+      await createTestWallet({ clientId: client.id, totalValue: 0 });
+
+      const response = await request(app.server)
+        .post(`/clients/${client.id}/projections/solve`)
+        .set("Authorization", `Bearer ${advisorToken}`)
+        .send({
+          solveFor: "RETIREMENT_DATE",
+          targetValue: 6000,
+          monthlyContribution: 1000,
+          annualRate: 0,
+          startDate: "2030-01-01",
+          endYear: 2035,
+        });
+
+      expect(response.status).toBe(200);
+      expect(response.body.retirementDate).toBe("2030-07-01T00:00:00.000Z");
+      expect(response.body.targetDate).toBeNull();
+    });
+
+    it("should return 400 if neither a goal nor a target value is provided", async () => {
+      const client = await createTestClient({ advisorId });
+      await createTestWallet({ clientId: client.id });
+
+      const response = await request(app.server)
+        .post(`/clients/${client.id}/projections/solve`)
+        .set("Authorization", `Bearer ${advisorToken}`)
+        .send({ solveFor: "MONTHLY_CONTRIBUTION" });
+
+      expect(response.status).toBe(400);
+    });
+
+    it("should return 400 if the goal does not belong to the client", async () => {
+      const client = await createTestClient({ advisorId });
+      await createTestWallet({ clientId: client.id });
+      const otherGoal = await createTestGoal();
+
+      const response = await request(app.server)
+        .post(`/clients/${client.id}/projections/solve`)
+        .set("Authorization", `Bearer ${advisorToken}`)
+        .send({ solveFor: "MONTHLY_CONTRIBUTION", goalId: otherGoal.id });
+
+      expect(response.status).toBe(400);
+      expect(response.body).toHaveProperty("message");
+    });
+
+    it("should return 403 if a VIEWER tries to solve for ANOTHER client", async () => {
+      const targetClient = await createTestClient({ advisorId });
+      const { user: attacker, plainPassword } = await createTestUser({
+        role: "VIEWER",
+      });
+      const attackerToken = await loginAndGetToken(
+        attacker.email,
+        plainPassword
+      );
+
+      const response = await request(app.server)
+        .post(`/clients/${targetClient.id}/projections/solve`)
+        .set("Authorization", `Bearer ${attackerToken}`)
+        .send({ solveFor: "RETIREMENT_DATE", targetValue: 1000 });
+
+      expect(response.status).toBe(403);
+    });
+  });
+
+  describe("POST /clients/:clientId/projections/compare", () => {
+    it("should return aligned series with deltas against the baseline", async () => {
+      const client = await createTestClient({ advisorId });
+      await createTestWallet({ clientId: client.id, totalValue: 100000 });
+
+      const response = await request(app.server)
+        .post(`/clients/${client.id}/projections/compare`)
+        .set("Authorization", `Bearer ${advisorToken}`)
+        .send({
+          startDate: "2030-01-01",
+          endYear: 2032,
+          scenarios: [
+            { name: "Conservador", annualRate: 0 },
+            {
+              name: "Com aporte extra",
+              annualRate: 0,
+              events: [
+                {
+                  description: "Aporte hipotético",
+                  category: "INCOME",
+                  value: 1000,
+                  frequency: "MONTHLY",
+                },
+              ],
+            },
+            { name: "Patrimônio menor", annualRate: 0, initialValue: 50000 },
+          ],
+        });
+
+      expect(response.status).toBe(200);
+      expect(response.body.baseline).toBe("Conservador");
+
+      const [baseline, withContribution, smallerWealth] =
+        response.body.scenarios;
+      expect(baseline.projection.map((p: { year: number }) => p.year)).toEqual([
+        2030, 2031, 2032,
+      ]);
+      expect(baseline.projection[0].deltaFromBaseline).toBe("0.00");
+      expect(withContribution.projection[2].deltaFromBaseline).toBe("36000.00");
+      expect(smallerWealth.initialValue).toBe("50000.00");
+      expect(smallerWealth.projection[0].deltaFromBaseline).toBe("-50000.00");
+    });
+
+    it("should not persist hypothetical events", async () => {
+      const client = await createTestClient({ advisorId });
+      await createTestWallet({ clientId: client.id });
+
+      await request(app.server)
+        .post(`/clients/${client.id}/projections/compare`)
+        .set("Authorization", `Bearer ${advisorToken}`)
+        .send({
+          scenarios: [
+            {
+              name: "Compra de imóvel",
+              events: [
+                {
+                  description: "Entrada do imóvel",
+                  category: "EXPENSE",
+                  value: 20000,
+                  frequency: "UNIQUE",
+                },
+              ],
+            },
+          ],
+        });
+
+      const events = await prisma.event.count({
+        where: { clientId: client.id },
+      });
+      expect(events).toBe(0);
+    });
+
+    it("should use the requested baseline", async () => {
+      const client = await createTestClient({ advisorId });
+      await createTestWallet({ clientId: client.id, totalValue: 100000 });
+
+      const response = await request(app.server)
+        .post(`/clients/${client.id}/projections/compare`)
+        .set("Authorization", `Bearer ${advisorToken}`)
+        .send({
+          startDate: "2030-01-01",
+          endYear: 2030,
+          baseline: "Otimista",
+          scenarios: [
+            { name: "Pessimista", annualRate: 0 },
+            { name: "Otimista", annualRate: 10 },
+          ],
+        });
+
+      expect(response.status).toBe(200);
+      expect(response.body.scenarios[0].projection[0].deltaFromBaseline).toBe(
+        "-10000.00"
+      );
+    });
+
+    it("should return 400 if scenario names are repeated", async () => {
+      const client = await createTestClient({ advisorId });
+      await createTestWallet({ clientId: client.id });
+
+      const response = await request(app.server)
+        .post(`/clients/${client.id}/projections/compare`)
+        .set("Authorization", `Bearer ${advisorToken}`)
+        .send({ scenarios: [{ name: "A" }, { name: "A" }] });
+
+      expect(response.status).toBe(400);
+    });
+
+    it("should return 400 if the baseline is not one of the scenarios", async () => {
+      const client = await createTestClient({ advisorId });
+      await createTestWallet({ clientId: client.id });
+
+      const response = await request(app.server)
+        .post(`/clients/${client.id}/projections/compare`)
+        .set("Authorization", `Bearer ${advisorToken}`)
+        .send({ baseline: "B", scenarios: [{ name: "A" }] });
+
+      expect(response.status).toBe(400);
+    });
+
+    it("should return 403 if a VIEWER tries to compare ANOTHER client", async () => {
+      const targetClient = await createTestClient({ advisorId });
+      const { user: attacker, plainPassword } = await createTestUser({
+        role: "VIEWER",
+      });
+      const attackerToken = await loginAndGetToken(
+        attacker.email,
+        plainPassword
+      );
+
+      const response = await request(app.server)
+        .post(`/clients/${targetClient.id}/projections/compare`)
+        .set("Authorization", `Bearer ${attackerToken}`)
+        .send({ scenarios: [{ name: "A" }] });
+
+      expect(response.status).toBe(403);
+    });
+  });
+
+  describe("POST /clients/:clientId/projections/monte-carlo", () => {
+    it("should return percentile bands and probabilities for a client", async () => {
+      const client = await createTestClient({ advisorId });
+      await createTestWallet({ clientId: client.id, totalValue: 100000 });
+
+      const response = await request(app.server)
+        .post(`/clients/${client.id}/projections/monte-carlo`)
+        .set("Authorization", `Bearer ${advisorToken}`)
+        .send({ paths: 50, seed: 7, endYear: 2040 });
+
+      expect(response.status).toBe(200);
+      expect(response.body.seed).toBe(7);
+      expect(response.body.paths).toBe(50);
+      expect(response.body.annualVolatility).toBe(10);
+      expect(response.body.probabilityOfSolvency).toBe(1);
+      expect(response.body.percentiles[0]).toHaveProperty("p10");
+      expect(response.body.percentiles[0]).toHaveProperty("p50");
+      expect(response.body.percentiles[0]).toHaveProperty("p90");
+      expect(
+        response.body.percentiles[response.body.percentiles.length - 1].year
+      ).toBe(2040);
+    });
+
+    it("should be reproducible when the same seed is provided", async () => {
+      const client = await createTestClient({ advisorId });
+      await createTestWallet({ clientId: client.id });
+
+      const send = () =>
+        request(app.server)
+          .post(`/clients/${client.id}/projections/monte-carlo`)
+          .set("Authorization", `Bearer ${advisorToken}`)
+          .send({ paths: 20, seed: 123, endYear: 2035 });
+
+      const first = await send();
+      const second = await send();
+
+      expect(first.body.percentiles).toEqual(second.body.percentiles);
+    });
+
+    it("should return 400 if the client does not have a wallet", async () => {
+      const client = await createTestClient({ advisorId });
+
+      const response = await request(app.server)
+        .post(`/clients/${client.id}/projections/monte-carlo`)
+        .set("Authorization", `Bearer ${advisorToken}`)
+        .send({ paths: 20 });
+
+      expect(response.status).toBe(400);
+      expect(response.body).toHaveProperty("message");
+    });
+
+    it("should return 403 if a VIEWER tries to simulate ANOTHER client", async () => {
+      const targetClient = await createTestClient({ advisorId });
+      const { user: attacker, plainPassword } = await createTestUser({
+        role: "VIEWER",
+      });
+      const attackerToken = await loginAndGetToken(
+        attacker.email,
+        plainPassword
+      );
+
+      const response = await request(app.server)
+        .post(`/clients/${targetClient.id}/projections/monte-carlo`)
+        .set("Authorization", `Bearer ${attackerToken}`)
+        .send({ paths: 20 });
+
+      expect(response.status).toBe(403);
+    });
+  });
+
+  describe("Simulation Management (/simulations)", () => {
+    describe("POST /clients/:clientId/simulations", () => {
+      it("should allow an ADVISOR to save a simulation for a client", async () => {
+        const client = await createTestClient({ advisorId });
+        await createTestWallet({ clientId: client.id });
+
+        const response = await request(app.server)
+          .post(`/clients/${client.id}/simulations`)
+          .set("Authorization", `Bearer ${advisorToken}`)
+          .send({ annualRate: 5 });
+
+        expect(response.status).toBe(201);
+        expect(response.body).toHaveProperty("id");
+        expect(response.body.clientId).toBe(client.id);
+        expect(response.body.rate).toBe("5");
+      });
+
+      it("should compute the projection server-side and snapshot its inputs", async () => {
+        const client = await createTestClient({ advisorId });
+        await createTestWallet({ clientId: client.id, totalValue: 100000 });
+        await createTestEvent({
+          clientId: client.id,
+          overrides: { category: "INCOME", value: 1000, frequency: "MONTHLY" },
+        });
+
+        const response = await request(app.server)
+          .post(`/clients/${client.id}/simulations`)
+          .set("Authorization", `Bearer ${advisorToken}`)
+          .send({
+            annualRate: 0,
+            startDate: "2030-01-01",
+            endYear: 2031,
+            projectionData: [{ year: 2030, projectedValue: "999999999.00" }],
+          });
+
+        expect(response.status).toBe(201);
+        expect(response.body.endYear).toBe(2031);
+        expect(response.body.engineVersion).toEqual(expect.any(Number));
+        expect(response.body.projection[0]).toMatchObject({
+          year: 2030,
+          projectedValue: "112000.00",
+        });
+        expect(response.body.inputs.walletValue).toBe("100000");
+        expect(response.body.inputs.events).toHaveLength(1);
+        expect(response.body.inputs.parameters).toMatchObject({
+          annualRate: 0,
+          endYear: 2031,
+        });
+      });
+
+      it("should snapshot the wallet allocation used to derive the rate", async () => {
+        const client = await createTestClient({ advisorId });
+        const wallet = await createTestWallet({ clientId: client.id });
+        const assumption = await createTestMarketAssumption({
+          expectedReturn: 12,
+        });
+        const allocation = [
+          { className: assumption.className, percentage: 100 },
+        ];
+        await prisma.wallet.update({
+          where: { id: wallet.id },
+          data: { assetClasses: allocation },
+        });
+
+        const response = await request(app.server)
+          .post(`/clients/${client.id}/simulations`)
+          .set("Authorization", `Bearer ${advisorToken}`)
+          .send({ returnSource: "ALLOCATION", endYear: 2031 });
+
+        expect(response.status).toBe(201);
+        expect(response.body.inputs.parameters).toMatchObject({
+          annualRate: 12,
+          returnSource: "ALLOCATION",
+          assetClasses: allocation,
+        });
+      });
+
+      it("should resolve the end year from the client's age", async () => {
+        const client = await createTestClient({ advisorId });
+        await createTestWallet({ clientId: client.id });
+
+        const response = await request(app.server)
+          .post(`/clients/${client.id}/simulations`)
+          .set("Authorization", `Bearer ${advisorToken}`)
+          .send({ untilAge: 80 });
+
+        expect(response.status).toBe(201);
+        expect(response.body.endYear).toBe(2080);
+      });
+
+      it("should allow a VIEWER to save a simulation for THEMSELVES", async () => {
+        const { user: viewer, plainPassword } = await createTestUser({
+          role: "VIEWER",
+        });
+        await createTestWallet({ clientId: viewer.clientId! });
+        const viewerToken = await loginAndGetToken(viewer.email, plainPassword);
+
+        const response = await request(app.server)
+          .post(`/clients/${viewer.clientId}/simulations`)
+          .set("Authorization", `Bearer ${viewerToken}`)
+          .send({ annualRate: 5 });
+
+        expect(response.status).toBe(201);
+        expect(response.body).toHaveProperty("id");
+        expect(response.body.clientId).toBe(viewer.clientId);
+      });
+
+      it("should return 400 if the client does not have a wallet", async () => {
+        const client = await createTestClient({ advisorId });
+
+        const response = await request(app.server)
+          .post(`/clients/${client.id}/simulations`)
+          .set("Authorization", `Bearer ${advisorToken}`)
+          .send({ annualRate: 5 });
+
+        expect(response.status).toBe(400);
+        expect(response.body).toHaveProperty("message");
+      });
+
+      it("should return 403 if a VIEWER tries to save a simulation for ANOTHER client", async () => {
+        const targetClient = await createTestClient({ advisorId });
+        const { user: viewer, plainPassword } = await createTestUser({
+          role: "VIEWER",
+        });
+        const viewerToken = await loginAndGetToken(viewer.email, plainPassword);
+
+        const response = await request(app.server)
+          .post(`/clients/${targetClient.id}/simulations`)
+          .set("Authorization", `Bearer ${viewerToken}`)
+          .send({ annualRate: 5 });
+
+        expect(response.status).toBe(403);
+        expect(response.body).toHaveProperty("message");
+      });
+
+      it("should return 404 if trying to save a simulation for a non-existent client ID", async () => {
+        const nonExistentClientId = "00000000-0000-0000-0000-000000000000";
+
+        const response = await request(app.server)
+          .post(`/clients/${nonExistentClientId}/simulations`)
+          .set("Authorization", `Bearer ${advisorToken}`)
+          .send({ annualRate: 5 });
+
+        expect(response.status).toBe(404);
+        expect(response.body.message).toContain("Cliente não encontrado");
+      });
+    });
+
+    describe("POST /simulations/:simulationId/rerun", () => {
+      const saveSimulation = async (clientId: string) => {
+        const response = await request(app.server)
+          .post(`/clients/${clientId}/simulations`)
+          .set("Authorization", `Bearer ${advisorToken}`)
+          .send({ annualRate: 5, startDate: "2030-01-01", endYear: 2035 });
+
+        return response.body;
+      };
+
+      it("should report no drift when the inputs reproduce the saved projection", async () => {
+        const client = await createTestClient({ advisorId });
+        await createTestWallet({ clientId: client.id });
+        const simulation = await saveSimulation(client.id);
+
+        const response = await request(app.server)
+          .post(`/simulations/${simulation.id}/rerun`)
+          .set("Authorization", `Bearer ${advisorToken}`);
+
+        expect(response.status).toBe(200);
+        expect(response.body.hasDrift).toBe(false);
+        expect(response.body.maxAbsoluteDrift).toBe("0.00");
+        expect(response.body.projection).toHaveLength(6);
+      });
+
+      it("should replay the snapshot even if the client's data changed", async () => {
+        const client = await createTestClient({ advisorId });
+        const wallet = await createTestWallet({ clientId: client.id });
+        const simulation = await saveSimulation(client.id);
+
+        await prisma.wallet.update({
+          where: { id: wallet.id },
+          data: { totalValue: 1 },
+        });
+
+        const response = await request(app.server)
+          .post(`/simulations/${simulation.id}/rerun`)
+          .set("Authorization", `Bearer ${advisorToken}`);
+
+        expect(response.status).toBe(200);
+        expect(response.body.hasDrift).toBe(false);
+      });
+
+      it("should report drift when the saved projection differs", async () => {
+        const client = await createTestClient({ advisorId });
+        await createTestWallet({ clientId: client.id });
+        const simulation = await saveSimulation(client.id);
+
+        await prisma.simulation.update({
+          where: { id: simulation.id },
+          data: {
+            projection: simulation.projection.map(
+              (point: { year: number; projectedValue: string }) => ({
+                ...point,
+                projectedValue: "0.00",
+              })
+            ),
+          },
+        });
+
+        const response = await request(app.server)
+          .post(`/simulations/${simulation.id}/rerun`)
+          .set("Authorization", `Bearer ${advisorToken}`);
+
+        expect(response.status).toBe(200);
+        expect(response.body.hasDrift).toBe(true);
+        expect(response.body.projection[0].savedValue).toBe("0.00");
+      });
+
+      it("should return 400 for a simulation saved without inputs", async () => {
+        const simulation = await createTestSimulation({ advisorId });
+
+        const response = await request(app.server)
+          .post(`/simulations/${simulation.id}/rerun`)
+          .set("Authorization", `Bearer ${advisorToken}`);
+
+        expect(response.status).toBe(400);
+        expect(response.body).toHaveProperty("message");
+      });
+
+      it("should return 404 for a non-existent simulation", async () => {
+        const nonExistentId = "00000000-0000-0000-0000-000000000000";
+
+        const response = await request(app.server)
+          .post(`/simulations/${nonExistentId}/rerun`)
+          .set("Authorization", `Bearer ${advisorToken}`);
+
+        expect(response.status).toBe(404);
+      });
+
+      it("should return 403 if a VIEWER tries to re-run ANOTHER client's simulation", async () => {
+        const simulation = await createTestSimulation();
+        const { user: viewer, plainPassword } = await createTestUser({
+          role: "VIEWER",
+        });
+        const viewerToken = await loginAndGetToken(viewer.email, plainPassword);
+
+        const response = await request(app.server)
+          .post(`/simulations/${simulation.id}/rerun`)
+          .set("Authorization", `Bearer ${viewerToken}`);
+
+        expect(response.status).toBe(403);
+      });
+    });
+
+    describe("GET /simulations/:simulationId/compare/:otherSimulationId", () => {
+      const saveSimulation = async (clientId: string, annualRate = 5) => {
+        const response = await request(app.server)
+          .post(`/clients/${clientId}/simulations`)
+          .set("Authorization", `Bearer ${advisorToken}`)
+          .send({ annualRate, startDate: "2030-01-01", endYear: 2035 });
+
+        return response.body;
+      };
+
+      it("should return the year-by-year delta and the changed rate", async () => {
+        const client = await createTestClient({ advisorId });
+        await createTestWallet({ clientId: client.id });
+        const simulation = await saveSimulation(client.id, 5);
+        const otherSimulation = await saveSimulation(client.id, 8);
+
+        const response = await request(app.server)
+          .get(`/simulations/${simulation.id}/compare/${otherSimulation.id}`)
+          .set("Authorization", `Bearer ${advisorToken}`);
+
+        expect(response.status).toBe(200);
+        expect(response.body.rateChange).toEqual({ from: "5", to: "8" });
+        expect(response.body.projection).toHaveLength(6);
+        expect(Number(response.body.projection[5].delta)).toBeGreaterThan(0);
+        expect(response.body.inputChanges.walletValue).toBeNull();
+        expect(response.body.inputChanges.parameters).toEqual([]);
+      });
+
+      it("should list events added between the two simulations", async () => {
+        const client = await createTestClient({ advisorId });
+        await createTestWallet({ clientId: client.id });
+        const simulation = await saveSimulation(client.id);
+        const event = await createTestEvent({
+          clientId: client.id,
+          overrides: { value: 1000, occurrenceDate: new Date("2031-06-01") },
+        });
+        const otherSimulation = await saveSimulation(client.id);
+
+        const response = await request(app.server)
+          .get(`/simulations/${simulation.id}/compare/${otherSimulation.id}`)
+          .set("Authorization", `Bearer ${advisorToken}`);
+
+        expect(response.status).toBe(200);
+        expect(response.body.rateChange).toBeNull();
+        expect(response.body.inputChanges.eventsAdded).toHaveLength(1);
+        expect(response.body.inputChanges.eventsAdded[0].id).toBe(event.id);
+        expect(response.body.inputChanges.eventsRemoved).toEqual([]);
+        expect(Number(response.body.projection[5].delta)).toBeGreaterThan(1000);
+      });
+
+      it("should return null input changes for simulations saved without inputs", async () => {
+        const client = await createTestClient({ advisorId });
+        const simulation = await createTestSimulation({ clientId: client.id });
+        const otherSimulation = await createTestSimulation({
+          clientId: client.id,
+        });
+
+        const response = await request(app.server)
+          .get(`/simulations/${simulation.id}/compare/${otherSimulation.id}`)
+          .set("Authorization", `Bearer ${advisorToken}`);
+
+        expect(response.status).toBe(200);
+        expect(response.body.inputChanges).toBeNull();
+      });
+
+      it("should return 400 for simulations of different clients", async () => {
+        const simulation = await createTestSimulation({ advisorId });
+        const otherSimulation = await createTestSimulation({ advisorId });
+
+        const response = await request(app.server)
+          .get(`/simulations/${simulation.id}/compare/${otherSimulation.id}`)
+          .set("Authorization", `Bearer ${advisorToken}`);
+
+        expect(response.status).toBe(400);
+        expect(response.body).toHaveProperty("message");
+      });
+
+      it("should return 404 if one of the simulations does not exist", async () => {
+        const simulation = await createTestSimulation({ advisorId });
+        const nonExistentId = "00000000-0000-0000-0000-000000000000";
+
+        const response = await request(app.server)
+          .get(`/simulations/${simulation.id}/compare/${nonExistentId}`)
+          .set("Authorization", `Bearer ${advisorToken}`);
+
+        expect(response.status).toBe(404);
+      });
+
+      it("should return 403 if a VIEWER tries to compare ANOTHER client's simulations", async () => {
+        const client = await createTestClient({ advisorId });
+        const simulation = await createTestSimulation({ clientId: client.id });
+        const otherSimulation = await createTestSimulation({
+          clientId: client.id,
+        });
+        const { user: viewer, plainPassword } = await createTestUser({
+          role: "VIEWER",
+        });
+        const viewerToken = await loginAndGetToken(viewer.email, plainPassword);
+
+        const response = await request(app.server)
+          .get(`/simulations/${simulation.id}/compare/${otherSimulation.id}`)
+          .set("Authorization", `Bearer ${viewerToken}`);
+
+        expect(response.status).toBe(403);
+      });
+    });
+
+    describe("GET /simulations/:simulationId/tracking", () => {
+      const saveSimulation = async (clientId: string) => {
+        const response = await request(app.server)
+          .post(`/clients/${clientId}/simulations`)
+          .set("Authorization", `Bearer ${advisorToken}`)
+          .send({ annualRate: 0, startDate: "2030-01-01", endYear: 2035 });
+
+        return response.body;
+      };
+
+      it("should compare the wallet history with the planned path", async () => {
+        const client = await createTestClient({ advisorId });
+        await createTestWallet({ clientId: client.id, totalValue: 100000 });
+        const simulation = await saveSimulation(client.id);
+
+        await prisma.walletSnapshot.createMany({
+          data: [
+            {
+              clientId: client.id,
+              totalValue: 100000,
+              recordedAt: new Date("2031-01-01"),
+            },
+            {
+              clientId: client.id,
+              totalValue: 80000,
+              recordedAt: new Date("2032-01-01"),
+            },
+          ],
+        });
+
+        const response = await request(app.server)
+          .get(`/simulations/${simulation.id}/tracking`)
+          .set("Authorization", `Bearer ${advisorToken}`);
+
+        expect(response.status).toBe(200);
+        expect(response.body.points).toHaveLength(2);
+        expect(response.body.points[1].plannedValue).toBe("100000.00");
+        expect(response.body.points[1].deviation).toBe("-20000.00");
+        expect(response.body.status).toBe("BEHIND");
+      });
+
+      it("should use the tolerance informed in the query string", async () => {
+        const client = await createTestClient({ advisorId });
+        await createTestWallet({ clientId: client.id, totalValue: 100000 });
+        const simulation = await saveSimulation(client.id);
+
+        await prisma.walletSnapshot.create({
+          data: {
+            clientId: client.id,
+            totalValue: 90000,
+            recordedAt: new Date("2031-01-01"),
+          },
+        });
+
+        const response = await request(app.server)
+          .get(`/simulations/${simulation.id}/tracking?tolerance=15`)
+          .set("Authorization", `Bearer ${advisorToken}`);
+
+        expect(response.status).toBe(200);
+        expect(response.body.tolerance).toBe(15);
+        expect(response.body.status).toBe("ON_TRACK");
+      });
+
+      it("should return 404 for a non-existent simulation", async () => {
+        const nonExistentId = "00000000-0000-0000-0000-000000000000";
+
+        const response = await request(app.server)
+          .get(`/simulations/${nonExistentId}/tracking`)
+          .set("Authorization", `Bearer ${advisorToken}`);
+
+        expect(response.status).toBe(404);
+      });
+
+      it("should return 403 if a VIEWER tries to track ANOTHER client's simulation", async () => {
+        const simulation = await createTestSimulation();
+        const { user: viewer, plainPassword } = await createTestUser({
+          role: "VIEWER",
+        });
+        const viewerToken = await loginAndGetToken(viewer.email, plainPassword);
+
+        const response = await request(app.server)
+          .get(`/simulations/${simulation.id}/tracking`)
+          .set("Authorization", `Bearer ${viewerToken}`);
+
+        expect(response.status).toBe(403);
+      });
+    });
+
+    describe("GET /clients/:clientId/simulations", () => {
+      it("should allow an ADVISOR to list simulations for a client", async () => {
+        const targetClient = await createTestClient({ advisorId });
+        await createTestSimulation({ clientId: targetClient.id! });
+        await createTestSimulation({ clientId: targetClient.id! });
+        await createTestSimulation();
+
+        const response = await request(app.server)
+          .get(`/clients/${targetClient.id}/simulations`)
+          .set("Authorization", `Bearer ${advisorToken}`);
+
+        expect(response.status).toBe(200);
+        expect(response.body.simulations).toHaveLength(2);
+        expect(response.body.meta.total).toBe(2);
+      });
+
+      it("should allow a VIEWER to list THEIR OWN saved simulations", async () => {
+        const { user: viewer, plainPassword } = await createTestUser({
+          role: "VIEWER",
+        });
+        const viewerToken = await loginAndGetToken(viewer.email, plainPassword);
+
+        await createTestSimulation({ clientId: viewer.clientId! });
+        await createTestSimulation({ clientId: viewer.clientId! });
+        await createTestSimulation();
+
+        const response = await request(app.server)
+          .get(`/clients/${viewer.clientId}/simulations`)
+          .set("Authorization", `Bearer ${viewerToken}`);
+
+        expect(response.status).toBe(200);
+        expect(response.body.simulations).toHaveLength(2);
+        expect(response.body.meta.total).toBe(2);
+      });
+
+      it("should return 403 if a VIEWER tries to list simulations of ANOTHER client", async () => {
+        const targetClient = await createTestClient({ advisorId });
+        await createTestSimulation({ clientId: targetClient.id });
+
+        const { user: attacker, plainPassword } = await createTestUser({
+          role: "VIEWER",
+        });
+        const attackerToken = await loginAndGetToken(
+          attacker.email,
+          plainPassword
+        );
+
+        const response = await request(app.server)
+          .get(`/clients/${targetClient.id}/simulations`)
+          .set("Authorization", `Bearer ${attackerToken}`);
+
+        expect(response.status).toBe(403);
+        expect(response.body).toHaveProperty("message");
+      });
+    });
+
+    describe("GET /simulations/:simulationId", () => {
+      it("should export a saved simulation as CSV when requested via the Accept header", async () => {
+        const client = await createTestClient({ advisorId });
+        await createTestWallet({ clientId: client.id });
+        const saved = await request(app.server)
+          .post(`/clients/${client.id}/simulations`)
+          .set("Authorization", `Bearer ${advisorToken}`)
+          .send({ annualRate: 5, startDate: "2030-01-01", endYear: 2035 });
+
+        const response = await request(app.server)
+          .get(`/simulations/${saved.body.id}`)
+          .set("Authorization", `Bearer ${advisorToken}`)
+          .set("Accept", "text/csv");
+
+        expect(response.status).toBe(200);
+        expect(response.headers["content-type"]).toContain("text/csv");
+        expect(response.text.split("\r\n")[0]).toBe(
+          "year,projectedValue,realValue,postTaxValue,postTaxRealValue"
+        );
+        expect(response.text).toContain("startDate,2030-01-01T00:00:00.000Z");
+      });
+
+      it("should export a saved simulation as XLSX when requested via the format query", async () => {
+        const simulation = await createTestSimulation({ advisorId });
+
+        const response = await request(app.server)
+          .get(`/simulations/${simulation.id}?format=xlsx`)
+          .set("Authorization", `Bearer ${advisorToken}`)
+          .responseType("blob");
+
+        expect(response.status).toBe(200);
+        expect(response.headers["content-disposition"]).toContain(
+          `simulation-${simulation.id}.xlsx`
+        );
+      });
+
+      it("should allow an ADVISOR to get a specific saved simulation", async () => {
+        const simulation = await createTestSimulation({ advisorId });
+
+        const response = await request(app.server)
+          .get(`/simulations/${simulation.id}`)
+          .set("Authorization", `Bearer ${advisorToken}`);
+
+        expect(response.status).toBe(200);
+        expect(response.body).toHaveProperty("id");
+        expect(response.body.id).toBe(simulation.id);
+      });
+
+      it("should allow a VIEWER to get THEIR OWN specific simulation by ID", async () => {
+        const { user: viewer, plainPassword } = await createTestUser({
+          role: "VIEWER",
+        });
+        const viewerToken = await loginAndGetToken(viewer.email, plainPassword);
+
+        const simulation = await createTestSimulation({
+          clientId: viewer.clientId!,
+        });
+
+        const response = await request(app.server)
+          .get(`/simulations/${simulation.id}`)
+          .set("Authorization", `Bearer ${viewerToken}`);
+
+        expect(response.status).toBe(200);
+        expect(response.body).toHaveProperty("id");
+        expect(response.body).toHaveProperty("clientId");
+        expect(response.body.id).toBe(simulation.id);
+        expect(response.body.clientId).toBe(viewer.clientId);
+      });
+
+      it("should return 403 if a VIEWER tries to get a simulation of ANOTHER client", async () => {
+        const targetSimulation = await createTestSimulation();
+
+        const { user: attacker, plainPassword } = await createTestUser({
+          role: "VIEWER",
+        });
+        const attackerToken = await loginAndGetToken(
+          attacker.email,
+          plainPassword
+        );
+
+        const response = await request(app.server)
+          .get(`/simulations/${targetSimulation.id}`)
+          .set("Authorization", `Bearer ${attackerToken}`);
+
+        expect(response.status).toBe(403);
+        expect(response.body).toHaveProperty("message");
+      });
+
+      it("should return 404 for a non-existent simulation ID", async () => {
+        const nonExistentId = "00000000-0000-0000-0000-000000000000";
+
+        const response = await request(app.server)
+          .get(`/simulations/${nonExistentId}`)
+          .set("Authorization", `Bearer ${advisorToken}`);
+
+        expect(response.status).toBe(404);
+        expect(response.body).toHaveProperty("message");
+      });
+    });
+
+    describe("DELETE /simulations/:simulationId", () => {
+      it("should allow an ADVISOR to delete a simulation", async () => {
+        const simulation = await createTestSimulation({ advisorId });
 
         const deleteResponse = await request(app.server)
           .delete(`/simulations/${simulation.id}`)
@@ -4,36 +4,47 @@ import { prisma } from "../../lib/prisma";
 import { createTestUser, TEST_EMAIL_SUFFIX } from "./factories/user-factory";
 import { loginAndGetToken } from "./utils/auth-helper";
 import { createTestClient } from "./factories/client-factory";
+import {
+  createTestOrganization,
+  TEST_ORGANIZATION_ID,
+  TEST_ORGANIZATION_NAME_SUFFIX,
+} from "./factories/organization-factory";
 
 describe("User Routes (CRUD)", () => {
-  let advisorToken: string;
+  let adminToken: string;
 
   beforeAll(async () => {
     await app.ready();
   });
 
   beforeEach(async () => {
-    const { user: advisor, plainPassword } = await createTestUser({
-      role: "ADVISOR",
+    const { user: admin, plainPassword } = await createTestUser({
+      role: "ORG_ADMIN",
     });
-    advisorToken = await loginAndGetToken(advisor.email, plainPassword);
+    adminToken = await loginAndGetToken(admin.email, plainPassword);
   });
 
   afterEach(async () => {
-    await prisma.user.deleteMany({
+    await prisma.client.deleteMany({
       where: {
         email: {
           endsWith: TEST_EMAIL_SUFFIX,
         },
       },
     });
-    await prisma.client.deleteMany({
+    await prisma.user.deleteMany({
       where: {
         email: {
           endsWith: TEST_EMAIL_SUFFIX,
         },
       },
     });
+    await prisma.organization.deleteMany({
+      where: {
+        id: { not: TEST_ORGANIZATION_ID },
+        name: { endsWith: TEST_ORGANIZATION_NAME_SUFFIX },
+      },
+    });
   });
 
   afterAll(async () => {
@@ -41,11 +52,11 @@ describe("User Routes (CRUD)", () => {
   });
 
   describe("POST /users", () => {
-    it("should allow an ADVISOR to create a new VIEWER user", async () => {
+    it("should allow an ORG_ADMIN to create a new VIEWER user", async () => {
       const client = await createTestClient();
       const response = await request(app.server)
         .post("/users")
-        .set("Authorization", `Bearer ${advisorToken}`)
+        .set("Authorization", `Bearer ${adminToken}`)
         .send({
           email: client.email,
           password: "password123456",
@@ -66,7 +77,7 @@ describe("User Routes (CRUD)", () => {
       });
       const response = await request(app.server)
         .post("/users")
-        .set("Authorization", `Bearer ${advisorToken}`)
+        .set("Authorization", `Bearer ${adminToken}`)
         .send({
           email: user.email,
           password: "password123",
@@ -98,13 +109,13 @@ describe("User Routes (CRUD)", () => {
   });
 
   describe("GET /users", () => {
-    it("should allow an ADVISOR to list users with pagination", async () => {
+    it("should allow an ORG_ADMIN to list users with pagination", async () => {
       await createTestUser({ role: "VIEWER" });
       await createTestUser({ role: "VIEWER" });
 
       const response = await request(app.server)
         .get("/users?page=1&pageSize=5")
-        .set("Authorization", `Bearer ${advisorToken}`);
+        .set("Authorization", `Bearer ${adminToken}`);
 
       expect(response.status).toBe(200);
       expect(response.body).toHaveProperty("users");
@@ -126,12 +137,12 @@ describe("User Routes (CRUD)", () => {
   });
 
   describe("GET /users/:userId and /me", () => {
-    it("should allow an ADVISOR to get any user by ID", async () => {
+    it("should allow an ORG_ADMIN to get any user by ID", async () => {
       const { user } = await createTestUser({ role: "VIEWER" });
 
       const response = await request(app.server)
         .get(`/users/${user.id}`)
-        .set("Authorization", `Bearer ${advisorToken}`);
+        .set("Authorization", `Bearer ${adminToken}`);
 
       expect(response.status).toBe(200);
       expect(response.body).toHaveProperty("id");
@@ -151,11 +162,11 @@ describe("User Routes (CRUD)", () => {
       expect(response.body.id).toBe(user.id);
     });
 
-    it("should return 404 if an ADVISOR tries to get a user with a non-existent ID", async () => {
+    it("should return 404 if an ORG_ADMIN tries to get a user with a non-existent ID", async () => {
       const nonExistentId = "00000000-0000-0000-0000-000000000000";
       const response = await request(app.server)
         .get(`/users/${nonExistentId}`)
-        .set("Authorization", `Bearer ${advisorToken}`);
+        .set("Authorization", `Bearer ${adminToken}`);
 
       expect(response.status).toBe(404);
       expect(response.body).toHaveProperty("message");
@@ -181,12 +192,12 @@ describe("User Routes (CRUD)", () => {
   });
 
   describe("PUT /users/:userId", () => {
-    it("should allow an ADVISOR to update a user", async () => {
+    it("should allow an ORG_ADMIN to update a user", async () => {
       const { user } = await createTestUser({ role: "VIEWER" });
 
       const response = await request(app.server)
         .put(`/users/${user.id}`)
-        .set("Authorization", `Bearer ${advisorToken}`)
+        .set("Authorization", `Bearer ${adminToken}`)
         .send({ role: "ADVISOR" });
 
       expect(response.status).toBe(200);
@@ -201,7 +212,7 @@ describe("User Routes (CRUD)", () => {
 
       const response = await request(app.server)
         .put(`/users/${user.id}`)
-        .set("Authorization", `Bearer ${advisorToken}`)
+        .set("Authorization", `Bearer ${adminToken}`)
         .send({ password: "newpassword" });
 
       expect(response.status).toBe(200);
@@ -231,7 +242,7 @@ describe("User Routes (CRUD)", () => {
       const nonExistentId = "00000000-0000-0000-0000-000000000000";
       const response = await request(app.server)
         .put(`/users/${nonExistentId}`)
-        .set("Authorization", `Bearer ${advisorToken}`)
+        .set("Authorization", `Bearer ${adminToken}`)
         .send({ password: "newpassword" });
 
       expect(response.status).toBe(404);
@@ -250,7 +261,7 @@ describe("User Routes (CRUD)", () => {
 
       const response = await request(app.server)
         .put(`/users/${targetUser.id}`)
-        .set("Authorization", `Bearer ${advisorToken}`)
+        .set("Authorization", `Bearer ${adminToken}`)
         .send({ email: existingUser.email });
 
       expect(response.status).toBe(409);
@@ -259,12 +270,12 @@ describe("User Routes (CRUD)", () => {
   });
 
   describe("DELETE /users/:userId", () => {
-    it("should allow an ADVISOR to delete a user", async () => {
+    it("should allow an ORG_ADMIN to delete a user", async () => {
       const { user } = await createTestUser({ role: "VIEWER" });
 
       const response = await request(app.server)
         .delete(`/users/${user.id}`)
-        .set("Authorization", `Bearer ${advisorToken}`);
+        .set("Authorization", `Bearer ${adminToken}`);
 
       expect(response.status).toBe(204);
 
@@ -274,15 +285,15 @@ describe("User Routes (CRUD)", () => {
       expect(deletedUser).toBeNull();
     });
 
-    it("should return 400 if an ADVISOR tries to delete themselves", async () => {
+    it("should return 400 if an ORG_ADMIN tries to delete themselves", async () => {
       const advisorResponse = await request(app.server)
         .get("/me")
-        .set("Authorization", `Bearer ${advisorToken}`);
+        .set("Authorization", `Bearer ${adminToken}`);
       const advisorId = advisorResponse.body.id;
 
       const response = await request(app.server)
         .delete(`/users/${advisorId}`)
-        .set("Authorization", `Bearer ${advisorToken}`);
+        .set("Authorization", `Bearer ${adminToken}`);
 
       expect(response.status).toBe(400);
       expect(response.body).toHaveProperty("message");
@@ -293,7 +304,7 @@ describe("User Routes (CRUD)", () => {
     const nonExistentId = "00000000-0000-0000-0000-000000000000";
     const response = await request(app.server)
       .delete(`/users/${nonExistentId}`)
-      .set("Authorization", `Bearer ${advisorToken}`);
+      .set("Authorization", `Bearer ${adminToken}`);
 
     expect(response.status).toBe(404);
     expect(response.body).toHaveProperty("message");
@@ -320,4 +331,256 @@ describe("User Routes (CRUD)", () => {
     });
     expect(stillExists).not.toBeNull();
   });
+
+  describe("Advisor Scope", () => {
+    const createAdvisor = async (emailPrefix: string) => {
+      const { user, plainPassword } = await createTestUser({
+        role: "ADVISOR",
+        emailPrefix: `${emailPrefix}.${Date.now()}`,
+      });
+      return {
+        advisor: user,
+        token: await loginAndGetToken(user.email, plainPassword),
+      };
+    };
+
+    it("should let an ADVISOR create and manage VIEWER logins for clients in their book", async () => {
+      const { advisor, token } = await createAdvisor("owner");
+      const client = await createTestClient({ advisorId: advisor.id });
+
+      const createResponse = await request(app.server)
+        .post("/users")
+        .set("Authorization", `Bearer ${token}`)
+        .send({
+          email: client.email,
+          password: "password123456",
+          role: "VIEWER",
+          clientId: client.id,
+        });
+
+      expect(createResponse.status).toBe(201);
+
+      const viewerId = createResponse.body.id;
+      const listResponse = await request(app.server)
+        .get("/users?pageSize=100")
+        .set("Authorization", `Bearer ${token}`);
+
+      expect(listResponse.status).toBe(200);
+      expect(
+        listResponse.body.users.map((user: { id: string }) => user.id)
+      ).toEqual([viewerId]);
+
+      const updateResponse = await request(app.server)
+        .put(`/users/${viewerId}`)
+        .set("Authorization", `Bearer ${token}`)
+        .send({ password: "new_password_123" });
+
+      expect(updateResponse.status).toBe(200);
+
+      const deleteResponse = await request(app.server)
+        .delete(`/users/${viewerId}`)
+        .set("Authorization", `Bearer ${token}`);
+
+      expect(deleteResponse.status).toBe(204);
+    });
+
+    it("should return 403 if an ADVISOR tries to create an ADVISOR or promote a VIEWER", async () => {
+      const { advisor, token } = await createAdvisor("owner");
+      const client = await createTestClient({ advisorId: advisor.id });
+      const { user: viewer } = await createTestUser({ role: "VIEWER" });
+      await prisma.client.update({
+        where: { id: viewer.clientId! },
+        data: { advisorId: advisor.id },
+      });
+
+      const createResponse = await request(app.server)
+        .post("/users")
+        .set("Authorization", `Bearer ${token}`)
+        .send({
+          email: `new-advisor.${Date.now()}${TEST_EMAIL_SUFFIX}`,
+          password: "password123456",
+          role: "ADVISOR",
+          clientId: client.id,
+        });
+      const promoteResponse = await request(app.server)
+        .put(`/users/${viewer.id}`)
+        .set("Authorization", `Bearer ${token}`)
+        .send({ role: "ORG_ADMIN" });
+
+      expect(createResponse.status).toBe(403);
+      expect(promoteResponse.status).toBe(403);
+    });
+
+    it("should return 403 if an ADVISOR tries to manage users outside their book", async () => {
+      const { token } = await createAdvisor("first");
+      const { advisor: otherAdvisor } = await createAdvisor("second");
+      const { user: otherViewer } = await createTestUser({ role: "VIEWER" });
+      const otherClient = await createTestClient({
+        advisorId: otherAdvisor.id,
+      });
+
+      const getAdvisorResponse = await request(app.server)
+        .get(`/users/${otherAdvisor.id}`)
+        .set("Authorization", `Bearer ${token}`);
+      const deleteViewerResponse = await request(app.server)
+        .delete(`/users/${otherViewer.id}`)
+        .set("Authorization", `Bearer ${token}`);
+      const createResponse = await request(app.server)
+        .post("/users")
+        .set("Authorization", `Bearer ${token}`)
+        .send({
+          email: otherClient.email,
+          password: "password123456",
+          role: "VIEWER",
+          clientId: otherClient.id,
+        });
+
+      expect(getAdvisorResponse.status).toBe(403);
+      expect(deleteViewerResponse.status).toBe(403);
+      expect(createResponse.status).toBe(403);
+    });
+  });
+
+  describe("Organization Scope", () => {
+    it("should not let an ORG_ADMIN see or change users of another organization", async () => {
+      const otherOrganization = await createTestOrganization();
+      const { user: otherUser } = await createTestUser({
+        role: "ADVISOR",
+        organizationId: otherOrganization.id,
+      });
+
+      const listResponse = await request(app.server)
+        .get("/users?pageSize=100")
+        .set("Authorization", `Bearer ${adminToken}`);
+
+      expect(listResponse.status).toBe(200);
+      expect(
+        listResponse.body.users.map((user: { id: string }) => user.id)
+      ).not.toContain(otherUser.id);
+
+      const getResponse = await request(app.server)
+        .get(`/users/${otherUser.id}`)
+        .set("Authorization", `Bearer ${adminToken}`);
+
+      expect(getResponse.status).toBe(404);
+
+      const deleteResponse = await request(app.server)
+        .delete(`/users/${otherUser.id}`)
+        .set("Authorization", `Bearer ${adminToken}`);
+
+      expect(deleteResponse.status).toBe(404);
+
+      const stillExists = await prisma.user.findUnique({
+        where: { id: otherUser.id },
+      });
+      expect(stillExists).not.toBeNull();
+    });
+
+    it("should create users in the ORG_ADMIN's organization", async () => {
+      const response = await request(app.server)
+        .post("/users")
+        .set("Authorization", `Bearer ${adminToken}`)
+        .send({
+          email: `new-advisor.${Date.now()}${TEST_EMAIL_SUFFIX}`,
+          password: "password123456",
+          role: "ADVISOR",
+        });
+
+      expect(response.status).toBe(201);
+      expect(response.body.organizationId).toBe(TEST_ORGANIZATION_ID);
+    });
+
+    it("should return 409 if the email is already in use in another organization", async () => {
+      const otherOrganization = await createTestOrganization();
+      const { user: otherUser } = await createTestUser({
+        role: "ADVISOR",
+        organizationId: otherOrganization.id,
+      });
+
+      const response = await request(app.server)
+        .post("/users")
+        .set("Authorization", `Bearer ${adminToken}`)
+        .send({
+          email: otherUser.email,
+          password: "password123456",
+          role: "ADVISOR",
+        });
+
+      expect(response.status).toBe(409);
+    });
+  });
+
+  describe("Session Invalidation", () => {
+    it("should end the user's sessions when the password changes", async () => {
+      const { user, plainPassword } = await createTestUser({ role: "VIEWER" });
+      const viewerToken = await loginAndGetToken(user.email, plainPassword);
+
+      const response = await request(app.server)
+        .put(`/users/${user.id}`)
+        .set("Authorization", `Bearer ${adminToken}`)
+        .send({ password: "new_password_123" });
+
+      expect(response.status).toBe(200);
+
+      const meResponse = await request(app.server)
+        .get("/me")
+        .set("Authorization", `Bearer ${viewerToken}`);
+
+      expect(meResponse.status).toBe(401);
+    });
+
+    it("should keep the user's sessions when the role is sent unchanged", async () => {
+      const { user, plainPassword } = await createTestUser({ role: "ADVISOR" });
+      const advisorToken = await loginAndGetToken(user.email, plainPassword);
+
+      const response = await request(app.server)
+        .put(`/users/${user.id}`)
+        .set("Authorization", `Bearer ${adminToken}`)
+        .send({ role: "ADVISOR" });
+
+      expect(response.status).toBe(200);
+
+      const meResponse = await request(app.server)
+        .get("/me")
+        .set("Authorization", `Bearer ${advisorToken}`);
+
+      expect(meResponse.status).toBe(200);
+    });
+
+    it("should allow an ORG_ADMIN to end all sessions of a user", async () => {
+      const { user, plainPassword } = await createTestUser({
+        role: "ADVISOR",
+      });
+      const advisorToken = await loginAndGetToken(user.email, plainPassword);
+
+      const response = await request(app.server)
+        .delete(`/users/${user.id}/sessions`)
+        .set("Authorization", `Bearer ${adminToken}`);
+
+      expect(response.status).toBe(204);
+
+      const meResponse = await request(app.server)
+        .get("/me")
+        .set("Authorization", `Bearer ${advisorToken}`);
+
+      expect(meResponse.status).toBe(401);
+    });
+
+    it("should return 403 if an ADVISOR tries to end the sessions of a user outside their book", async () => {
+      const { user: advisor, plainPassword } = await createTestUser({
+        role: "ADVISOR",
+      });
+      const advisorToken = await loginAndGetToken(advisor.email, plainPassword);
+      const { user: otherAdvisor } = await createTestUser({
+        role: "ADVISOR",
+        emailPrefix: `other.${Date.now()}`,
+      });
+
+      const response = await request(app.server)
+        .delete(`/users/${otherAdvisor.id}/sessions`)
+        .set("Authorization", `Bearer ${advisorToken}`);
+
+      expect(response.status).toBe(403);
+    });
+  });
 });
@@ -0,0 +1,5 @@
+import { disableTenantScope } from "../../../lib/tenant";
+
+// Factories and cleanup run outside of a request, across organizations.
+// Requests still open their own tenant context in `bindTenantContext`.
+disableTenantScope();
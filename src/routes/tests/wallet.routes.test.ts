@@ -7,6 +7,7 @@ import { createTestClient } from "./factories/client-factory";
 import { createTestWallet, TEST_ASSET_CLASS } from "./factories/wallet-factory";
 
 describe("Wallet Routes", () => {
+  let advisorId: string;
   let advisorToken: string;
 
   beforeAll(async () => {
@@ -17,6 +18,7 @@ describe("Wallet Routes", () => {
     const { user: advisor, plainPassword } = await createTestUser({
       role: "ADVISOR",
     });
+    advisorId = advisor.id;
     advisorToken = await loginAndGetToken(advisor.email, plainPassword);
   });
 
@@ -50,7 +52,7 @@ describe("Wallet Routes", () => {
 
   describe("GET /clients/:clientId/wallet", () => {
     it("should allow an ADVISOR to get a client's wallet", async () => {
-      const wallet = await createTestWallet();
+      const wallet = await createTestWallet({ advisorId });
 
       const response = await request(app.server)
         .get(`/clients/${wallet.clientId}/wallet`)
@@ -98,7 +100,7 @@ describe("Wallet Routes", () => {
     });
 
     it("should return 404 if the client does not have a wallet", async () => {
-      const client = await createTestClient();
+      const client = await createTestClient({ advisorId });
 
       const response = await request(app.server)
         .get(`/clients/${client.id}/wallet`)
@@ -111,7 +113,7 @@ describe("Wallet Routes", () => {
 
   describe("PUT /clients/:clientId/wallet", () => {
     it("should allow an ADVISOR to CREATE a wallet for a client", async () => {
-      const client = await createTestClient();
+      const client = await createTestClient({ advisorId });
 
       const response = await request(app.server)
         .put(`/clients/${client.id}/wallet`)
@@ -124,7 +126,7 @@ describe("Wallet Routes", () => {
     });
 
     it("should allow an ADVISOR to UPDATE an existing wallet (returns 200)", async () => {
-      const wallet = await createTestWallet({ totalValue: 50000 });
+      const wallet = await createTestWallet({ advisorId, totalValue: 50000 });
 
       const response = await request(app.server)
         .put(`/clients/${wallet.clientId}/wallet`)
@@ -136,6 +138,27 @@ describe("Wallet Routes", () => {
       expect(response.body.totalValue).toBe("150000");
     });
 
+    it("should record a dated snapshot on every upsert", async () => {
+      const client = await createTestClient({ advisorId });
+
+      for (const totalValue of [100000, 120000]) {
+        await request(app.server)
+          .put(`/clients/${client.id}/wallet`)
+          .set("Authorization", `Bearer ${advisorToken}`)
+          .send({ totalValue });
+      }
+
+      const snapshots = await prisma.walletSnapshot.findMany({
+        where: { clientId: client.id },
+        orderBy: { recordedAt: "asc" },
+      });
+
+      expect(snapshots.map((s) => s.totalValue.toString())).toEqual([
+        "100000",
+        "120000",
+      ]);
+    });
+
     it("should return 403 if a VIEWER tries to upsert a wallet", async () => {
       const { user: viewer, plainPassword } = await createTestUser({
         role: "VIEWER",
@@ -163,9 +186,45 @@ describe("Wallet Routes", () => {
     });
   });
 
+  describe("GET /clients/:clientId/wallet/history", () => {
+    it("should list the wallet snapshots from newest to oldest", async () => {
+      const client = await createTestClient({ advisorId });
+
+      for (const totalValue of [100000, 120000]) {
+        await request(app.server)
+          .put(`/clients/${client.id}/wallet`)
+          .set("Authorization", `Bearer ${advisorToken}`)
+          .send({ totalValue });
+      }
+
+      const response = await request(app.server)
+        .get(`/clients/${client.id}/wallet/history`)
+        .set("Authorization", `Bearer ${advisorToken}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.meta.total).toBe(2);
+      expect(response.body.snapshots[0].totalValue).toBe("120000");
+      expect(response.body.snapshots[1].totalValue).toBe("100000");
+    });
+
+    it("should return 403 if a VIEWER tries to list ANOTHER client's history", async () => {
+      const client = await createTestClient({ advisorId });
+      const { user: viewer, plainPassword } = await createTestUser({
+        role: "VIEWER",
+      });
+      const viewerToken = await loginAndGetToken(viewer.email, plainPassword);
+
+      const response = await request(app.server)
+        .get(`/clients/${client.id}/wallet/history`)
+        .set("Authorization", `Bearer ${viewerToken}`);
+
+      expect(response.status).toBe(403);
+    });
+  });
+
   describe("DELETE /clients/:clientId", () => {
     it("should allow an ADVISOR to delete a client's wallet", async () => {
-      const wallet = await createTestWallet();
+      const wallet = await createTestWallet({ advisorId });
 
       const response = await request(app.server)
         .delete(`/clients/${wallet.clientId}/wallet`)
@@ -180,7 +239,7 @@ describe("Wallet Routes", () => {
     });
 
     it("should return 404 when trying to delete a wallet that does not exist", async () => {
-      const client = await createTestClient();
+      const client = await createTestClient({ advisorId });
       const response = await request(app.server)
         .delete(`/clients/${client.id}/wallet`)
         .set("Authorization", `Bearer ${advisorToken}`);
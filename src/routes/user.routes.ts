@@ -1,5 +1,6 @@
 import { FastifyInstance } from "fastify";
 import { prisma } from "../lib/prisma";
+import { runWithoutTenant } from "../lib/tenant";
 import {
   createUserSchema,
   paginatedUsersResponseSchema,
@@ -16,11 +17,19 @@ import {
 import { paginate } from "../utils/pagination";
 import { Prisma, User } from "@prisma/client";
 import { z } from "zod";
+import {
+  canAccessClient,
+  getManagedUserScope,
+} from "../services/client.service";
+import { revokeUserSessions } from "../services/session.service";
+import { sendEmailVerification } from "../services/user-token.service";
 
 const userPublicSelect = {
   id: true,
   email: true,
+  emailVerifiedAt: true,
   role: true,
+  organizationId: true,
   clientId: true,
   createdAt: true,
   updatedAt: true,
@@ -32,7 +41,8 @@ export async function userRoutes(app: FastifyInstance) {
     {
       onRequest: [app.authenticate, app.ensureAdvisor],
       schema: {
-        description: "Lista todos os usuários do sistema.",
+        description:
+          "Lista os usuários da organização. Um ADVISOR vê apenas os usuários VIEWER dos clientes da sua carteira.",
         tags: ["Users"],
         querystring: paginationQuerySchema,
         response: {
@@ -47,12 +57,13 @@ export async function userRoutes(app: FastifyInstance) {
       const { page, pageSize } = paginationQuerySchema.parse(request.query);
 
       const result = await paginate<
-        Prisma.UserDelegate,
+        typeof prisma.user,
         Prisma.UserFindManyArgs,
         User
       >(
         prisma.user,
         {
+          where: getManagedUserScope(request.user),
           select: userPublicSelect,
           orderBy: { createdAt: "desc" },
         },
@@ -69,7 +80,7 @@ export async function userRoutes(app: FastifyInstance) {
   app.get(
     "/users/:userId",
     {
-      onRequest: [app.authenticate, app.ensureAdvisor],
+      onRequest: [app.authenticate, app.ensureAdvisor, app.ensureManagedUser],
       schema: {
         description: "Obtém os detalhes de um usuário específico por seu ID.",
         tags: ["Users"],
@@ -137,7 +148,8 @@ export async function userRoutes(app: FastifyInstance) {
     {
       onRequest: [app.authenticate, app.ensureAdvisor],
       schema: {
-        description: "Cria um novo usuário (ADVISOR ou VIEWER).",
+        description:
+          "Cria um novo usuário na organização (ORG_ADMIN, ADVISOR ou VIEWER). Um ADVISOR só pode criar usuários VIEWER para os clientes da sua carteira.",
         tags: ["Users"],
         body: createUserSchema,
         response: {
@@ -154,7 +166,22 @@ export async function userRoutes(app: FastifyInstance) {
         request.body
       );
 
-      const existingUser = await prisma.user.findUnique({ where: { email } });
+      if (request.user.role === "ADVISOR" && role !== "VIEWER") {
+        return reply.status(403).send({
+          message:
+            "Acesso negado. Apenas administradores da organização podem criar usuários ORG_ADMIN ou ADVISOR.",
+        });
+      }
+
+      if (clientId && !(await canAccessClient(request.user, clientId))) {
+        return reply.status(403).send({
+          message: "Acesso negado. Este cliente não pertence à sua carteira.",
+        });
+      }
+
+      const existingUser = await runWithoutTenant(() =>
+        prisma.user.findUnique({ where: { email } })
+      );
       if (existingUser) {
         return reply
           .status(409)
@@ -168,10 +195,15 @@ export async function userRoutes(app: FastifyInstance) {
           email,
           password: hashedPassword,
           role,
+          organizationId: request.user.organizationId,
           clientId,
         },
       });
 
+      await sendEmailVerification(user).catch((error) =>
+        request.log.error(error, "Failed to send the email verification.")
+      );
+
       const { password: _, ...userWithoutPassword } = user;
       return reply.status(201).send(userWithoutPassword);
     }
@@ -180,9 +212,10 @@ export async function userRoutes(app: FastifyInstance) {
   app.put(
     "/users/:userId",
     {
-      onRequest: [app.authenticate, app.ensureAdvisor],
+      onRequest: [app.authenticate, app.ensureAdvisor, app.ensureManagedUser],
       schema: {
-        description: "Atualiza os dados de um usuário específico.",
+        description:
+          "Atualiza os dados de um usuário específico. Alterar a senha ou o papel encerra as sessões do usuário, e alterar o e-mail exige uma nova confirmação. Um ADVISOR só pode alterar os usuários VIEWER dos clientes da sua carteira, sem mudar o papel.",
         tags: ["Users"],
         params: userIdParamsSchema,
         body: updateUserSchema,
@@ -203,16 +236,50 @@ export async function userRoutes(app: FastifyInstance) {
       const { email, role } = parsedBody;
       let password = parsedBody.password;
 
+      if (request.user.role === "ADVISOR" && role && role !== "VIEWER") {
+        return reply.status(403).send({
+          message:
+            "Acesso negado. Apenas administradores da organização podem promover usuários.",
+        });
+      }
+
       if (password) {
         password = await bcrypt.hash(password, BCRYPT_SALT_ROUNDS);
       }
 
+      const currentUser = await prisma.user.findUnique({
+        where: { id },
+        select: { email: true, role: true },
+      });
+
+      if (!currentUser) {
+        return reply.status(404).send({ message: "Usuário não encontrado." });
+      }
+
+      const emailChanged = email !== undefined && email !== currentUser.email;
+      const roleChanged = role !== undefined && role !== currentUser.role;
+
       try {
         const updatedUser = await prisma.user.update({
           where: { id },
-          data: { email, password, role },
+          data: {
+            email,
+            password,
+            role,
+            emailVerifiedAt: emailChanged ? null : undefined,
+          },
         });
 
+        if (password || roleChanged) {
+          await revokeUserSessions(id);
+        }
+
+        if (emailChanged) {
+          await sendEmailVerification(updatedUser).catch((error) =>
+            request.log.error(error, "Failed to send the email verification.")
+          );
+        }
+
         const { password: _, ...userWithoutPassword } = updatedUser;
         return reply.status(200).send(userWithoutPassword);
       } catch (error) {
@@ -237,17 +304,19 @@ export async function userRoutes(app: FastifyInstance) {
   app.delete(
     "/users/:userId",
     {
-      onRequest: [app.authenticate, app.ensureAdvisor],
+      onRequest: [app.authenticate, app.ensureAdvisor, app.ensureManagedUser],
       schema: {
-        description: "Deleta um usuário específico.",
+        description:
+          "Deleta um usuário específico. Um ADVISOR só pode deletar os usuários VIEWER dos clientes da sua carteira.",
         tags: ["Users"],
         params: userIdParamsSchema,
         response: {
-          204: z.object(),
+          204: z.null(),
           400: returnMessageSchema,
           401: returnMessageSchema,
           403: returnMessageSchema,
           404: returnMessageSchema,
+          409: returnMessageSchema,
         },
         security: [{ bearerAuth: [] }],
       },
@@ -273,8 +342,50 @@ export async function userRoutes(app: FastifyInstance) {
         ) {
           return reply.status(404).send({ message: "Usuário não encontrado." });
         }
+        if (
+          error instanceof Prisma.PrismaClientKnownRequestError &&
+          error.code === "P2003"
+        ) {
+          return reply.status(409).send({
+            message:
+              "O usuário é o assessor responsável por clientes. Transfira-os para outro assessor antes de deletá-lo.",
+          });
+        }
         throw error;
       }
     }
   );
+
+  app.delete(
+    "/users/:userId/sessions",
+    {
+      onRequest: [app.authenticate, app.ensureAdvisor, app.ensureManagedUser],
+      schema: {
+        description:
+          "Encerra todas as sessões de um usuário. Um ADVISOR só pode encerrar as sessões de usuários VIEWER dos clientes da sua carteira.",
+        tags: ["Users", "Sessions"],
+        params: userIdParamsSchema,
+        response: {
+          204: z.null(),
+          401: returnMessageSchema,
+          403: returnMessageSchema,
+          404: returnMessageSchema,
+        },
+        security: [{ bearerAuth: [] }],
+      },
+    },
+    async (request, reply) => {
+      const { userId: id } = userIdParamsSchema.parse(request.params);
+
+      const user = await prisma.user.count({ where: { id } });
+
+      if (!user) {
+        return reply.status(404).send({ message: "Usuário não encontrado." });
+      }
+
+      await revokeUserSessions(id);
+
+      return reply.status(204).send();
+    }
+  );
 }
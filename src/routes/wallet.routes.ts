@@ -1,12 +1,18 @@
 import { FastifyInstance } from "fastify";
 import { prisma } from "../lib/prisma";
 import {
+  paginatedWalletSnapshotsResponseSchema,
   upsertWalletSchema,
   walletResponseSchema,
 } from "../schemas/wallet.schema";
-import { returnMessageSchema } from "../schemas/shared.schema";
+import {
+  paginationQuerySchema,
+  returnMessageSchema,
+} from "../schemas/shared.schema";
 import { clientIdParamsSchema } from "../schemas/client.schema";
-import { Prisma } from "@prisma/client";
+import { paginate } from "../utils/pagination";
+import { recordAlignmentSnapshot } from "../services/alignment.service";
+import { Prisma, WalletSnapshot } from "@prisma/client";
 import { z } from "zod";
 
 const walletPublicSelect = {
@@ -18,11 +24,22 @@ const walletPublicSelect = {
   updatedAt: true,
 } as const;
 
+const walletSnapshotPublicSelect = {
+  id: true,
+  totalValue: true,
+  assetClasses: true,
+  recordedAt: true,
+} as const;
+
 export async function walletRoutes(app: FastifyInstance) {
   app.get(
     "/clients/:clientId/wallet",
     {
-      onRequest: [app.authenticate, app.ensureOwnerOrAdvisor],
+      onRequest: [
+        app.authenticate,
+        app.ensureOwnerOrAdvisor,
+        app.ensureAssignedAdvisor,
+      ],
       schema: {
         description:
           "Obtém a carteira (patrimônio e alocação) de um cliente específico.",
@@ -62,9 +79,14 @@ export async function walletRoutes(app: FastifyInstance) {
   app.put(
     "/clients/:clientId/wallet",
     {
-      onRequest: [app.authenticate, app.ensureAdvisor],
+      onRequest: [
+        app.authenticate,
+        app.ensureAdvisor,
+        app.ensureAssignedAdvisor,
+      ],
       schema: {
-        description: "Cria ou atualiza a carteira de um cliente específico.",
+        description:
+          "Cria ou atualiza a carteira de um cliente específico e registra um retrato datado no histórico.",
         tags: ["Wallets"],
         params: clientIdParamsSchema,
         body: upsertWalletSchema,
@@ -82,16 +104,32 @@ export async function walletRoutes(app: FastifyInstance) {
       const data = upsertWalletSchema.parse(request.body);
 
       try {
-        const wallet = await prisma.wallet.upsert({
-          where: { clientId },
-          update: data,
-          create: {
-            ...data,
-            clientId,
-          },
-          select: walletPublicSelect,
+        const wallet = await prisma.$transaction(async (tx) => {
+          const wallet = await tx.wallet.upsert({
+            where: { clientId },
+            update: data,
+            create: {
+              ...data,
+              clientId,
+            },
+            select: walletPublicSelect,
+          });
+
+          await tx.walletSnapshot.create({
+            data: {
+              totalValue: wallet.totalValue,
+              assetClasses: wallet.assetClasses ?? Prisma.JsonNull,
+              clientId,
+            },
+          });
+
+          return wallet;
         });
 
+        await recordAlignmentSnapshot(clientId).catch((error) =>
+          request.log.error(error, "Failed to record the alignment snapshot.")
+        );
+
         return reply.status(200).send({
           ...wallet,
           totalValue: wallet.totalValue.toString(),
@@ -110,10 +148,66 @@ export async function walletRoutes(app: FastifyInstance) {
     }
   );
 
+  app.get(
+    "/clients/:clientId/wallet/history",
+    {
+      onRequest: [
+        app.authenticate,
+        app.ensureOwnerOrAdvisor,
+        app.ensureAssignedAdvisor,
+      ],
+      schema: {
+        description:
+          "Lista o histórico de retratos da carteira de um cliente, do mais recente ao mais antigo, com paginação.",
+        tags: ["Wallets"],
+        params: clientIdParamsSchema,
+        querystring: paginationQuerySchema,
+        response: {
+          200: paginatedWalletSnapshotsResponseSchema,
+          401: returnMessageSchema,
+          403: returnMessageSchema,
+        },
+        security: [{ bearerAuth: [] }],
+      },
+    },
+    async (request, reply) => {
+      const { clientId } = clientIdParamsSchema.parse(request.params);
+      const { page, pageSize } = paginationQuerySchema.parse(request.query);
+
+      const result = await paginate<
+        typeof prisma.walletSnapshot,
+        Prisma.WalletSnapshotFindManyArgs,
+        WalletSnapshot
+      >(
+        prisma.walletSnapshot,
+        {
+          where: { clientId },
+          select: walletSnapshotPublicSelect,
+          orderBy: { recordedAt: "desc" },
+        },
+        { page, pageSize }
+      );
+
+      const snapshots = result.items.map((snapshot) => ({
+        ...snapshot,
+        totalValue: snapshot.totalValue.toString(),
+      }));
+
+      return reply.status(200).send({
+        snapshots,
+        meta: result.meta,
+      });
+    }
+  );
+
   app.delete(
     "/clients/:clientId/wallet",
     {
-      onRequest: [app.authenticate, app.ensureAdvisor],
+      onRequest: [
+        app.authenticate,
+        app.ensureAdvisor,
+        app.ensureAssignedAdvisor,
+      ],
       schema: {
         description: "Deleta a carteira de um cliente específico.",
         tags: ["Wallets"],
@@ -132,6 +226,11 @@ export async function walletRoutes(app: FastifyInstance) {
 
       try {
         await prisma.wallet.delete({ where: { clientId } });
+
+        await recordAlignmentSnapshot(clientId).catch((error) =>
+          request.log.error(error, "Failed to record the alignment snapshot.")
+        );
+
         return reply.status(204).send();
       } catch (error) {
         if (
@@ -0,0 +1,13 @@
+import { z } from "zod";
+
+export const createPasswordResetSchema = z.object({
+  email: z.email("Formato de e-mail inválido."),
+});
+
+export const confirmPasswordResetSchema = z.object({
+  password: z.string().min(8, "A senha deve ter no mínimo 8 caracteres."),
+});
+
+export const accountTokenParamsSchema = z.object({
+  token: z.string().min(1),
+});
@@ -1,5 +1,9 @@
 import { z } from "zod";
 import { createPaginatedResponseSchema } from "./shared.schema";
+import {
+  alignmentBandResponseSchema,
+  alignmentCategorySchema,
+} from "./settings.schema";
 
 export const familyMemberSchema = z.object({
   relationship: z.enum(["PARTNER", "CHILD", "OTHER"]),
@@ -30,6 +34,7 @@ export const clientResponseSchema = z.object({
   dateOfBirth: z.date(),
   isActive: z.boolean(),
   familyProfile: z.json().nullable(),
+  advisorId: z.uuid().nullable(),
   createdAt: z.date(),
   updatedAt: z.date(),
 });
@@ -50,8 +55,63 @@ export const paginatedClientsResponseSchema = createPaginatedResponseSchema(
   items: z.undefined(),
 });
 
+const clientAdvisorSchema = z.object({
+  id: z.uuid(),
+  email: z.email(),
+});
+
+export const updateClientAdvisorsSchema = z.object({
+  ownerId: z.uuid(),
+  coAdvisorIds: z.array(z.uuid()).default([]),
+});
+
+export const clientAdvisorsResponseSchema = z.object({
+  owner: clientAdvisorSchema.nullable(),
+  coAdvisors: z.array(clientAdvisorSchema),
+});
+
 export const clientStatsResponseSchema = z.object({
   totalClients: z.number().int(),
   clientsWithPlan: z.number().int(),
   percentageWithPlan: z.number(),
 });
+
+export const alignmentDashboardQuerySchema = z.object({
+  staleAfterDays: z.coerce
+    .number()
+    .int()
+    .min(1, "O prazo de desatualização deve ser de pelo menos 1 dia.")
+    .default(90),
+  limit: z.coerce.number().int().min(1).max(50).default(5),
+});
+
+export const alignmentDashboardResponseSchema = z.object({
+  totalActiveClients: z.number().int(),
+  clientsWithPlan: z.number().int(),
+  distribution: z.array(
+    alignmentBandResponseSchema.extend({
+      count: z.number().int(),
+      percentage: z.number(),
+    })
+  ),
+  worstAligned: z.array(
+    z.object({
+      clientId: z.uuid(),
+      name: z.string(),
+      email: z.email(),
+      alignmentPercentage: z.string(),
+      category: alignmentCategorySchema,
+    })
+  ),
+  staleAfterDays: z.number().int(),
+  staleWalletCount: z.number().int(),
+  staleWallets: z.array(
+    z.object({
+      clientId: z.uuid(),
+      name: z.string(),
+      email: z.email(),
+      walletUpdatedAt: z.date(),
+      daysSinceUpdate: z.number().int(),
+    })
+  ),
+});
@@ -1,16 +1,62 @@
 import { z } from "zod";
 import { createPaginatedResponseSchema } from "./shared.schema";
 
-export const createEventSchema = z.object({
+const eventBaseSchema = z.object({
   description: z
     .string()
     .min(3, "A descrição deve ter pelo menos 3 caracteres."),
   category: z.enum(["INCOME", "EXPENSE"]),
   value: z.number().positive("O valor deve ser positivo."),
   frequency: z.enum(["UNIQUE", "MONTHLY", "ANNUAL"]),
+  startDate: z.coerce.date().nullable().optional(),
+  endDate: z.coerce.date().nullable().optional(),
+  occurrenceDate: z.coerce.date().nullable().optional(),
+  inflationIndexed: z.boolean().optional(),
 });
 
-export const updateEventSchema = createEventSchema.partial();
+type EventDatesInput = Partial<z.infer<typeof eventBaseSchema>>;
+
+const refineEventDates = <T extends z.ZodType<EventDatesInput>>(schema: T) =>
+  schema
+    .refine(
+      (data) =>
+        data.frequency !== "UNIQUE" || (!data.startDate && !data.endDate),
+      {
+        message:
+          "Movimentações do tipo UNIQUE usam occurrenceDate em vez de startDate/endDate.",
+        path: ["frequency"],
+      }
+    )
+    .refine(
+      (data) =>
+        !data.frequency || data.frequency === "UNIQUE" || !data.occurrenceDate,
+      {
+        message:
+          "O campo occurrenceDate só pode ser usado em movimentações do tipo UNIQUE.",
+        path: ["occurrenceDate"],
+      }
+    )
+    .refine(
+      (data) =>
+        !data.startDate || !data.endDate || data.endDate >= data.startDate,
+      {
+        message: "A data final não pode ser anterior à data inicial.",
+        path: ["endDate"],
+      }
+    );
+
+export const createEventSchema = refineEventDates(eventBaseSchema);
+
+export const updateEventSchema = refineEventDates(eventBaseSchema.partial());
+
+export const eventDatesSchema = refineEventDates(
+  eventBaseSchema.pick({
+    frequency: true,
+    startDate: true,
+    endDate: true,
+    occurrenceDate: true,
+  })
+);
 
 export const eventIdParamsSchema = z.object({
   eventId: z.uuid(),
@@ -22,6 +68,10 @@ export const eventResponseSchema = z.object({
   category: z.enum(["INCOME", "EXPENSE"]),
   value: z.string(),
   frequency: z.enum(["UNIQUE", "MONTHLY", "ANNUAL"]),
+  startDate: z.date().nullable(),
+  endDate: z.date().nullable(),
+  occurrenceDate: z.date().nullable(),
+  inflationIndexed: z.boolean(),
   clientId: z.uuid(),
   createdAt: z.date(),
   updatedAt: z.date(),
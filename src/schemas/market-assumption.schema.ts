@@ -0,0 +1,30 @@
+import { z } from "zod";
+
+export const createMarketAssumptionSchema = z.object({
+  className: z.string().min(1, "O nome da classe de ativo é obrigatório."),
+  expectedReturn: z
+    .number()
+    .gt(-100, "O retorno esperado deve ser maior que -100%."),
+  volatility: z.number().min(0, "A volatilidade não pode ser negativa."),
+});
+
+export const updateMarketAssumptionSchema =
+  createMarketAssumptionSchema.partial();
+
+export const marketAssumptionIdParamsSchema = z.object({
+  assumptionId: z.uuid(),
+});
+
+export const marketAssumptionResponseSchema = z.object({
+  id: z.uuid(),
+  className: z.string(),
+  expectedReturn: z.string(),
+  volatility: z.string(),
+  organizationId: z.uuid(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+export const listMarketAssumptionsResponseSchema = z.array(
+  marketAssumptionResponseSchema
+);
@@ -0,0 +1,26 @@
+import { z } from "zod";
+import { userResponseSchema } from "./user.schema";
+
+export const createOrganizationSchema = z.object({
+  name: z.string().min(1, "O nome da organização é obrigatório."),
+  admin: z.object({
+    email: z.email("Formato de e-mail inválido."),
+    password: z.string().min(8, "A senha deve ter no mínimo 8 caracteres."),
+  }),
+});
+
+export const updateOrganizationSchema = z.object({
+  name: z.string().min(1, "O nome da organização é obrigatório."),
+});
+
+export const organizationResponseSchema = z.object({
+  id: z.uuid(),
+  name: z.string(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+export const createOrganizationResponseSchema = z.object({
+  organization: organizationResponseSchema,
+  admin: userResponseSchema,
+});
@@ -1,13 +1,69 @@
 import { z } from "zod";
+import {
+  alignmentBandResponseSchema,
+  alignmentCategorySchema,
+} from "./settings.schema";
 
-export const alignmentCategorySchema = z.enum([
-  "green",
-  "yellow-light",
-  "yellow-dark",
-  "red",
+export const alignmentMethodSchema = z.enum([
+  "current",
+  "projected",
+  "present-value",
 ]);
 
+export const alignmentQuerySchema = z.object({
+  method: alignmentMethodSchema.default("current"),
+  annualRate: z.coerce
+    .number()
+    .min(0, "A taxa anual não pode ser negativa.")
+    .default(4),
+});
+
+export const alignmentTrendSchema = z.enum([
+  "IMPROVING",
+  "STABLE",
+  "DECLINING",
+]);
+
+export const alignmentHistoryQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  tolerance: z.coerce
+    .number()
+    .min(0, "A tolerância não pode ser negativa.")
+    .default(1),
+});
+
+export const alignmentHistoryResponseSchema = z.object({
+  trend: alignmentTrendSchema.nullable(),
+  change: z.string().nullable(),
+  tolerance: z.number(),
+  points: z.array(
+    z.object({
+      recordedAt: z.date(),
+      alignmentPercentage: z.string(),
+      category: alignmentCategorySchema,
+    })
+  ),
+});
+
 export const alignmentResponseSchema = z.object({
+  method: alignmentMethodSchema,
   alignmentPercentage: z.string(),
   category: alignmentCategorySchema,
+  band: alignmentBandResponseSchema,
+  reason: z.string(),
+  goals: z.array(
+    z.object({
+      goalId: z.uuid(),
+      description: z.string(),
+      targetValue: z.string(),
+      targetDate: z.date(),
+      requiredValue: z.string(),
+      fundedValue: z.string(),
+      shortfall: z.string(),
+      alignmentPercentage: z.string(),
+      contribution: z.string(),
+      underfunded: z.boolean(),
+    })
+  ),
 });
@@ -5,6 +5,28 @@ export const createSessionSchema = z.object({
   password: z.string(),
 });
 
+export const refreshSessionSchema = z.object({
+  refreshToken: z.string().min(1),
+});
+
 export const sessionResponseSchema = z.object({
   token: z.string(),
+  refreshToken: z.string(),
+});
+
+export const sessionIdParamsSchema = z.object({
+  sessionId: z.uuid(),
+});
+
+export const activeSessionSchema = z.object({
+  id: z.uuid(),
+  ipAddress: z.string().nullable(),
+  userAgent: z.string().nullable(),
+  createdAt: z.date(),
+  lastUsedAt: z.date(),
+  current: z.boolean(),
+});
+
+export const listActiveSessionsResponseSchema = z.object({
+  sessions: z.array(activeSessionSchema),
 });
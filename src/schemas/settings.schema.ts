@@ -0,0 +1,66 @@
+import { z } from "zod";
+
+export const alignmentCategorySchema = z
+  .string()
+  .regex(
+    /^[a-z0-9]+(-[a-z0-9]+)*$/,
+    "A categoria deve conter apenas letras minúsculas, números e hífens."
+  );
+
+export const alignmentBandSchema = z.object({
+  category: alignmentCategorySchema,
+  label: z.string().min(1, "O nome da faixa é obrigatório."),
+  color: z
+    .string()
+    .regex(/^#[0-9a-fA-F]{6}$/, "A cor deve estar no formato #RRGGBB."),
+  minPercentage: z
+    .number()
+    .min(0, "O percentual mínimo da faixa não pode ser negativo."),
+  minInclusive: z.boolean().default(true),
+});
+
+export const updateAlignmentSettingsSchema = z
+  .object({
+    bands: z
+      .array(alignmentBandSchema)
+      .min(1, "Informe ao menos uma faixa de alinhamento.")
+      .max(10, "Informe no máximo 10 faixas de alinhamento."),
+  })
+  .superRefine(({ bands }, ctx) => {
+    const categories = new Set(bands.map((band) => band.category));
+    if (categories.size !== bands.length) {
+      ctx.addIssue({
+        code: "custom",
+        message: "As categorias das faixas devem ser únicas.",
+        path: ["bands"],
+      });
+    }
+
+    const minimums = new Set(bands.map((band) => band.minPercentage));
+    if (minimums.size !== bands.length) {
+      ctx.addIssue({
+        code: "custom",
+        message: "Os percentuais mínimos das faixas devem ser únicos.",
+        path: ["bands"],
+      });
+    }
+
+    if (!bands.some((band) => band.minPercentage === 0 && band.minInclusive)) {
+      ctx.addIssue({
+        code: "custom",
+        message:
+          "Uma das faixas deve começar em 0% (inclusive) para cobrir todos os percentuais.",
+        path: ["bands"],
+      });
+    }
+  });
+
+export const alignmentBandResponseSchema = alignmentBandSchema.extend({
+  minPercentage: z.string(),
+  minInclusive: z.boolean(),
+});
+
+export const alignmentSettingsResponseSchema = z.object({
+  isDefault: z.boolean(),
+  bands: z.array(alignmentBandResponseSchema),
+});
@@ -5,6 +5,14 @@ export const paginationQuerySchema = z.object({
   pageSize: z.coerce.number().int().min(1).max(100).default(20),
 });
 
+export const exportFormatQuerySchema = z.object({
+  format: z.enum(["json", "csv", "xlsx"]).optional(),
+});
+
+export type ExportFormat = NonNullable<
+  z.infer<typeof exportFormatQuerySchema>["format"]
+>;
+
 export const createPaginatedResponseSchema = <T extends ZodType>(
   itemSchema: T
 ) => {
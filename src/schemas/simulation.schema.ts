@@ -1,25 +1,328 @@
 import {z} from 'zod';
-import {createPaginatedResponseSchema} from './shared.schema';
+import {assetClassSchema, createPaginatedResponseSchema} from './shared.schema';
+import {createEventSchema} from './event.schema';
 
-export const createProjectionSchema = z.object({
-	annualRate: z
+const projectionParametersSchema = z.object({
+	startDate: z.coerce.date().optional(),
+	endYear: z
 		.number()
-		.min(0, 'A taxa anual não pode ser negativa.')
-		.default(4),
+		.int()
+		.max(2200, 'O ano final da projeção não pode ser posterior a 2200.')
+		.optional(),
+	untilAge: z
+		.number()
+		.int()
+		.min(1, 'A idade final deve ser positiva.')
+		.max(120, 'A idade final não pode ser maior que 120 anos.')
+		.optional(),
+	inflationRate: z
+		.number()
+		.min(0, 'A taxa de inflação não pode ser negativa.')
+		.default(0),
+	returnSource: z.enum(['FLAT_RATE', 'ALLOCATION']).default('FLAT_RATE'),
+	assetClasses: z.array(assetClassSchema).optional(),
+});
+
+const refineProjectionHorizon = <T extends z.ZodType<{endYear?: number; untilAge?: number}>>(schema: T) =>
+	schema.refine(data => data.endYear === undefined || data.untilAge === undefined, {
+		message: 'Informe apenas um entre endYear e untilAge.',
+		path: ['untilAge'],
+	});
+
+const annualRateSchema = z
+	.number()
+	.min(0, 'A taxa anual não pode ser negativa.')
+	.default(4);
+
+export const createProjectionSchema = refineProjectionHorizon(
+	projectionParametersSchema.extend({
+		annualRate: annualRateSchema,
+		managementFee: z
+			.number()
+			.min(0, 'A taxa de administração não pode ser negativa.')
+			.max(100, 'A taxa de administração não pode ser maior que 100%.')
+			.default(0),
+		gainsTaxRate: z
+			.number()
+			.min(0, 'A alíquota sobre ganhos não pode ser negativa.')
+			.max(100, 'A alíquota sobre ganhos não pode ser maior que 100%.')
+			.optional(),
+		gainsTaxPreset: z.enum(['BR_REGRESSIVE_FIXED_INCOME']).optional(),
+		incomeTaxRate: z
+			.number()
+			.min(0, 'A alíquota sobre entradas não pode ser negativa.')
+			.max(100, 'A alíquota sobre entradas não pode ser maior que 100%.')
+			.default(0),
+	}),
+).refine(data => data.gainsTaxRate === undefined || data.gainsTaxPreset === undefined, {
+	message: 'Informe apenas um entre gainsTaxRate e gainsTaxPreset.',
+	path: ['gainsTaxPreset'],
 });
 
+export const createGoalProjectionSchema = refineProjectionHorizon(
+	projectionParametersSchema.extend({
+		annualRate: annualRateSchema,
+		withdrawGoals: z.boolean().default(false),
+	}),
+);
+
+export const createMonteCarloProjectionSchema = refineProjectionHorizon(
+	projectionParametersSchema.extend({
+		endYear: z
+			.number()
+			.int()
+			.max(2100, 'O ano final da simulação de Monte Carlo não pode ser posterior a 2100.')
+			.optional(),
+		meanAnnualReturn: z
+			.number()
+			.min(-100, 'O retorno médio anual deve ser maior que -100%.')
+			.default(4),
+		annualVolatility: z
+			.number()
+			.min(0, 'A volatilidade anual não pode ser negativa.')
+			.default(10),
+		assetCorrelation: z
+			.number()
+			.min(0, 'A correlação entre as classes de ativo não pode ser negativa.')
+			.max(1, 'A correlação entre as classes de ativo não pode ser maior que 1.')
+			.default(0),
+		paths: z
+			.number()
+			.int()
+			.min(10, 'A simulação deve ter pelo menos 10 cenários.')
+			.max(2000, 'A simulação pode ter no máximo 2000 cenários.')
+			.default(500),
+		seed: z.number().int().min(0).optional(),
+	}),
+);
+
 const projectionPointSchema = z.object({
 	year: z.number().int(),
 	projectedValue: z.string(),
+	realValue: z.string(),
+});
+
+const taxedProjectionPointSchema = projectionPointSchema.extend({
+	postTaxValue: z.string(),
+	postTaxRealValue: z.string(),
+});
+
+export const projectionResponseSchema = z.array(taxedProjectionPointSchema);
+
+export const solveProjectionSchema = refineProjectionHorizon(
+	projectionParametersSchema.extend({
+		solveFor: z.enum(['MONTHLY_CONTRIBUTION', 'ANNUAL_RATE', 'RETIREMENT_DATE']),
+		goalId: z.uuid().optional(),
+		targetValue: z.number().positive('O valor-alvo deve ser um número positivo.').optional(),
+		targetYear: z
+			.number()
+			.int()
+			.max(2200, 'O ano-alvo não pode ser posterior a 2200.')
+			.optional(),
+		annualRate: annualRateSchema,
+		monthlyContribution: z
+			.number()
+			.min(0, 'O aporte mensal não pode ser negativo.')
+			.default(0),
+		monthlyWithdrawal: z
+			.number()
+			.min(0, 'O resgate mensal não pode ser negativo.')
+			.default(0),
+	}),
+)
+	.refine(data => (data.goalId === undefined) !== (data.targetValue === undefined), {
+		message: 'Informe uma meta (goalId) ou um valor-alvo (targetValue).',
+		path: ['targetValue'],
+	})
+	.refine(
+		data => data.solveFor === 'RETIREMENT_DATE' || data.goalId !== undefined || data.targetYear !== undefined,
+		{
+			message: 'Informe o ano-alvo (targetYear) do valor-alvo.',
+			path: ['targetYear'],
+		},
+	);
+
+export const createRetirementProjectionSchema = refineProjectionHorizon(
+	projectionParametersSchema.extend({
+		annualRate: annualRateSchema,
+		retirementAge: z
+			.number()
+			.int()
+			.min(1, 'A idade de aposentadoria deve ser positiva.')
+			.max(120, 'A idade de aposentadoria não pode ser maior que 120 anos.'),
+		withdrawalStrategy: z.enum(['FIXED_REAL', 'PERCENTAGE', 'GUARDRAILS']),
+		monthlyWithdrawal: z
+			.number()
+			.min(0, 'O resgate mensal não pode ser negativo.')
+			.optional(),
+		withdrawalRate: z
+			.number()
+			.positive('A taxa de resgate deve ser positiva.')
+			.max(100, 'A taxa de resgate não pode ser maior que 100%.')
+			.optional(),
+		guardrailBand: z
+			.number()
+			.positive('A banda dos guardrails deve ser positiva.')
+			.max(100, 'A banda dos guardrails não pode ser maior que 100%.')
+			.default(20),
+		guardrailAdjustment: z
+			.number()
+			.positive('O ajuste dos guardrails deve ser positivo.')
+			.max(100, 'O ajuste dos guardrails não pode ser maior que 100%.')
+			.default(10),
+	}),
+)
+	.refine(data => data.withdrawalStrategy !== 'FIXED_REAL' || data.monthlyWithdrawal !== undefined, {
+		message: 'Informe o resgate mensal (monthlyWithdrawal) para a estratégia FIXED_REAL.',
+		path: ['monthlyWithdrawal'],
+	})
+	.refine(data => data.withdrawalStrategy === 'FIXED_REAL' || data.withdrawalRate !== undefined, {
+		message: 'Informe a taxa de resgate anual (withdrawalRate) para a estratégia escolhida.',
+		path: ['withdrawalRate'],
+	});
+
+const projectionScenarioSchema = z.object({
+	name: z.string().min(1, 'O nome do cenário é obrigatório.'),
+	annualRate: annualRateSchema,
+	initialValue: z.number().min(0, 'O patrimônio inicial não pode ser negativo.').optional(),
+	events: z.array(createEventSchema).default([]),
+	includeExistingEvents: z.boolean().default(true),
+});
+
+export const compareProjectionsSchema = refineProjectionHorizon(
+	projectionParametersSchema.omit({returnSource: true, assetClasses: true}).extend({
+		scenarios: z
+			.array(projectionScenarioSchema)
+			.min(1, 'Informe pelo menos um cenário.')
+			.max(10, 'Informe no máximo 10 cenários.'),
+		baseline: z.string().optional(),
+	}),
+)
+	.refine(data => new Set(data.scenarios.map(scenario => scenario.name)).size === data.scenarios.length, {
+		message: 'Os nomes dos cenários devem ser únicos.',
+		path: ['scenarios'],
+	})
+	.refine(data => data.baseline === undefined || data.scenarios.some(scenario => scenario.name === data.baseline), {
+		message: 'O cenário base deve ser um dos cenários informados.',
+		path: ['baseline'],
+	});
+
+export const goalProjectionResponseSchema = z.object({
+	projection: z.array(projectionPointSchema),
+	goals: z.array(
+		z.object({
+			goalId: z.uuid(),
+			description: z.string(),
+			targetValue: z.string(),
+			targetDate: z.date(),
+			status: z.enum(['REACHED', 'MISSED', 'OUTSIDE_HORIZON']),
+			reachedYear: z.number().int().nullable(),
+			reachedDate: z.date().nullable(),
+			shortfall: z.string().nullable(),
+		}),
+	),
+});
+
+export const solveProjectionResponseSchema = z.object({
+	solveFor: z.enum(['MONTHLY_CONTRIBUTION', 'ANNUAL_RATE', 'RETIREMENT_DATE']),
+	targetValue: z.string(),
+	targetDate: z.date().nullable(),
+	monthlyContribution: z.string(),
+	annualRate: z.number(),
+	retirementDate: z.date().nullable(),
+	projection: z.array(projectionPointSchema),
+});
+
+export const retirementProjectionResponseSchema = z.object({
+	retirementDate: z.date(),
+	depletionYear: z.number().int().nullable(),
+	maxSustainableMonthlyIncome: z.string().nullable(),
+	projection: z.array(
+		projectionPointSchema.extend({
+			withdrawal: z.string(),
+		}),
+	),
 });
 
-export const projectionResponseSchema = z.array(projectionPointSchema);
+export const compareProjectionsResponseSchema = z.object({
+	baseline: z.string(),
+	scenarios: z.array(
+		z.object({
+			name: z.string(),
+			annualRate: z.number(),
+			initialValue: z.string(),
+			projection: z.array(
+				projectionPointSchema.extend({
+					deltaFromBaseline: z.string(),
+					realDeltaFromBaseline: z.string(),
+				}),
+			),
+		}),
+	),
+});
+
+export const monteCarloResponseSchema = z.object({
+	seed: z.number().int(),
+	paths: z.number().int(),
+	annualVolatility: z.number(),
+	probabilityOfSolvency: z.number(),
+	percentiles: z.array(
+		z.object({
+			year: z.number().int(),
+			p10: z.string(),
+			p50: z.string(),
+			p90: z.string(),
+		}),
+	),
+	goals: z.array(
+		z.object({
+			goalId: z.uuid(),
+			description: z.string(),
+			targetValue: z.string(),
+			targetDate: z.date(),
+			probabilityOfSuccess: z.number(),
+		}),
+	),
+});
+
+export const createSimulationSchema = createProjectionSchema;
+
+const simulationEventSnapshotSchema = z.object({
+	id: z.string(),
+	description: z.string(),
+	category: z.enum(['INCOME', 'EXPENSE']),
+	value: z.string(),
+	frequency: z.enum(['UNIQUE', 'MONTHLY', 'ANNUAL']),
+	startDate: z.coerce.date().nullable(),
+	endDate: z.coerce.date().nullable(),
+	occurrenceDate: z.coerce.date().nullable(),
+	inflationIndexed: z.boolean(),
+});
 
-export const createSimulationSchema = z.object({
-	projectionData: projectionResponseSchema,
-	rate: z.number(),
+export const simulationInputsSchema = z.object({
+	walletValue: z.string(),
+	events: z.array(simulationEventSnapshotSchema),
+	parameters: z.object({
+		annualRate: z.number(),
+		startDate: z.coerce.date(),
+		endYear: z.number().int(),
+		inflationRate: z.number(),
+		returnSource: z.enum(['FLAT_RATE', 'ALLOCATION']),
+		assetClasses: z.array(assetClassSchema).nullable(),
+		managementFee: z.number(),
+		gainsTaxRate: z.number().nullable(),
+		gainsTaxPreset: z.enum(['BR_REGRESSIVE_FIXED_INCOME']).nullable(),
+		incomeTaxRate: z.number(),
+	}),
 });
 
+export const savedProjectionSchema = z.array(
+	z.object({
+		year: z.number().int(),
+		projectedValue: z.string().regex(/^-?\d+(\.\d+)?$/),
+	}),
+);
+
 export const simulationIdParamsSchema = z.object({
 	simulationId: z.uuid(),
 });
@@ -30,9 +333,93 @@ export const simulationResponseSchema = z.object({
 	projection: z.json(),
 	rate: z.string(),
 	endYear: z.number(),
+	inputs: z.json().nullable(),
+	engineVersion: z.number().int().nullable(),
 	clientId: z.uuid(),
 });
 
+export const compareSimulationsParamsSchema = z.object({
+	simulationId: z.uuid(),
+	otherSimulationId: z.uuid(),
+});
+
+const valueChangeSchema = z
+	.object({
+		from: z.string(),
+		to: z.string(),
+	})
+	.nullable();
+
+export const compareSimulationsResponseSchema = z.object({
+	simulationId: z.uuid(),
+	otherSimulationId: z.uuid(),
+	rateChange: valueChangeSchema,
+	projection: z.array(
+		z.object({
+			year: z.number().int(),
+			value: z.string().nullable(),
+			otherValue: z.string().nullable(),
+			delta: z.string().nullable(),
+		}),
+	),
+	inputChanges: z
+		.object({
+			walletValue: valueChangeSchema,
+			eventsAdded: z.array(simulationEventSnapshotSchema),
+			eventsRemoved: z.array(simulationEventSnapshotSchema),
+			eventsModified: z.array(
+				z.object({
+					from: simulationEventSnapshotSchema,
+					to: simulationEventSnapshotSchema,
+				}),
+			),
+			parameters: z.array(
+				z.object({
+					name: z.string(),
+					from: z.json(),
+					to: z.json(),
+				}),
+			),
+		})
+		.nullable(),
+});
+
+export const simulationRerunResponseSchema = z.object({
+	simulationId: z.uuid(),
+	savedEngineVersion: z.number().int().nullable(),
+	currentEngineVersion: z.number().int(),
+	hasDrift: z.boolean(),
+	maxAbsoluteDrift: z.string(),
+	projection: z.array(
+		z.object({
+			year: z.number().int(),
+			savedValue: z.string().nullable(),
+			currentValue: z.string(),
+			drift: z.string().nullable(),
+		}),
+	),
+});
+
+export const simulationTrackingQuerySchema = z.object({
+	tolerance: z.coerce.number().min(0).max(100).default(5),
+});
+
+export const simulationTrackingResponseSchema = z.object({
+	simulationId: z.uuid(),
+	status: z.enum(['AHEAD', 'ON_TRACK', 'BEHIND']).nullable(),
+	tolerance: z.number(),
+	trackingError: z.string().nullable(),
+	points: z.array(
+		z.object({
+			date: z.date(),
+			actualValue: z.string(),
+			plannedValue: z.string(),
+			deviation: z.string(),
+			deviationPercent: z.string().nullable(),
+		}),
+	),
+});
+
 export const paginatedSimulationsResponseSchema = createPaginatedResponseSchema(simulationResponseSchema).extend({
 	simulations: z.array(simulationResponseSchema),
 	items: z.undefined(),
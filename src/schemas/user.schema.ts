@@ -1,7 +1,7 @@
 import { z } from "zod";
 import { createPaginatedResponseSchema } from "./shared.schema";
 
-const roleEnum = z.enum(["ADVISOR", "VIEWER"]);
+const roleEnum = z.enum(["ORG_ADMIN", "ADVISOR", "VIEWER"]);
 
 export const createUserSchema = z
   .object({
@@ -26,7 +26,9 @@ export const createUserSchema = z
 export const userResponseSchema = z.object({
   id: z.uuid(),
   email: z.email(),
+  emailVerifiedAt: z.date().nullable(),
   role: roleEnum,
+  organizationId: z.uuid(),
   createdAt: z.date(),
 });
 
@@ -1,5 +1,8 @@
 import { z } from "zod";
-import { assetClassSchema } from "./shared.schema";
+import {
+  assetClassSchema,
+  createPaginatedResponseSchema,
+} from "./shared.schema";
 
 export const upsertWalletSchema = z.object({
   totalValue: z.number().min(0, "O patrimônio total não pode ser negativo."),
@@ -14,3 +17,16 @@ export const walletResponseSchema = z.object({
   createdAt: z.date(),
   updatedAt: z.date(),
 });
+
+export const walletSnapshotResponseSchema = z.object({
+  id: z.uuid(),
+  totalValue: z.string(),
+  assetClasses: z.json().nullable(),
+  recordedAt: z.date(),
+});
+
+export const paginatedWalletSnapshotsResponseSchema =
+  createPaginatedResponseSchema(walletSnapshotResponseSchema).extend({
+    snapshots: z.array(walletSnapshotResponseSchema),
+    items: z.undefined(),
+  });
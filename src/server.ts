@@ -16,8 +16,13 @@ import { sessionRoutes } from "./routes/session.routes";
 import {
   authenticate,
   ensureAdvisor,
+  ensureAssignedAdvisor,
+  ensureManagedUser,
+  ensureOrgAdmin,
   ensureOwnerOrAdvisor,
+  ensurePlatformOperator,
 } from "./hooks/auth";
+import { bindTenantContext } from "./hooks/tenant";
 import { clientRoutes } from "./routes/client.routes";
 import { goalRoutes } from "./routes/goal.routes";
 import { walletRoutes } from "./routes/wallet.routes";
@@ -25,6 +30,12 @@ import { eventRoutes } from "./routes/event.routes";
 import { insuranceRoutes } from "./routes/insurance.routes";
 import { planningRoutes } from "./routes/planning.routes";
 import { simulationRoutes } from "./routes/simulation.routes";
+import { marketAssumptionRoutes } from "./routes/market-assumption.routes";
+import { reportRoutes } from "./routes/report.routes";
+import { settingsRoutes } from "./routes/settings.routes";
+import { organizationRoutes } from "./routes/organization.routes";
+import { accountRoutes } from "./routes/account.routes";
+import { setupMailer } from "./lib/mailer";
 
 config({ path: resolve(__dirname, "..", ".env") });
 
@@ -34,10 +45,13 @@ export const app = fastify({
 if (!process.env.JWT_SECRET) {
   throw new Error("Please set JWT_SECRET in your environment variables.");
 }
+setupMailer();
 
 app.setValidatorCompiler(validatorCompiler);
 app.setSerializerCompiler(serializerCompiler);
 
+app.addHook("onRequest", bindTenantContext);
+
 app.register(fastifyCors, { origin: "*" });
 app.register(fastifyJwt, { secret: process.env.JWT_SECRET });
 
@@ -72,10 +86,19 @@ app.register(eventRoutes);
 app.register(insuranceRoutes);
 app.register(planningRoutes);
 app.register(simulationRoutes);
+app.register(marketAssumptionRoutes);
+app.register(reportRoutes);
+app.register(settingsRoutes);
+app.register(organizationRoutes);
+app.register(accountRoutes);
 
 app.decorate("authenticate", authenticate);
 app.decorate("ensureAdvisor", ensureAdvisor);
+app.decorate("ensureOrgAdmin", ensureOrgAdmin);
+app.decorate("ensurePlatformOperator", ensurePlatformOperator);
 app.decorate("ensureOwnerOrAdvisor", ensureOwnerOrAdvisor);
+app.decorate("ensureAssignedAdvisor", ensureAssignedAdvisor);
+app.decorate("ensureManagedUser", ensureManagedUser);
 
 const PORT = Number(process.env.PORT) || 3333;
 app.listen({ port: PORT, host: "0.0.0.0" });
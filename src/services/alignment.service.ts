@@ -1,7 +1,27 @@
 import { z } from "zod";
 import { prisma } from "../lib/prisma";
-import { alignmentCategorySchema } from "../schemas/planning.schema";
+import {
+  alignmentMethodSchema,
+  alignmentTrendSchema,
+} from "../schemas/planning.schema";
 import { Decimal } from "@prisma/client/runtime/library";
+import { AlignmentBand, AlignmentSnapshot } from "@prisma/client";
+import { generateGoalProjectionForClient } from "./projection.service";
+
+export type AlignmentMethod = z.infer<typeof alignmentMethodSchema>;
+
+export type AlignmentBandDefinition = Pick<
+  AlignmentBand,
+  "category" | "label" | "color" | "minPercentage" | "minInclusive"
+>;
+
+export type AlignmentTrend = z.infer<typeof alignmentTrendSchema>;
+
+export type AlignmentOptions = {
+  method?: AlignmentMethod;
+  annualRate?: number;
+  bands?: AlignmentBandDefinition[];
+};
 
 export class AlignmentError extends Error {
   constructor(message: string) {
@@ -10,10 +30,203 @@ export class AlignmentError extends Error {
   }
 }
 
-export async function calculateAlignment(clientId: string) {
+export const DEFAULT_ALIGNMENT_BANDS: AlignmentBandDefinition[] = [
+  {
+    category: "green",
+    label: "Verde",
+    color: "#16a34a",
+    minPercentage: Decimal(90),
+    minInclusive: false,
+  },
+  {
+    category: "yellow-light",
+    label: "Amarelo claro",
+    color: "#facc15",
+    minPercentage: Decimal(70),
+    minInclusive: true,
+  },
+  {
+    category: "yellow-dark",
+    label: "Amarelo escuro",
+    color: "#ca8a04",
+    minPercentage: Decimal(50),
+    minInclusive: true,
+  },
+  {
+    category: "red",
+    label: "Vermelho",
+    color: "#dc2626",
+    minPercentage: Decimal(0),
+    minInclusive: true,
+  },
+];
+
+const currencyFormatter = new Intl.NumberFormat("pt-BR", {
+  style: "currency",
+  currency: "BRL",
+});
+
+type GoalAlignment = {
+  description: string;
+  targetDate: Date;
+  shortfall: Decimal;
+};
+
+export async function getAlignmentBands() {
+  const bands = await prisma.alignmentBand.findMany({
+    orderBy: { minPercentage: "desc" },
+  });
+
+  return bands.length > 0 ? bands : DEFAULT_ALIGNMENT_BANDS;
+}
+
+function sortBands(bands: AlignmentBandDefinition[]) {
+  return [...bands].sort((a, b) => b.minPercentage.comparedTo(a.minPercentage));
+}
+
+export function categorizeAlignment(
+  alignmentPercentage: Decimal,
+  bands: AlignmentBandDefinition[] = DEFAULT_ALIGNMENT_BANDS
+) {
+  const sortedBands = sortBands(bands);
+
+  return (
+    sortedBands.find((band) =>
+      band.minInclusive
+        ? alignmentPercentage.gte(band.minPercentage)
+        : alignmentPercentage.gt(band.minPercentage)
+    ) ?? sortedBands[sortedBands.length - 1]
+  );
+}
+
+function formatPercentage(value: Decimal) {
+  return value
+    .toDecimalPlaces(2)
+    .toNumber()
+    .toLocaleString("pt-BR", { maximumFractionDigits: 2 });
+}
+
+export function describeBandRange(
+  band: AlignmentBandDefinition,
+  bands: AlignmentBandDefinition[]
+) {
+  const sortedBands = sortBands(bands);
+  const upperBand = sortedBands[sortedBands.indexOf(band) - 1];
+  const min = formatPercentage(band.minPercentage);
+
+  if (!upperBand) {
+    return band.minInclusive ? `a partir de ${min}%` : `acima de ${min}%`;
+  }
+
+  const max = formatPercentage(upperBand.minPercentage);
+
+  return band.minPercentage.equals(0) && band.minInclusive
+    ? `abaixo de ${max}%`
+    : `de ${min}% a ${max}%`;
+}
+
+export function calculatePresentValue(
+  value: Decimal,
+  targetDate: Date,
+  annualRate: number,
+  referenceDate: Date = new Date()
+) {
+  const months =
+    (targetDate.getUTCFullYear() - referenceDate.getUTCFullYear()) * 12 +
+    (targetDate.getUTCMonth() - referenceDate.getUTCMonth());
+
+  if (months <= 0) {
+    return value;
+  }
+
+  return value.div(Decimal(1 + annualRate / 100).pow(months / 12));
+}
+
+export function describeAlignment(
+  method: AlignmentMethod,
+  alignmentPercentage: Decimal,
+  band: AlignmentBandDefinition,
+  bands: AlignmentBandDefinition[],
+  goals: GoalAlignment[]
+) {
+  const percentage = formatPercentage(alignmentPercentage);
+  const patrimony =
+    method === "projected" ? "O patrimônio projetado" : "O patrimônio atual";
+  const summary = `${patrimony} cobre ${percentage}% do valor necessário para as metas, na faixa "${band.label}" (${describeBandRange(band, bands)}).`;
+
+  const underfunded = goals.filter((goal) => goal.shortfall.gt(0));
+
+  if (underfunded.length === 0) {
+    return `${summary} Todas as metas estão cobertas.`;
+  }
+
+  const largest = underfunded.reduce((largest, goal) =>
+    goal.shortfall.gt(largest.shortfall) ? goal : largest
+  );
+  const targetDate = largest.targetDate.toLocaleDateString("pt-BR", {
+    timeZone: "UTC",
+  });
+  const count =
+    underfunded.length === 1
+      ? `1 de ${goals.length} metas está subfinanciada`
+      : `${underfunded.length} de ${goals.length} metas estão subfinanciadas`;
+
+  return `${summary} ${count}; a maior falta é em "${largest.description}", com ${currencyFormatter.format(largest.shortfall.toNumber())} a descoberto para ${targetDate}.`;
+}
+
+export function formatAlignmentBand(band: AlignmentBandDefinition) {
+  return {
+    category: band.category,
+    label: band.label,
+    color: band.color,
+    minPercentage: band.minPercentage.toString(),
+    minInclusive: band.minInclusive,
+  };
+}
+
+function allocateSequentially(available: Decimal, requiredValues: Decimal[]) {
+  let remaining = available;
+
+  return requiredValues.map((required) => {
+    const funded = Decimal.min(remaining, required);
+    remaining = Decimal.max(remaining.minus(funded), 0);
+    return funded;
+  });
+}
+
+export function fundProjectedGoals(
+  requiredValues: Decimal[],
+  valuesAtTargetDate: (Decimal | null)[]
+) {
+  return requiredValues.map((required, index) =>
+    Decimal.max(
+      Decimal.min(valuesAtTargetDate[index] ?? Decimal(0), required),
+      0
+    )
+  );
+}
+
+export function calculateAlignmentPercentage(
+  currentPatrimony: Decimal,
+  plannedPatrimony: Decimal
+) {
+  if (plannedPatrimony.equals(0)) {
+    return Decimal(100);
+  }
+
+  return currentPatrimony.div(plannedPatrimony).times(100);
+}
+
+export async function calculateAlignment(
+  clientId: string,
+  { method = "current", annualRate = 4, bands }: AlignmentOptions = {}
+) {
   const [wallet, goals] = await prisma.$transaction([
     prisma.wallet.findUnique({ where: { clientId } }),
-    prisma.goal.findMany({ where: { clientId } }),
+    prisma.goal.findMany({
+      where: { clientId },
+      orderBy: { targetDate: "asc" },
+    }),
   ]);
 
   if (!wallet) {
@@ -28,32 +241,173 @@ export async function calculateAlignment(clientId: string) {
     );
   }
 
-  const plannedPatrimony = goals.reduce(
-    (sum, goal) => sum.plus(goal.targetValue),
-    Decimal(0)
+  const requiredValues = goals.map((goal) =>
+    method === "present-value"
+      ? calculatePresentValue(goal.targetValue, goal.targetDate, annualRate)
+      : goal.targetValue
   );
 
-  if (plannedPatrimony.equals(0)) {
-    return { alignmentPercentage: "100", category: "green" };
-  }
+  let fundedValues: Decimal[];
 
-  const alignmentPercentage = wallet.totalValue
-    .div(plannedPatrimony)
-    .times(100);
+  if (method === "projected") {
+    const lastGoalYear = goals[goals.length - 1].targetDate.getUTCFullYear();
+    const { goals: outcomes } = await generateGoalProjectionForClient(
+      clientId,
+      annualRate,
+      {
+        endYear: Math.max(lastGoalYear, new Date().getUTCFullYear()),
+        withdrawGoals: true,
+        withdrawPartialGoals: true,
+      }
+    );
 
-  let category: z.infer<typeof alignmentCategorySchema>;
-  if (alignmentPercentage.gt(90)) {
-    category = "green";
-  } else if (alignmentPercentage.gte(70)) {
-    category = "yellow-light";
-  } else if (alignmentPercentage.gte(50)) {
-    category = "yellow-dark";
+    fundedValues = fundProjectedGoals(
+      requiredValues,
+      outcomes.map((outcome) => outcome.valueAtTargetDate)
+    );
   } else {
-    category = "red";
+    fundedValues = allocateSequentially(wallet.totalValue, requiredValues);
   }
 
+  const plannedPatrimony = requiredValues.reduce(
+    (sum, value) => sum.plus(value),
+    Decimal(0)
+  );
+
+  const goalAlignments = goals.map((goal, index) => {
+    const required = requiredValues[index];
+    const funded = fundedValues[index];
+    const shortfall = Decimal.max(required.minus(funded), 0);
+
+    return {
+      goalId: goal.id,
+      description: goal.description,
+      targetValue: goal.targetValue,
+      targetDate: goal.targetDate,
+      required,
+      funded,
+      shortfall,
+      coverage: required.equals(0)
+        ? Decimal(100)
+        : funded.div(required).times(100),
+      contribution: plannedPatrimony.equals(0)
+        ? Decimal(0)
+        : funded.div(plannedPatrimony).times(100),
+    };
+  });
+
+  const alignmentPercentage = calculateAlignmentPercentage(
+    method === "projected"
+      ? fundedValues.reduce((sum, value) => sum.plus(value), Decimal(0))
+      : wallet.totalValue,
+    plannedPatrimony
+  );
+
+  const alignmentBands = bands ?? (await getAlignmentBands());
+  const band = categorizeAlignment(alignmentPercentage, alignmentBands);
+
   return {
+    method,
     alignmentPercentage: alignmentPercentage.toString(),
-    category,
+    category: band.category,
+    band: formatAlignmentBand(band),
+    reason: describeAlignment(
+      method,
+      alignmentPercentage,
+      band,
+      alignmentBands,
+      goalAlignments
+    ),
+    goals: goalAlignments.map((goal) => ({
+      goalId: goal.goalId,
+      description: goal.description,
+      targetValue: goal.targetValue.toFixed(2),
+      targetDate: goal.targetDate,
+      requiredValue: goal.required.toFixed(2),
+      fundedValue: goal.funded.toFixed(2),
+      shortfall: goal.shortfall.toFixed(2),
+      alignmentPercentage: goal.coverage.toFixed(2),
+      contribution: goal.contribution.toFixed(2),
+      underfunded: goal.shortfall.gt(0),
+    })),
   };
 }
+
+export async function recordAlignmentSnapshot(clientId: string) {
+  let alignmentPercentage: Decimal;
+  let category: AlignmentBand["category"];
+
+  try {
+    const alignment = await calculateAlignment(clientId);
+    alignmentPercentage = Decimal(
+      alignment.alignmentPercentage
+    ).toDecimalPlaces(2);
+    category = alignment.category;
+  } catch (error) {
+    if (!(error instanceof AlignmentError)) {
+      throw error;
+    }
+
+    // Once the wallet is deleted nothing funds the goals, so the history
+    // drops to 0% instead of keeping the last recorded alignment.
+    const [wallet, goalCount] = await prisma.$transaction([
+      prisma.wallet.findUnique({ where: { clientId }, select: { id: true } }),
+      prisma.goal.count({ where: { clientId } }),
+    ]);
+
+    if (wallet || goalCount === 0) {
+      return null;
+    }
+
+    alignmentPercentage = Decimal(0);
+    category = categorizeAlignment(
+      alignmentPercentage,
+      await getAlignmentBands()
+    ).category;
+  }
+
+  const latestSnapshot = await prisma.alignmentSnapshot.findFirst({
+    where: { clientId },
+    orderBy: { recordedAt: "desc" },
+  });
+
+  if (
+    latestSnapshot &&
+    latestSnapshot.alignmentPercentage.equals(alignmentPercentage) &&
+    latestSnapshot.category === category
+  ) {
+    return latestSnapshot;
+  }
+
+  return prisma.alignmentSnapshot.create({
+    data: {
+      alignmentPercentage,
+      category,
+      clientId,
+    },
+  });
+}
+
+export function calculateAlignmentTrend(
+  snapshots: Pick<AlignmentSnapshot, "alignmentPercentage">[],
+  tolerance: number
+) {
+  if (snapshots.length < 2) {
+    return { trend: null, change: null };
+  }
+
+  const change = snapshots[snapshots.length - 1].alignmentPercentage.minus(
+    snapshots[0].alignmentPercentage
+  );
+
+  let trend: AlignmentTrend;
+  if (change.gt(tolerance)) {
+    trend = "IMPROVING";
+  } else if (change.lt(-tolerance)) {
+    trend = "DECLINING";
+  } else {
+    trend = "STABLE";
+  }
+
+  return { trend, change };
+}
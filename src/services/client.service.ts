@@ -1,7 +1,62 @@
+import { Prisma } from "@prisma/client";
+import { Decimal } from "@prisma/client/runtime/library";
 import { prisma } from "../lib/prisma";
+import { AuthenticatedUser } from "../hooks/auth";
+import {
+  calculateAlignmentPercentage,
+  categorizeAlignment,
+  formatAlignmentBand,
+  getAlignmentBands,
+} from "./alignment.service";
 
-export async function getClientPlanningStats() {
-  const totalClients = await prisma.client.count();
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+export function getClientScope(
+  user: Pick<AuthenticatedUser, "sub" | "role" | "clientId">
+): Prisma.ClientWhereInput {
+  if (user.role === "VIEWER") {
+    return { id: user.clientId ?? { in: [] } };
+  }
+
+  if (user.role === "ORG_ADMIN") {
+    return {};
+  }
+
+  return {
+    OR: [
+      { advisorId: user.sub },
+      { coAdvisors: { some: { advisorId: user.sub } } },
+    ],
+  };
+}
+
+export function getManagedUserScope(
+  user: Pick<AuthenticatedUser, "sub" | "role" | "clientId">
+): Prisma.UserWhereInput {
+  if (user.role === "ORG_ADMIN") {
+    return {};
+  }
+
+  return { role: "VIEWER", client: getClientScope(user) };
+}
+
+export async function canAccessClient(
+  user: Pick<AuthenticatedUser, "sub" | "role" | "clientId">,
+  clientId: string
+) {
+  if (user.role === "VIEWER") {
+    return user.clientId === clientId;
+  }
+
+  const count = await prisma.client.count({
+    where: { AND: [{ id: clientId }, getClientScope(user)] },
+  });
+
+  return count > 0;
+}
+
+export async function getClientPlanningStats(scope: Prisma.ClientWhereInput) {
+  const totalClients = await prisma.client.count({ where: scope });
 
   if (totalClients === 0) {
     return {
@@ -13,7 +68,7 @@ export async function getClientPlanningStats() {
 
   const clientsWithPlan = await prisma.client.count({
     where: {
-      AND: [{ wallet: { isNot: null } }, { goals: { some: {} } }],
+      AND: [scope, { wallet: { isNot: null } }, { goals: { some: {} } }],
     },
   });
 
@@ -27,3 +82,113 @@ export async function getClientPlanningStats() {
     percentageWithPlan,
   };
 }
+
+export async function getAlignmentDashboard(
+  scope: Prisma.ClientWhereInput,
+  {
+    staleAfterDays,
+    limit,
+  }: {
+    staleAfterDays: number;
+    limit: number;
+  }
+) {
+  const activeClients: Prisma.ClientWhereInput = {
+    AND: [scope, { isActive: true }],
+  };
+
+  const [clients, goalTotals, bands] = await Promise.all([
+    prisma.client.findMany({
+      where: activeClients,
+      select: {
+        id: true,
+        name: true,
+        email: true,
+        wallet: { select: { totalValue: true, updatedAt: true } },
+      },
+    }),
+    prisma.goal.groupBy({
+      by: ["clientId"],
+      where: { client: activeClients },
+      _sum: { targetValue: true },
+    }),
+    getAlignmentBands(),
+  ]);
+
+  const plannedPatrimonies = new Map(
+    goalTotals.map((total) => [
+      total.clientId,
+      total._sum.targetValue ?? Decimal(0),
+    ])
+  );
+
+  const alignments = clients.flatMap((client) => {
+    const plannedPatrimony = plannedPatrimonies.get(client.id);
+
+    if (!client.wallet || !plannedPatrimony) {
+      return [];
+    }
+
+    const alignmentPercentage = calculateAlignmentPercentage(
+      client.wallet.totalValue,
+      plannedPatrimony
+    );
+
+    return [
+      {
+        client,
+        alignmentPercentage,
+        category: categorizeAlignment(alignmentPercentage, bands).category,
+      },
+    ];
+  });
+
+  const staleBefore = new Date(Date.now() - staleAfterDays * DAY_IN_MS);
+  const staleWallets = clients
+    .flatMap(({ wallet, ...client }) =>
+      wallet && wallet.updatedAt < staleBefore
+        ? [{ ...client, walletUpdatedAt: wallet.updatedAt }]
+        : []
+    )
+    .sort((a, b) => a.walletUpdatedAt.getTime() - b.walletUpdatedAt.getTime());
+
+  return {
+    totalActiveClients: clients.length,
+    clientsWithPlan: alignments.length,
+    distribution: bands.map((band) => {
+      const count = alignments.filter(
+        (alignment) => alignment.category === band.category
+      ).length;
+
+      return {
+        ...formatAlignmentBand(band),
+        count,
+        percentage:
+          alignments.length === 0
+            ? 0
+            : parseFloat(((count / alignments.length) * 100).toFixed(2)),
+      };
+    }),
+    worstAligned: [...alignments]
+      .sort((a, b) => a.alignmentPercentage.comparedTo(b.alignmentPercentage))
+      .slice(0, limit)
+      .map(({ client, alignmentPercentage, category }) => ({
+        clientId: client.id,
+        name: client.name,
+        email: client.email,
+        alignmentPercentage: alignmentPercentage.toFixed(2),
+        category,
+      })),
+    staleAfterDays,
+    staleWalletCount: staleWallets.length,
+    staleWallets: staleWallets.slice(0, limit).map((client) => ({
+      clientId: client.id,
+      name: client.name,
+      email: client.email,
+      walletUpdatedAt: client.walletUpdatedAt,
+      daysSinceUpdate: Math.floor(
+        (Date.now() - client.walletUpdatedAt.getTime()) / DAY_IN_MS
+      ),
+    })),
+  };
+}
@@ -0,0 +1,195 @@
+import { Simulation } from "@prisma/client";
+import ExcelJS from "exceljs";
+import { z } from "zod";
+import { simulationInputsSchema } from "../schemas/simulation.schema";
+import { ExportFormat } from "../schemas/shared.schema";
+
+type ExportCell = string | number | boolean | null;
+type ExportRow = Record<string, ExportCell>;
+
+export type ProjectionExport = {
+  projection: ExportRow[];
+  assumptions: { name: string; value: ExportCell }[];
+  events: ExportRow[];
+};
+
+export const EXPORT_CONTENT_TYPES = {
+  csv: "text/csv; charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+} as const;
+
+const exportedProjectionSchema = z
+  .array(z.record(z.string(), z.union([z.string(), z.number()])))
+  .catch([]);
+
+export function resolveExportFormat(
+  format: ExportFormat | undefined,
+  accept: string | undefined
+): ExportFormat {
+  if (format) {
+    return format;
+  }
+
+  if (accept?.includes(EXPORT_CONTENT_TYPES.xlsx)) {
+    return "xlsx";
+  }
+
+  if (accept?.includes("text/csv")) {
+    return "csv";
+  }
+
+  return "json";
+}
+
+export function buildProjectionExport(
+  simulation: Pick<Simulation, "projection" | "rate" | "endYear" | "inputs">
+): ProjectionExport {
+  const assumptions: ProjectionExport["assumptions"] = [
+    { name: "rate", value: simulation.rate.toString() },
+    { name: "endYear", value: simulation.endYear },
+  ];
+
+  const inputs = simulationInputsSchema.safeParse(simulation.inputs);
+
+  if (!inputs.success) {
+    return {
+      projection: exportedProjectionSchema.parse(simulation.projection),
+      assumptions,
+      events: [],
+    };
+  }
+
+  const {
+    walletValue,
+    events,
+    parameters: { annualRate: _annualRate, assetClasses, ...parameters },
+  } = inputs.data;
+
+  assumptions.push({ name: "walletValue", value: walletValue });
+
+  for (const [name, value] of Object.entries(parameters)) {
+    assumptions.push({
+      name,
+      value: value instanceof Date ? value.toISOString() : value,
+    });
+  }
+
+  assumptions.push({
+    name: "assetClasses",
+    value:
+      assetClasses
+        ?.map(
+          (assetClass) => `${assetClass.className} ${assetClass.percentage}%`
+        )
+        .join("; ") ?? null,
+  });
+
+  return {
+    projection: exportedProjectionSchema.parse(simulation.projection),
+    assumptions,
+    events: events.map((event) => ({
+      ...event,
+      startDate: event.startDate?.toISOString() ?? null,
+      endDate: event.endDate?.toISOString() ?? null,
+      occurrenceDate: event.occurrenceDate?.toISOString() ?? null,
+    })),
+  };
+}
+
+const NUMERIC_TEXT = /^-?\d+(\.\d+)?$/;
+
+// Spreadsheets run cells starting with these characters as formulas, so
+// free text such as event descriptions is prefixed with a quote.
+function escapeFormula(text: string) {
+  return /^[=+\-@\t\r]/.test(text) && !NUMERIC_TEXT.test(text)
+    ? `'${text}`
+    : text;
+}
+
+function toCsvValue(value: ExportCell) {
+  const text =
+    value === null
+      ? ""
+      : typeof value === "string"
+        ? escapeFormula(value)
+        : String(value);
+
+  return /[",\r\n]/.test(text) ? `"${text.replaceAll('"', '""')}"` : text;
+}
+
+function* generateCsvTable(rows: ExportRow[]) {
+  if (rows.length === 0) {
+    return;
+  }
+
+  const columns = Object.keys(rows[0]);
+
+  yield `${columns.map(toCsvValue).join(",")}\r\n`;
+
+  for (const row of rows) {
+    yield `${columns.map((column) => toCsvValue(row[column] ?? null)).join(",")}\r\n`;
+  }
+}
+
+export function* generateProjectionCsv({
+  projection,
+  assumptions,
+  events,
+}: ProjectionExport) {
+  yield* generateCsvTable(projection);
+  yield "\r\n";
+  yield* generateCsvTable(assumptions);
+
+  if (events.length > 0) {
+    yield "\r\n";
+    yield* generateCsvTable(events);
+  }
+}
+
+function toWorksheetValue(value: string) {
+  return NUMERIC_TEXT.test(value) ? Number(value) : value;
+}
+
+function addWorksheet(
+  workbook: ExcelJS.Workbook,
+  name: string,
+  rows: ExportRow[]
+) {
+  const worksheet = workbook.addWorksheet(name);
+
+  if (rows.length === 0) {
+    return;
+  }
+
+  worksheet.columns = Object.keys(rows[0]).map((key) => ({
+    header: key,
+    key,
+    width: Math.max(key.length + 2, 14),
+  }));
+  worksheet.getRow(1).font = { bold: true };
+
+  for (const row of rows) {
+    worksheet.addRow(
+      Object.fromEntries(
+        Object.entries(row).map(([key, value]) => [
+          key,
+          typeof value === "string" ? toWorksheetValue(value) : value,
+        ])
+      )
+    );
+  }
+}
+
+export async function generateProjectionWorkbook({
+  projection,
+  assumptions,
+  events,
+}: ProjectionExport) {
+  const workbook = new ExcelJS.Workbook();
+
+  addWorksheet(workbook, "Projeção", projection);
+  addWorksheet(workbook, "Premissas", assumptions);
+  addWorksheet(workbook, "Movimentações", events);
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
@@ -1,11 +1,129 @@
 import { Decimal } from "@prisma/client/runtime/library";
 import { prisma } from "../lib/prisma";
-import { Event } from "@prisma/client";
-import { calculateMonthlyRate } from "../utils/finance";
+import { CapitalMarketAssumption, Event, Goal } from "@prisma/client";
+import { z } from "zod";
+import { assetClassSchema } from "../schemas/shared.schema";
+import {
+  calculateMonthlyFeeRate,
+  calculateMonthlyRate,
+  calculatePercentile,
+  findSmallestSufficientValue,
+} from "../utils/finance";
+import {
+  createRandomSeed,
+  createSeededRandom,
+  sampleStandardNormal,
+} from "../utils/random";
 
 type ProjectionPoint = {
   year: number;
   projectedValue: Decimal;
+  realValue: Decimal;
+};
+
+type TaxedProjectionPoint = ProjectionPoint & {
+  postTaxValue: Decimal;
+  postTaxRealValue: Decimal;
+};
+
+export type ProjectionHorizon = {
+  startDate?: Date;
+  endYear?: number;
+  untilAge?: number;
+};
+
+export type ProjectionOptions = Pick<
+  ProjectionHorizon,
+  "startDate" | "endYear"
+> & {
+  inflationRate?: number;
+};
+
+export type ProjectionParameters = ProjectionHorizon & {
+  inflationRate?: number;
+};
+
+type AssetAllocation = z.infer<typeof assetClassSchema>;
+
+export type ReturnAssumptions = {
+  returnSource?: "FLAT_RATE" | "ALLOCATION";
+  assetClasses?: AssetAllocation[];
+  assetCorrelation?: number;
+};
+
+export type GainsTaxPreset = "BR_REGRESSIVE_FIXED_INCOME";
+
+export type TaxAssumptions = {
+  managementFee?: number;
+  gainsTaxRate?: number;
+  gainsTaxPreset?: GainsTaxPreset;
+  incomeTaxRate?: number;
+};
+
+export type HypotheticalEvent = Pick<
+  ProjectionEvent,
+  "category" | "frequency"
+> & {
+  value: number;
+  startDate?: Date | null;
+  endDate?: Date | null;
+  occurrenceDate?: Date | null;
+  inflationIndexed?: boolean;
+};
+
+export type ProjectionScenario = {
+  name: string;
+  annualRate: number;
+  initialValue?: number;
+  events: HypotheticalEvent[];
+  includeExistingEvents: boolean;
+};
+
+export type GoalAssumptions = {
+  withdrawGoals?: boolean;
+  // Also withdraws whatever is available for goals that are only partly
+  // covered, so that the same wealth is not counted toward the next goal.
+  withdrawPartialGoals?: boolean;
+};
+
+export type GoalProjectionStatus = "REACHED" | "MISSED" | "OUTSIDE_HORIZON";
+
+export type WithdrawalStrategy = "FIXED_REAL" | "PERCENTAGE" | "GUARDRAILS";
+
+export type WithdrawalAssumptions = {
+  withdrawalStrategy: WithdrawalStrategy;
+  monthlyWithdrawal?: number;
+  withdrawalRate?: number;
+  guardrailBand?: number;
+  guardrailAdjustment?: number;
+};
+
+export type StochasticAssumptions = {
+  meanAnnualReturn: number;
+  annualVolatility: number;
+  paths: number;
+};
+
+export const DEFAULT_PROJECTION_END_YEAR = 2060;
+
+export const PROJECTION_ENGINE_VERSION = 1;
+
+const MAX_MONTHLY_WITHDRAWAL = 1e12;
+
+// Every simulated month is Decimal math on the event loop, so the Monte
+// Carlo cost (paths × months) is capped to keep a single request short.
+export const MAX_MONTE_CARLO_PATH_MONTHS = 300_000;
+
+const GAINS_TAX_PRESETS: Record<
+  GainsTaxPreset,
+  { maxMonthsHeld: number; rate: number }[]
+> = {
+  BR_REGRESSIVE_FIXED_INCOME: [
+    { maxMonthsHeld: 6, rate: 22.5 },
+    { maxMonthsHeld: 12, rate: 20 },
+    { maxMonthsHeld: 24, rate: 17.5 },
+    { maxMonthsHeld: Infinity, rate: 15 },
+  ],
 };
 
 export class ProjectionError extends Error {
@@ -15,53 +133,168 @@ export class ProjectionError extends Error {
   }
 }
 
-function calculateValueAfterEvents(events: Event[], currentValue: Decimal) {
+export type ProjectionEvent = Pick<
+  Event,
+  | "category"
+  | "value"
+  | "frequency"
+  | "startDate"
+  | "endDate"
+  | "occurrenceDate"
+  | "inflationIndexed"
+>;
+
+function toMonthIndex(date: Date) {
+  return date.getUTCFullYear() * 12 + date.getUTCMonth();
+}
+
+function fromMonthIndex(monthIndex: number) {
+  return new Date(Date.UTC(Math.floor(monthIndex / 12), monthIndex % 12, 1));
+}
+
+function toProjectionEvent(event: HypotheticalEvent): ProjectionEvent {
+  return {
+    category: event.category,
+    value: Decimal(event.value),
+    frequency: event.frequency,
+    startDate: event.startDate ?? null,
+    endDate: event.endDate ?? null,
+    occurrenceDate: event.occurrenceDate ?? null,
+    inflationIndexed: event.inflationIndexed ?? false,
+  };
+}
+
+function isEventActiveAt(event: ProjectionEvent, monthIndex: number) {
+  if (event.startDate && monthIndex < toMonthIndex(event.startDate)) {
+    return false;
+  }
+
+  if (event.endDate && monthIndex > toMonthIndex(event.endDate)) {
+    return false;
+  }
+
+  return true;
+}
+
+function calculateValueAfterEvents(
+  events: ProjectionEvent[],
+  currentValue: Decimal,
+  inflationFactor: Decimal = Decimal(1)
+) {
   return events.reduce((acc, event) => {
+    const eventValue = event.inflationIndexed
+      ? event.value.times(inflationFactor)
+      : event.value;
     const signedValue =
-      event.category === "INCOME" ? event.value : event.value.neg();
+      event.category === "INCOME" ? eventValue : eventValue.neg();
     return acc.plus(signedValue);
   }, currentValue);
 }
 
-export function simulateWealthCurve(
+type MonthState = {
+  monthIndex: number;
+  value: Decimal;
+  inflationFactor: Decimal;
+};
+
+type ProjectionHooks = {
+  onMonthStart?: (state: MonthState) => Decimal | void;
+  onMonthEnd?: (state: MonthState) => Decimal | void;
+};
+
+function runWealthCurve(
   initialValue: Decimal,
-  events: Event[],
-  annualRate: number = 4
+  events: ProjectionEvent[],
+  monthlyRateAt: (monthOffset: number) => Decimal,
+  options: ProjectionOptions,
+  { onMonthStart, onMonthEnd }: ProjectionHooks = {}
 ): ProjectionPoint[] {
+  const {
+    startDate = new Date(),
+    endYear = DEFAULT_PROJECTION_END_YEAR,
+    inflationRate = 0,
+  } = options;
+
   let currentValue = initialValue;
   const projectionResults: ProjectionPoint[] = [];
 
-  const projectionEndDate = new Date("2061-01-01");
-  const now = new Date();
+  const projectionEndDate = new Date(Date.UTC(endYear + 1, 0, 1));
 
-  const monthlyRate = calculateMonthlyRate(annualRate);
+  const monthlyInflationRate = calculateMonthlyRate(inflationRate);
+  let inflationFactor = Decimal(1);
+
+  const currentDate = new Date(
+    startDate.getUTCFullYear(),
+    startDate.getUTCMonth(),
+    1
+  );
+  const startMonthIndex = toMonthIndex(currentDate);
 
-  const uniqueEvents = events.filter((e) => e.frequency === "UNIQUE");
+  // Unique events dated before the projection start already happened, so
+  // they are expected to be reflected in the starting value.
+  const uniqueEvents = events.filter(
+    (e) =>
+      e.frequency === "UNIQUE" &&
+      (!e.occurrenceDate || toMonthIndex(e.occurrenceDate) >= startMonthIndex)
+  );
   const monthlyEvents = events.filter((e) => e.frequency === "MONTHLY");
   const annualEvents = events.filter((e) => e.frequency === "ANNUAL");
 
-  currentValue = calculateValueAfterEvents(uniqueEvents, currentValue);
+  const isImmediate = (event: ProjectionEvent) =>
+    !event.occurrenceDate ||
+    toMonthIndex(event.occurrenceDate) === startMonthIndex;
 
-  const currentDate = new Date(now.getUTCFullYear(), now.getUTCMonth(), 1);
+  currentValue = calculateValueAfterEvents(
+    uniqueEvents.filter(isImmediate),
+    currentValue
+  );
+  const scheduledUniqueEvents = uniqueEvents.filter((e) => !isImmediate(e));
 
   while (currentDate < projectionEndDate) {
     const currentMonth = currentDate.getUTCMonth();
+    const monthIndex = toMonthIndex(currentDate);
 
-    if (currentMonth === 0) {
-      currentValue = calculateValueAfterEvents(annualEvents, currentValue);
-    }
+    currentValue = calculateValueAfterEvents(
+      scheduledUniqueEvents.filter(
+        (e) => toMonthIndex(e.occurrenceDate!) === monthIndex
+      ),
+      currentValue,
+      inflationFactor
+    );
 
-    currentValue = calculateValueAfterEvents(monthlyEvents, currentValue);
-    currentValue = currentValue.times(monthlyRate.plus(1));
+    currentValue = calculateValueAfterEvents(
+      annualEvents.filter(
+        (e) =>
+          currentMonth === (e.startDate?.getUTCMonth() ?? 0) &&
+          isEventActiveAt(e, monthIndex)
+      ),
+      currentValue,
+      inflationFactor
+    );
+
+    currentValue = calculateValueAfterEvents(
+      monthlyEvents.filter((e) => isEventActiveAt(e, monthIndex)),
+      currentValue,
+      inflationFactor
+    );
+    currentValue =
+      onMonthStart?.({ monthIndex, value: currentValue, inflationFactor }) ??
+      currentValue;
+    currentValue = currentValue.times(
+      monthlyRateAt(monthIndex - startMonthIndex).plus(1)
+    );
+    inflationFactor = inflationFactor.times(monthlyInflationRate.plus(1));
+
+    currentValue =
+      onMonthEnd?.({ monthIndex, value: currentValue, inflationFactor }) ??
+      currentValue;
 
     if (currentMonth === 11) {
-      const currentYear = currentDate.getFullYear();
-      if (currentYear <= 2060) {
-        projectionResults.push({
-          year: currentYear,
-          projectedValue: currentValue,
-        });
-      }
+      projectionResults.push({
+        year: currentDate.getFullYear(),
+        projectedValue: currentValue,
+        realValue: currentValue.div(inflationFactor),
+      });
     }
 
     currentDate.setMonth(currentDate.getUTCMonth() + 1);
@@ -70,20 +303,816 @@ export function simulateWealthCurve(
   return projectionResults;
 }
 
-export async function generateProjectionForClient(
+export function resolveGainsTaxRate(
+  monthsHeld: number,
+  { gainsTaxRate = 0, gainsTaxPreset }: TaxAssumptions
+) {
+  if (!gainsTaxPreset) {
+    return gainsTaxRate;
+  }
+
+  return GAINS_TAX_PRESETS[gainsTaxPreset].find(
+    (tier) => monthsHeld <= tier.maxMonthsHeld
+  )!.rate;
+}
+
+export function simulateWealthCurve(
+  initialValue: Decimal,
+  events: ProjectionEvent[],
+  annualRate: number = 4,
+  {
+    managementFee = 0,
+    gainsTaxRate,
+    gainsTaxPreset,
+    incomeTaxRate = 0,
+    ...options
+  }: ProjectionOptions & TaxAssumptions = {}
+): TaxedProjectionPoint[] {
+  const monthlyRate = calculateMonthlyRate(annualRate);
+  const monthlyNetRate = monthlyRate
+    .plus(1)
+    .times(Decimal(1).minus(calculateMonthlyFeeRate(managementFee)))
+    .minus(1);
+  const netEvents = events.map((event) =>
+    event.category === "INCOME"
+      ? { ...event, value: event.value.times(1 - incomeTaxRate / 100) }
+      : event
+  );
+
+  const grossCurve = runWealthCurve(
+    initialValue,
+    events,
+    () => monthlyRate,
+    options
+  );
+  const netCurve = runWealthCurve(
+    initialValue,
+    netEvents,
+    () => monthlyNetRate,
+    options
+  );
+  const costBasisCurve = runWealthCurve(
+    initialValue,
+    netEvents,
+    () => Decimal(0),
+    options
+  );
+
+  const startMonthIndex = toMonthIndex(options.startDate ?? new Date());
+  const monthlyInflationRate = calculateMonthlyRate(options.inflationRate ?? 0);
+
+  return grossCurve.map((point, index) => {
+    const monthsHeld = point.year * 12 + 11 - startMonthIndex + 1;
+    const netValue = netCurve[index].projectedValue;
+    const gains = Decimal.max(
+      netValue.minus(costBasisCurve[index].projectedValue),
+      0
+    );
+    const postTaxValue = netValue.minus(
+      gains
+        .times(
+          resolveGainsTaxRate(monthsHeld, { gainsTaxRate, gainsTaxPreset })
+        )
+        .div(100)
+    );
+
+    return {
+      ...point,
+      postTaxValue,
+      postTaxRealValue: postTaxValue.div(
+        monthlyInflationRate.plus(1).pow(monthsHeld)
+      ),
+    };
+  });
+}
+
+export function simulateGoalAwareWealthCurve(
+  initialValue: Decimal,
+  events: ProjectionEvent[],
+  goals: Pick<Goal, "id" | "targetValue" | "targetDate">[],
+  annualRate: number = 4,
+  {
+    withdrawGoals = false,
+    withdrawPartialGoals = false,
+    ...options
+  }: ProjectionOptions & GoalAssumptions = {}
+) {
+  const monthlyRate = calculateMonthlyRate(annualRate);
+  const goalsByTargetDate = [...goals].sort(
+    (a, b) => a.targetDate.getTime() - b.targetDate.getTime()
+  );
+  const outcomes = new Map(
+    goals.map((goal) => [
+      goal.id,
+      {
+        reachedDate: null as Date | null,
+        valueAtTargetDate: null as Decimal | null,
+      },
+    ])
+  );
+
+  const projection = runWealthCurve(
+    initialValue,
+    events,
+    () => monthlyRate,
+    options,
+    {
+      onMonthEnd: ({ monthIndex, value }) => {
+        let adjustedValue = value;
+
+        for (const goal of goalsByTargetDate) {
+          const outcome = outcomes.get(goal.id)!;
+
+          if (
+            outcome.reachedDate === null &&
+            adjustedValue.gte(goal.targetValue)
+          ) {
+            outcome.reachedDate = fromMonthIndex(monthIndex);
+          }
+
+          if (
+            outcome.valueAtTargetDate === null &&
+            monthIndex >= toMonthIndex(goal.targetDate)
+          ) {
+            outcome.valueAtTargetDate = adjustedValue;
+
+            if (withdrawGoals && adjustedValue.gte(goal.targetValue)) {
+              adjustedValue = adjustedValue.minus(goal.targetValue);
+            } else if (withdrawGoals && withdrawPartialGoals) {
+              adjustedValue = adjustedValue.minus(
+                Decimal.max(adjustedValue, 0)
+              );
+            }
+          }
+        }
+
+        return adjustedValue;
+      },
+    }
+  );
+
+  return {
+    projection,
+    goals: goals.map((goal) => {
+      const { reachedDate, valueAtTargetDate } = outcomes.get(goal.id)!;
+
+      let status: GoalProjectionStatus = "OUTSIDE_HORIZON";
+      let shortfall: Decimal | null = null;
+
+      if (valueAtTargetDate) {
+        const isReached = valueAtTargetDate.gte(goal.targetValue);
+        status = isReached ? "REACHED" : "MISSED";
+        shortfall = isReached
+          ? Decimal(0)
+          : goal.targetValue.minus(valueAtTargetDate);
+      }
+
+      return {
+        goalId: goal.id,
+        status,
+        reachedYear: reachedDate?.getUTCFullYear() ?? null,
+        reachedDate,
+        shortfall,
+        valueAtTargetDate,
+      };
+    }),
+  };
+}
+
+function stopContributionsAt(
+  events: ProjectionEvent[],
+  retirementMonthIndex: number
+): ProjectionEvent[] {
+  const lastContributionDate = fromMonthIndex(retirementMonthIndex - 1);
+
+  return events.map((event) => {
+    const isContribution =
+      event.category === "INCOME" &&
+      event.frequency !== "UNIQUE" &&
+      (!event.startDate ||
+        toMonthIndex(event.startDate) < retirementMonthIndex) &&
+      (!event.endDate || toMonthIndex(event.endDate) >= retirementMonthIndex);
+
+    return isContribution ? { ...event, endDate: lastContributionDate } : event;
+  });
+}
+
+export function simulateRetirementWealthCurve(
+  initialValue: Decimal,
+  events: ProjectionEvent[],
+  annualRate: number = 4,
+  {
+    retirementDate,
+    withdrawalStrategy,
+    monthlyWithdrawal = 0,
+    withdrawalRate = 0,
+    guardrailBand = 20,
+    guardrailAdjustment = 10,
+    ...options
+  }: ProjectionOptions & WithdrawalAssumptions & { retirementDate: Date }
+) {
+  const monthlyRate = calculateMonthlyRate(annualRate);
+  const retirementMonthIndex = toMonthIndex(retirementDate);
+  const yearlyWithdrawals = new Map<number, Decimal>();
+
+  let realMonthlyWithdrawal = Decimal(monthlyWithdrawal);
+  let nominalMonthlyWithdrawal = Decimal(0);
+  let initialWithdrawalRate = Decimal(0);
+  let isFirstRetirementMonth = true;
+  let depletionDate: Date | null = null;
+
+  const projection = runWealthCurve(
+    initialValue,
+    stopContributionsAt(events, retirementMonthIndex),
+    () => monthlyRate,
+    options,
+    {
+      onMonthStart: ({ monthIndex, value, inflationFactor }) => {
+        if (monthIndex < retirementMonthIndex) {
+          return;
+        }
+
+        const isAnniversary =
+          isFirstRetirementMonth ||
+          (monthIndex - retirementMonthIndex) % 12 === 0;
+
+        if (withdrawalStrategy === "PERCENTAGE" && isAnniversary) {
+          nominalMonthlyWithdrawal = Decimal.max(value, 0)
+            .times(withdrawalRate)
+            .div(100)
+            .div(12);
+        }
+
+        if (withdrawalStrategy === "GUARDRAILS" && isAnniversary) {
+          if (isFirstRetirementMonth) {
+            initialWithdrawalRate = Decimal(withdrawalRate);
+            realMonthlyWithdrawal = Decimal.max(value, 0)
+              .times(withdrawalRate)
+              .div(100)
+              .div(12)
+              .div(inflationFactor);
+          } else {
+            const currentWithdrawalRate = value.gt(0)
+              ? realMonthlyWithdrawal
+                  .times(inflationFactor)
+                  .times(12)
+                  .div(value)
+                  .times(100)
+              : Decimal(Infinity);
+
+            if (
+              currentWithdrawalRate.gt(
+                initialWithdrawalRate.times(1 + guardrailBand / 100)
+              )
+            ) {
+              realMonthlyWithdrawal = realMonthlyWithdrawal.times(
+                1 - guardrailAdjustment / 100
+              );
+            } else if (
+              currentWithdrawalRate.lt(
+                initialWithdrawalRate.times(1 - guardrailBand / 100)
+              )
+            ) {
+              realMonthlyWithdrawal = realMonthlyWithdrawal.times(
+                1 + guardrailAdjustment / 100
+              );
+            }
+          }
+        }
+
+        if (withdrawalStrategy !== "PERCENTAGE") {
+          nominalMonthlyWithdrawal =
+            realMonthlyWithdrawal.times(inflationFactor);
+        }
+
+        isFirstRetirementMonth = false;
+
+        const year = Math.floor(monthIndex / 12);
+        yearlyWithdrawals.set(
+          year,
+          (yearlyWithdrawals.get(year) ?? Decimal(0)).plus(
+            nominalMonthlyWithdrawal
+          )
+        );
+
+        return value.minus(nominalMonthlyWithdrawal);
+      },
+      onMonthEnd: ({ monthIndex, value }) => {
+        if (
+          !depletionDate &&
+          monthIndex >= retirementMonthIndex &&
+          value.lte(0)
+        ) {
+          depletionDate = fromMonthIndex(monthIndex);
+        }
+      },
+    }
+  );
+
+  return {
+    projection: projection.map((point) => ({
+      ...point,
+      withdrawal: yearlyWithdrawals.get(point.year) ?? Decimal(0),
+    })),
+    depletionDate: depletionDate as Date | null,
+  };
+}
+
+export function calculateMaxSustainableWithdrawal(
+  initialValue: Decimal,
+  events: ProjectionEvent[],
+  annualRate: number = 4,
+  options: ProjectionOptions & { retirementDate: Date }
+) {
+  const depletingWithdrawal = findSmallestSufficientValue(
+    (monthlyWithdrawal) =>
+      simulateRetirementWealthCurve(initialValue, events, annualRate, {
+        ...options,
+        withdrawalStrategy: "FIXED_REAL",
+        monthlyWithdrawal,
+      }).depletionDate !== null,
+    Math.max(initialValue.toNumber() / 100, 1),
+    MAX_MONTHLY_WITHDRAWAL
+  );
+
+  if (depletingWithdrawal === null) {
+    return null;
+  }
+
+  return Decimal.max(Decimal(depletingWithdrawal).minus(0.01), 0);
+}
+
+export function simulateStochasticWealthCurves(
+  initialValue: Decimal,
+  events: ProjectionEvent[],
+  goals: Pick<Goal, "id" | "targetValue" | "targetDate">[],
+  {
+    meanAnnualReturn,
+    annualVolatility,
+    paths,
+    seed,
+    ...options
+  }: ProjectionOptions & StochasticAssumptions & { seed: number }
+) {
+  const { startDate = new Date(), endYear = DEFAULT_PROJECTION_END_YEAR } =
+    options;
+  const months =
+    (endYear + 1 - startDate.getUTCFullYear()) * 12 - startDate.getUTCMonth();
+
+  if (paths * months > MAX_MONTE_CARLO_PATH_MONTHS) {
+    throw new ProjectionError(
+      `A simulação excede o limite de ${MAX_MONTE_CARLO_PATH_MONTHS.toLocaleString("pt-BR")} meses simulados (cenários × meses da projeção). Reduza o número de cenários ou o horizonte.`
+    );
+  }
+
+  const random = createSeededRandom(seed);
+  const monthlyVolatility = annualVolatility / 100 / Math.sqrt(12);
+  const monthlyDrift =
+    Math.log(1 + meanAnnualReturn / 100) / 12 - monthlyVolatility ** 2 / 2;
+
+  const yearlyValues = new Map<number, number[]>();
+  let solventPaths = 0;
+  const goalSuccesses = new Map(goals.map((goal) => [goal.id, 0]));
+
+  for (let path = 0; path < paths; path++) {
+    let isSolvent = true;
+    const reachedGoals = new Set<string>();
+
+    const projection = runWealthCurve(
+      initialValue,
+      events,
+      () =>
+        Decimal(
+          Math.exp(
+            monthlyDrift + monthlyVolatility * sampleStandardNormal(random)
+          ) - 1
+        ),
+      options,
+      {
+        onMonthEnd: ({ monthIndex, value }) => {
+          if (value.isNegative()) {
+            isSolvent = false;
+          }
+
+          for (const goal of goals) {
+            if (
+              !reachedGoals.has(goal.id) &&
+              monthIndex <= toMonthIndex(goal.targetDate) &&
+              value.gte(goal.targetValue)
+            ) {
+              reachedGoals.add(goal.id);
+            }
+          }
+        },
+      }
+    );
+
+    for (const point of projection) {
+      const values = yearlyValues.get(point.year) ?? [];
+      values.push(point.projectedValue.toNumber());
+      yearlyValues.set(point.year, values);
+    }
+
+    if (isSolvent) {
+      solventPaths++;
+    }
+
+    for (const goalId of reachedGoals) {
+      goalSuccesses.set(goalId, goalSuccesses.get(goalId)! + 1);
+    }
+  }
+
+  return {
+    percentiles: [...yearlyValues].map(([year, values]) => {
+      values.sort((a, b) => a - b);
+
+      return {
+        year,
+        p10: Decimal(calculatePercentile(values, 10)),
+        p50: Decimal(calculatePercentile(values, 50)),
+        p90: Decimal(calculatePercentile(values, 90)),
+      };
+    }),
+    probabilityOfSolvency: solventPaths / paths,
+    goals: goals.map((goal) => ({
+      goalId: goal.id,
+      probabilityOfSuccess: goalSuccesses.get(goal.id)! / paths,
+    })),
+  };
+}
+
+export function resolveProjectionEndYear(
+  dateOfBirth: Date,
+  { startDate = new Date(), endYear, untilAge }: ProjectionHorizon
+) {
+  const resolvedEndYear =
+    untilAge !== undefined
+      ? dateOfBirth.getUTCFullYear() + untilAge
+      : (endYear ?? DEFAULT_PROJECTION_END_YEAR);
+
+  if (resolvedEndYear < startDate.getUTCFullYear()) {
+    throw new ProjectionError(
+      "O ano final da projeção não pode ser anterior ao ano de início."
+    );
+  }
+
+  return resolvedEndYear;
+}
+
+/**
+ * Weights the class assumptions by the allocation. The volatility assumes
+ * the same correlation between every pair of classes: `0` treats them as
+ * independent, which understates the risk of correlated classes, and `1`
+ * adds the weighted volatilities up.
+ */
+export function derivePortfolioAssumptions(
+  allocation: AssetAllocation[],
+  assumptions: Pick<
+    CapitalMarketAssumption,
+    "className" | "expectedReturn" | "volatility"
+  >[],
+  correlation: number = 0
+) {
+  const totalPercentage = allocation.reduce(
+    (sum, assetClass) => sum + assetClass.percentage,
+    0
+  );
+
+  if (totalPercentage === 0) {
+    throw new ProjectionError(
+      "A carteira do cliente não possui uma alocação por classe de ativo para derivar o retorno."
+    );
+  }
+
+  const missingClasses = allocation
+    .map((assetClass) => assetClass.className)
+    .filter(
+      (className) =>
+        !assumptions.some((assumption) => assumption.className === className)
+    );
+
+  if (missingClasses.length > 0) {
+    throw new ProjectionError(
+      `Não há premissas de mercado cadastradas para as classes de ativo: ${missingClasses.join(", ")}.`
+    );
+  }
+
+  const totals = allocation.reduce(
+    (sums, assetClass) => {
+      const assumption = assumptions.find(
+        (a) => a.className === assetClass.className
+      )!;
+      const weight = assetClass.percentage / totalPercentage;
+      const weightedVolatility = weight * assumption.volatility.toNumber();
+
+      return {
+        expectedReturn:
+          sums.expectedReturn + weight * assumption.expectedReturn.toNumber(),
+        weightedVolatility: sums.weightedVolatility + weightedVolatility,
+        squaredVolatility: sums.squaredVolatility + weightedVolatility ** 2,
+      };
+    },
+    { expectedReturn: 0, weightedVolatility: 0, squaredVolatility: 0 }
+  );
+
+  return {
+    expectedReturn: totals.expectedReturn,
+    volatility: Math.sqrt(
+      (1 - correlation) * totals.squaredVolatility +
+        correlation * totals.weightedVolatility ** 2
+    ),
+  };
+}
+
+export async function loadProjectionInputs(
   clientId: string,
-  annualRate: number = 4
+  parameters: ProjectionParameters & ReturnAssumptions
 ) {
-  const [wallet, events] = await prisma.$transaction([
+  const [client, wallet, events, goals] = await prisma.$transaction([
+    prisma.client.findUnique({ where: { id: clientId } }),
     prisma.wallet.findUnique({ where: { clientId } }),
     prisma.event.findMany({ where: { clientId } }),
+    prisma.goal.findMany({
+      where: { clientId },
+      orderBy: { targetDate: "asc" },
+    }),
   ]);
 
+  if (!client) {
+    throw new ProjectionError("Cliente não encontrado.");
+  }
+
   if (!wallet) {
     throw new ProjectionError(
       "Cliente não possui uma carteira cadastrada para iniciar a projeção."
     );
   }
 
-  return simulateWealthCurve(wallet.totalValue, events, annualRate);
+  const endYear = resolveProjectionEndYear(client.dateOfBirth, parameters);
+
+  let portfolio:
+    | (ReturnType<typeof derivePortfolioAssumptions> & {
+        assetClasses: AssetAllocation[];
+      })
+    | null = null;
+
+  if (parameters.returnSource === "ALLOCATION") {
+    const allocation =
+      parameters.assetClasses ??
+      z.array(assetClassSchema).catch([]).parse(wallet.assetClasses);
+
+    const assumptions = await prisma.capitalMarketAssumption.findMany({
+      where: {
+        className: { in: allocation.map((assetClass) => assetClass.className) },
+      },
+    });
+
+    portfolio = {
+      ...derivePortfolioAssumptions(
+        allocation,
+        assumptions,
+        parameters.assetCorrelation
+      ),
+      assetClasses: allocation,
+    };
+  }
+
+  return {
+    client,
+    wallet,
+    events,
+    goals,
+    portfolio,
+    options: {
+      startDate: parameters.startDate,
+      endYear,
+      inflationRate: parameters.inflationRate,
+    },
+  };
+}
+
+export async function generateProjectionForClient(
+  clientId: string,
+  annualRate: number = 4,
+  {
+    managementFee,
+    gainsTaxRate,
+    gainsTaxPreset,
+    incomeTaxRate,
+    ...parameters
+  }: ProjectionParameters & ReturnAssumptions & TaxAssumptions = {}
+) {
+  const { wallet, events, portfolio, options } = await loadProjectionInputs(
+    clientId,
+    parameters
+  );
+
+  return simulateWealthCurve(
+    wallet.totalValue,
+    events,
+    portfolio?.expectedReturn ?? annualRate,
+    { ...options, managementFee, gainsTaxRate, gainsTaxPreset, incomeTaxRate }
+  );
+}
+
+export async function generateGoalProjectionForClient(
+  clientId: string,
+  annualRate: number = 4,
+  {
+    withdrawGoals,
+    ...parameters
+  }: ProjectionParameters & ReturnAssumptions & GoalAssumptions = {}
+) {
+  const { wallet, events, goals, portfolio, options } =
+    await loadProjectionInputs(clientId, parameters);
+
+  const result = simulateGoalAwareWealthCurve(
+    wallet.totalValue,
+    events,
+    goals,
+    portfolio?.expectedReturn ?? annualRate,
+    { ...options, withdrawGoals }
+  );
+
+  return {
+    projection: result.projection,
+    goals: goals.map((goal, index) => ({
+      ...result.goals[index],
+      description: goal.description,
+      targetValue: goal.targetValue,
+      targetDate: goal.targetDate,
+    })),
+  };
+}
+
+export async function generateRetirementProjectionForClient(
+  clientId: string,
+  annualRate: number = 4,
+  {
+    retirementAge,
+    withdrawalStrategy,
+    monthlyWithdrawal,
+    withdrawalRate,
+    guardrailBand,
+    guardrailAdjustment,
+    ...parameters
+  }: ProjectionParameters &
+    ReturnAssumptions &
+    WithdrawalAssumptions & { retirementAge: number }
+) {
+  const { client, wallet, events, portfolio, options } =
+    await loadProjectionInputs(clientId, parameters);
+
+  const retirementDate = new Date(
+    Date.UTC(
+      client.dateOfBirth.getUTCFullYear() + retirementAge,
+      client.dateOfBirth.getUTCMonth(),
+      1
+    )
+  );
+
+  if (retirementDate.getUTCFullYear() > options.endYear) {
+    throw new ProjectionError(
+      "A data de aposentadoria é posterior ao horizonte da projeção."
+    );
+  }
+
+  const rate = portfolio?.expectedReturn ?? annualRate;
+  const retirementOptions = { ...options, retirementDate };
+
+  const result = simulateRetirementWealthCurve(
+    wallet.totalValue,
+    events,
+    rate,
+    {
+      ...retirementOptions,
+      withdrawalStrategy,
+      monthlyWithdrawal,
+      withdrawalRate,
+      guardrailBand,
+      guardrailAdjustment,
+    }
+  );
+
+  return {
+    retirementDate,
+    depletionYear: result.depletionDate?.getUTCFullYear() ?? null,
+    maxSustainableMonthlyIncome: calculateMaxSustainableWithdrawal(
+      wallet.totalValue,
+      events,
+      rate,
+      retirementOptions
+    ),
+    projection: result.projection,
+  };
+}
+
+export async function compareProjectionScenariosForClient(
+  clientId: string,
+  {
+    scenarios,
+    baseline = scenarios[0].name,
+    ...parameters
+  }: ProjectionParameters & {
+    scenarios: ProjectionScenario[];
+    baseline?: string;
+  }
+) {
+  const { wallet, events, options } = await loadProjectionInputs(
+    clientId,
+    parameters
+  );
+
+  const curves = scenarios.map((scenario) => {
+    const initialValue =
+      scenario.initialValue !== undefined
+        ? Decimal(scenario.initialValue)
+        : wallet.totalValue;
+    const scenarioEvents = [
+      ...(scenario.includeExistingEvents ? events : []),
+      ...scenario.events.map(toProjectionEvent),
+    ];
+
+    return {
+      name: scenario.name,
+      annualRate: scenario.annualRate,
+      initialValue,
+      projection: simulateWealthCurve(
+        initialValue,
+        scenarioEvents,
+        scenario.annualRate,
+        options
+      ),
+    };
+  });
+
+  const baselineCurve = curves.find((curve) => curve.name === baseline);
+
+  if (!baselineCurve) {
+    throw new ProjectionError(
+      "O cenário base não está entre os cenários informados."
+    );
+  }
+
+  return {
+    baseline,
+    scenarios: curves.map((curve) => ({
+      ...curve,
+      projection: curve.projection.map((point, index) => {
+        const baselinePoint = baselineCurve.projection[index];
+
+        return {
+          ...point,
+          deltaFromBaseline: point.projectedValue.minus(
+            baselinePoint.projectedValue
+          ),
+          realDeltaFromBaseline: point.realValue.minus(baselinePoint.realValue),
+        };
+      }),
+    })),
+  };
+}
+
+export async function generateMonteCarloProjectionForClient(
+  clientId: string,
+  {
+    meanAnnualReturn,
+    annualVolatility,
+    paths,
+    seed = createRandomSeed(),
+    ...parameters
+  }: ProjectionParameters &
+    ReturnAssumptions &
+    StochasticAssumptions & { seed?: number }
+) {
+  const { wallet, events, goals, portfolio, options } =
+    await loadProjectionInputs(clientId, parameters);
+  const volatility = portfolio?.volatility ?? annualVolatility;
+
+  const result = simulateStochasticWealthCurves(
+    wallet.totalValue,
+    events,
+    goals,
+    {
+      ...options,
+      meanAnnualReturn: portfolio?.expectedReturn ?? meanAnnualReturn,
+      annualVolatility: volatility,
+      paths,
+      seed,
+    }
+  );
+
+  return {
+    seed,
+    paths,
+    annualVolatility: volatility,
+    ...result,
+    goals: goals.map((goal, index) => ({
+      goalId: goal.id,
+      description: goal.description,
+      targetValue: goal.targetValue,
+      targetDate: goal.targetDate,
+      probabilityOfSuccess: result.goals[index].probabilityOfSuccess,
+    })),
+  };
 }
@@ -0,0 +1,611 @@
+import PDFDocument from "pdfkit";
+import { z } from "zod";
+import { Decimal } from "@prisma/client/runtime/library";
+import { prisma } from "../lib/prisma";
+import { assetClassSchema } from "../schemas/shared.schema";
+import { familyMemberSchema } from "../schemas/client.schema";
+import { savedProjectionSchema } from "../schemas/simulation.schema";
+import { alignmentResponseSchema } from "../schemas/planning.schema";
+import { AlignmentError, calculateAlignment } from "./alignment.service";
+import {
+  generateProjectionForClient,
+  ProjectionError,
+} from "./projection.service";
+
+type PDFDoc = InstanceType<typeof PDFDocument>;
+
+export type ClientReportData = {
+  generatedAt: Date;
+  client: {
+    name: string;
+    email: string;
+    dateOfBirth: Date;
+    familyProfile: z.infer<typeof familyMemberSchema>[];
+  };
+  wallet: {
+    totalValue: Decimal;
+    assetClasses: z.infer<typeof assetClassSchema>[];
+  } | null;
+  goals: { description: string; targetValue: Decimal; targetDate: Date }[];
+  events: {
+    description: string;
+    category: "INCOME" | "EXPENSE";
+    value: Decimal;
+    frequency: "UNIQUE" | "MONTHLY" | "ANNUAL";
+    startDate: Date | null;
+    endDate: Date | null;
+    occurrenceDate: Date | null;
+  }[];
+  insurances: { type: "LIFE" | "DISABILITY"; coverageValue: Decimal }[];
+  alignment: z.infer<typeof alignmentResponseSchema> | { message: string };
+  projection: {
+    savedAt: Date | null;
+    rate: string;
+    points: { year: number; projectedValue: Decimal }[];
+  } | null;
+};
+
+const LABELS = {
+  INCOME: "Entrada",
+  EXPENSE: "Saída",
+  UNIQUE: "Única",
+  MONTHLY: "Mensal",
+  ANNUAL: "Anual",
+  LIFE: "Vida",
+  DISABILITY: "Invalidez",
+  PARTNER: "Cônjuge",
+  CHILD: "Filho(a)",
+  OTHER: "Outro",
+} as const;
+
+const COLORS = {
+  text: "#1f2937",
+  muted: "#6b7280",
+  grid: "#e5e7eb",
+  primary: "#1d4ed8",
+} as const;
+
+const DEFAULT_REPORT_RATE = 4;
+
+const currencyFormatter = new Intl.NumberFormat("pt-BR", {
+  style: "currency",
+  currency: "BRL",
+});
+
+const compactFormatter = new Intl.NumberFormat("pt-BR", {
+  notation: "compact",
+  maximumFractionDigits: 1,
+});
+
+function formatCurrency(value: Decimal) {
+  return currencyFormatter.format(value.toNumber());
+}
+
+function formatDate(date: Date | null) {
+  return date ? date.toLocaleDateString("pt-BR", { timeZone: "UTC" }) : "-";
+}
+
+function formatEventPeriod(event: ClientReportData["events"][number]) {
+  if (event.frequency === "UNIQUE") {
+    return formatDate(event.occurrenceDate);
+  }
+
+  if (event.startDate && event.endDate) {
+    return `${formatDate(event.startDate)} a ${formatDate(event.endDate)}`;
+  }
+
+  if (event.startDate) {
+    return `Desde ${formatDate(event.startDate)}`;
+  }
+
+  return event.endDate ? `Até ${formatDate(event.endDate)}` : "Sem prazo";
+}
+
+export async function loadClientReportData(
+  clientId: string
+): Promise<ClientReportData | null> {
+  const client = await prisma.client.findUnique({
+    where: { id: clientId },
+    include: {
+      wallet: true,
+      goals: { orderBy: { targetDate: "asc" } },
+      events: { orderBy: { createdAt: "asc" } },
+      insurances: { orderBy: { createdAt: "asc" } },
+      simulations: { orderBy: { savedAt: "desc" }, take: 1 },
+    },
+  });
+
+  if (!client) {
+    return null;
+  }
+
+  let alignment: ClientReportData["alignment"];
+
+  try {
+    alignment = alignmentResponseSchema.parse(
+      await calculateAlignment(clientId)
+    );
+  } catch (error) {
+    if (!(error instanceof AlignmentError)) {
+      throw error;
+    }
+    alignment = { message: error.message };
+  }
+
+  let projection: ClientReportData["projection"] = null;
+  const [latestSimulation] = client.simulations;
+
+  if (latestSimulation) {
+    projection = {
+      savedAt: latestSimulation.savedAt,
+      rate: latestSimulation.rate.toString(),
+      points: savedProjectionSchema
+        .catch([])
+        .parse(latestSimulation.projection)
+        .map((point) => ({
+          year: point.year,
+          projectedValue: Decimal(point.projectedValue),
+        })),
+    };
+  } else if (client.wallet) {
+    try {
+      projection = {
+        savedAt: null,
+        rate: DEFAULT_REPORT_RATE.toString(),
+        points: await generateProjectionForClient(
+          clientId,
+          DEFAULT_REPORT_RATE
+        ),
+      };
+    } catch (error) {
+      if (!(error instanceof ProjectionError)) {
+        throw error;
+      }
+    }
+  }
+
+  return {
+    generatedAt: new Date(),
+    client: {
+      name: client.name,
+      email: client.email,
+      dateOfBirth: client.dateOfBirth,
+      familyProfile: z
+        .array(familyMemberSchema)
+        .catch([])
+        .parse(client.familyProfile ?? []),
+    },
+    wallet: client.wallet && {
+      totalValue: client.wallet.totalValue,
+      assetClasses: z
+        .array(assetClassSchema)
+        .catch([])
+        .parse(client.wallet.assetClasses ?? []),
+    },
+    goals: client.goals,
+    events: client.events,
+    insurances: client.insurances,
+    alignment,
+    projection,
+  };
+}
+
+function ensureSpace(doc: PDFDoc, height: number) {
+  if (doc.y + height > doc.page.height - doc.page.margins.bottom) {
+    doc.addPage();
+  }
+}
+
+function writeSectionTitle(doc: PDFDoc, title: string) {
+  ensureSpace(doc, 80);
+  doc
+    .moveDown(1.5)
+    .font("Helvetica-Bold")
+    .fontSize(14)
+    .fillColor(COLORS.primary)
+    .text(title, doc.page.margins.left)
+    .moveDown(0.5)
+    .font("Helvetica")
+    .fontSize(10)
+    .fillColor(COLORS.text);
+}
+
+function writeParagraph(
+  doc: PDFDoc,
+  text: string,
+  color: string = COLORS.text
+) {
+  doc.fillColor(color).text(text, doc.page.margins.left).fillColor(COLORS.text);
+}
+
+function writeTable(
+  doc: PDFDoc,
+  columns: { header: string; width: number; align?: "left" | "right" }[],
+  rows: string[][]
+) {
+  const rowHeight = 18;
+
+  const writeRow = (cells: string[], bold: boolean) => {
+    ensureSpace(doc, rowHeight);
+    const y = doc.y;
+    let x = doc.page.margins.left;
+
+    doc.font(bold ? "Helvetica-Bold" : "Helvetica");
+    columns.forEach((column, index) => {
+      doc.text(cells[index], x + 4, y + 4, {
+        width: column.width - 8,
+        align: column.align ?? "left",
+        lineBreak: false,
+        ellipsis: true,
+      });
+      x += column.width;
+    });
+
+    const width = columns.reduce((sum, column) => sum + column.width, 0);
+    doc
+      .moveTo(doc.page.margins.left, y + rowHeight)
+      .lineTo(doc.page.margins.left + width, y + rowHeight)
+      .strokeColor(COLORS.grid)
+      .stroke();
+    doc.x = doc.page.margins.left;
+    doc.y = y + rowHeight;
+  };
+
+  writeRow(
+    columns.map((column) => column.header),
+    true
+  );
+  rows.forEach((row) => writeRow(row, false));
+  doc.font("Helvetica");
+}
+
+function drawAllocationChart(
+  doc: PDFDoc,
+  assetClasses: z.infer<typeof assetClassSchema>[]
+) {
+  const barHeight = 14;
+  const labelWidth = 140;
+  const maxBarWidth =
+    doc.page.width -
+    doc.page.margins.left -
+    doc.page.margins.right -
+    labelWidth -
+    50;
+
+  ensureSpace(doc, assetClasses.length * (barHeight + 8));
+
+  for (const { className, percentage } of assetClasses) {
+    const y = doc.y;
+    const x = doc.page.margins.left;
+
+    doc
+      .fillColor(COLORS.text)
+      .text(className, x, y + 2, {
+        width: labelWidth - 8,
+        lineBreak: false,
+        ellipsis: true,
+      })
+      .rect(x + labelWidth, y, (maxBarWidth * percentage) / 100, barHeight)
+      .fill(COLORS.primary)
+      .fillColor(COLORS.text)
+      .text(
+        `${percentage}%`,
+        x + labelWidth + (maxBarWidth * percentage) / 100 + 6,
+        y + 2,
+        { lineBreak: false }
+      );
+
+    doc.x = x;
+    doc.y = y + barHeight + 8;
+  }
+}
+
+function drawProjectionChart(
+  doc: PDFDoc,
+  points: { year: number; projectedValue: Decimal }[]
+) {
+  const height = 200;
+  const axisWidth = 60;
+
+  ensureSpace(doc, height + 40);
+
+  const top = doc.y + 10;
+  const left = doc.page.margins.left + axisWidth;
+  const width =
+    doc.page.width - doc.page.margins.left - doc.page.margins.right - axisWidth;
+  const bottom = top + height;
+
+  const values = points.map((point) => point.projectedValue.toNumber());
+  const min = Math.min(0, ...values);
+  const max = Math.max(...values, min + 1);
+  const toX = (index: number) =>
+    left + (points.length > 1 ? (width * index) / (points.length - 1) : 0);
+  const toY = (value: number) =>
+    bottom - ((value - min) / (max - min)) * height;
+
+  doc.font("Helvetica").fontSize(8).fillColor(COLORS.muted);
+
+  for (let tick = 0; tick <= 4; tick++) {
+    const value = min + ((max - min) * tick) / 4;
+    const y = toY(value);
+
+    doc
+      .moveTo(left, y)
+      .lineTo(left + width, y)
+      .strokeColor(COLORS.grid)
+      .stroke()
+      .text(compactFormatter.format(value), doc.page.margins.left, y - 4, {
+        width: axisWidth - 8,
+        align: "right",
+        lineBreak: false,
+      });
+  }
+
+  const labelStep = Math.max(1, Math.ceil(points.length / 8));
+  points.forEach((point, index) => {
+    if (index % labelStep === 0 || index === points.length - 1) {
+      doc.text(String(point.year), toX(index) - 15, bottom + 6, {
+        width: 30,
+        align: "center",
+        lineBreak: false,
+      });
+    }
+  });
+
+  points.forEach((point, index) => {
+    const x = toX(index);
+    const y = toY(values[index]);
+
+    if (index === 0) {
+      doc.moveTo(x, y);
+    } else {
+      doc.lineTo(x, y);
+    }
+  });
+  doc.lineWidth(2).strokeColor(COLORS.primary).stroke().lineWidth(1);
+
+  doc.fontSize(10).fillColor(COLORS.text);
+  doc.x = doc.page.margins.left;
+  doc.y = bottom + 30;
+}
+
+function writeProfile(doc: PDFDoc, { client }: ClientReportData) {
+  writeSectionTitle(doc, "Perfil do Cliente");
+  writeParagraph(doc, `Nome: ${client.name}`);
+  writeParagraph(doc, `E-mail: ${client.email}`);
+  writeParagraph(doc, `Data de nascimento: ${formatDate(client.dateOfBirth)}`);
+
+  if (client.familyProfile.length > 0) {
+    doc.moveDown(0.5);
+    writeTable(
+      doc,
+      [
+        { header: "Familiar", width: 250 },
+        { header: "Parentesco", width: 120 },
+        { header: "Nascimento", width: 125 },
+      ],
+      client.familyProfile.map((member) => [
+        member.name,
+        LABELS[member.relationship],
+        formatDate(member.dateOfBirth),
+      ])
+    );
+  }
+}
+
+function writeWallet(doc: PDFDoc, { wallet }: ClientReportData) {
+  writeSectionTitle(doc, "Carteira e Alocação");
+
+  if (!wallet) {
+    writeParagraph(doc, "Nenhuma carteira cadastrada.", COLORS.muted);
+    return;
+  }
+
+  writeParagraph(doc, `Patrimônio total: ${formatCurrency(wallet.totalValue)}`);
+  doc.moveDown(0.5);
+
+  if (wallet.assetClasses.length === 0) {
+    writeParagraph(doc, "Nenhuma alocação informada.", COLORS.muted);
+    return;
+  }
+
+  drawAllocationChart(doc, wallet.assetClasses);
+}
+
+function writeGoals(doc: PDFDoc, { goals }: ClientReportData) {
+  writeSectionTitle(doc, "Metas");
+
+  if (goals.length === 0) {
+    writeParagraph(doc, "Nenhuma meta cadastrada.", COLORS.muted);
+    return;
+  }
+
+  writeTable(
+    doc,
+    [
+      { header: "Descrição", width: 265 },
+      { header: "Valor-alvo", width: 130, align: "right" },
+      { header: "Data-alvo", width: 100, align: "right" },
+    ],
+    goals.map((goal) => [
+      goal.description,
+      formatCurrency(goal.targetValue),
+      formatDate(goal.targetDate),
+    ])
+  );
+}
+
+function writeEvents(doc: PDFDoc, { events }: ClientReportData) {
+  writeSectionTitle(doc, "Movimentações");
+
+  if (events.length === 0) {
+    writeParagraph(doc, "Nenhuma movimentação cadastrada.", COLORS.muted);
+    return;
+  }
+
+  writeTable(
+    doc,
+    [
+      { header: "Descrição", width: 165 },
+      { header: "Tipo", width: 60 },
+      { header: "Frequência", width: 70 },
+      { header: "Valor", width: 100, align: "right" },
+      { header: "Período", width: 100, align: "right" },
+    ],
+    events.map((event) => [
+      event.description,
+      LABELS[event.category],
+      LABELS[event.frequency],
+      formatCurrency(event.value),
+      formatEventPeriod(event),
+    ])
+  );
+}
+
+function writeInsurances(doc: PDFDoc, { insurances }: ClientReportData) {
+  writeSectionTitle(doc, "Seguros");
+
+  if (insurances.length === 0) {
+    writeParagraph(doc, "Nenhum seguro cadastrado.", COLORS.muted);
+    return;
+  }
+
+  writeTable(
+    doc,
+    [
+      { header: "Tipo", width: 265 },
+      { header: "Cobertura", width: 230, align: "right" },
+    ],
+    insurances.map((insurance) => [
+      LABELS[insurance.type],
+      formatCurrency(insurance.coverageValue),
+    ])
+  );
+}
+
+function writeAlignment(doc: PDFDoc, { alignment }: ClientReportData) {
+  writeSectionTitle(doc, "Alinhamento ao Plano");
+
+  if ("message" in alignment) {
+    writeParagraph(doc, alignment.message, COLORS.muted);
+    return;
+  }
+
+  const percentage = Number(alignment.alignmentPercentage).toLocaleString(
+    "pt-BR",
+    { maximumFractionDigits: 2 }
+  );
+  const y = doc.y;
+
+  doc
+    .circle(doc.page.margins.left + 6, y + 6, 6)
+    .fill(alignment.band.color)
+    .fillColor(COLORS.text)
+    .text(
+      `${percentage}% - ${alignment.band.label}`,
+      doc.page.margins.left + 20,
+      y + 1
+    );
+  doc.x = doc.page.margins.left;
+  doc.moveDown(0.5);
+  writeParagraph(doc, alignment.reason, COLORS.muted);
+}
+
+function writeProjection(doc: PDFDoc, { projection }: ClientReportData) {
+  writeSectionTitle(doc, "Projeção Patrimonial");
+
+  if (!projection || projection.points.length === 0) {
+    writeParagraph(doc, "Nenhuma projeção disponível.", COLORS.muted);
+    return;
+  }
+
+  writeParagraph(
+    doc,
+    projection.savedAt
+      ? `Última simulação salva em ${formatDate(projection.savedAt)}, com taxa nominal de ${projection.rate}% ao ano.`
+      : `Projeção atual, com taxa nominal de ${projection.rate}% ao ano.`,
+    COLORS.muted
+  );
+
+  drawProjectionChart(doc, projection.points);
+
+  writeTable(
+    doc,
+    [
+      { header: "Ano", width: 200 },
+      { header: "Patrimônio projetado", width: 295, align: "right" },
+    ],
+    projection.points.map((point) => [
+      String(point.year),
+      formatCurrency(point.projectedValue),
+    ])
+  );
+}
+
+function writePageNumbers(doc: PDFDoc) {
+  const { start, count } = doc.bufferedPageRange();
+
+  for (let index = start; index < start + count; index++) {
+    doc.switchToPage(index);
+
+    const bottomMargin = doc.page.margins.bottom;
+    doc.page.margins.bottom = 0;
+    doc
+      .fontSize(8)
+      .fillColor(COLORS.muted)
+      .text(
+        `Página ${index + 1} de ${count}`,
+        doc.page.margins.left,
+        doc.page.height - 30,
+        {
+          width:
+            doc.page.width - doc.page.margins.left - doc.page.margins.right,
+          align: "center",
+        }
+      );
+    doc.page.margins.bottom = bottomMargin;
+  }
+}
+
+export function renderClientReport(data: ClientReportData) {
+  const doc = new PDFDocument({
+    size: "A4",
+    margin: 50,
+    bufferPages: true,
+    info: {
+      Title: `Relatório de Planejamento - ${data.client.name}`,
+      CreationDate: data.generatedAt,
+    },
+  });
+
+  const chunks: Buffer[] = [];
+  const result = new Promise<Buffer>((resolve, reject) => {
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+  });
+
+  doc
+    .font("Helvetica-Bold")
+    .fontSize(20)
+    .fillColor(COLORS.text)
+    .text("Relatório de Planejamento Patrimonial")
+    .font("Helvetica")
+    .fontSize(10)
+    .fillColor(COLORS.muted)
+    .text(`Gerado em ${formatDate(data.generatedAt)}`)
+    .fillColor(COLORS.text);
+
+  writeProfile(doc, data);
+  writeWallet(doc, data);
+  writeAlignment(doc, data);
+  writeGoals(doc, data);
+  writeEvents(doc, data);
+  writeInsurances(doc, data);
+  writeProjection(doc, data);
+  writePageNumbers(doc);
+
+  doc.end();
+
+  return result;
+}
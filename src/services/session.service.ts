@@ -0,0 +1,150 @@
+import { prisma } from "../lib/prisma";
+import { runWithoutTenant, setCurrentOrganization } from "../lib/tenant";
+import {
+  REFRESH_TOKEN_EXPIRES_IN_DAYS,
+  SESSION_TOUCH_INTERVAL_SECONDS,
+} from "../config/constants";
+import { generateToken, hashToken } from "../utils/token";
+
+export type SessionClient = {
+  ipAddress?: string;
+  userAgent?: string;
+};
+
+export class SessionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SessionError";
+  }
+}
+
+export function calculateRefreshTokenExpiry(referenceDate: Date = new Date()) {
+  const expiresAt = new Date(referenceDate);
+  expiresAt.setUTCDate(expiresAt.getUTCDate() + REFRESH_TOKEN_EXPIRES_IN_DAYS);
+  return expiresAt;
+}
+
+async function issueRefreshToken(sessionId: string) {
+  const refreshToken = generateToken();
+
+  await prisma.refreshToken.create({
+    data: {
+      tokenHash: hashToken(refreshToken),
+      expiresAt: calculateRefreshTokenExpiry(),
+      sessionId,
+    },
+  });
+
+  return refreshToken;
+}
+
+export async function createSession(
+  userId: string,
+  { ipAddress, userAgent }: SessionClient = {}
+) {
+  const session = await prisma.session.create({
+    data: { userId, ipAddress, userAgent },
+  });
+  const refreshToken = await issueRefreshToken(session.id);
+
+  return { session, refreshToken };
+}
+
+export async function revokeSession(sessionId: string) {
+  await prisma.session.updateMany({
+    where: { id: sessionId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+}
+
+export async function revokeUserSessions(userId: string) {
+  await prisma.session.updateMany({
+    where: { userId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+}
+
+/**
+ * Checks that the session is still active and records its last use. The
+ * write is skipped while the stored value is recent, so authenticated
+ * requests do not each cost an update.
+ */
+export async function touchSession(sessionId: string, now: Date = new Date()) {
+  const session = await prisma.session.findFirst({
+    where: { id: sessionId, revokedAt: null },
+    select: { lastUsedAt: true },
+  });
+
+  if (!session) {
+    return false;
+  }
+
+  const staleBefore = new Date(
+    now.getTime() - SESSION_TOUCH_INTERVAL_SECONDS * 1000
+  );
+
+  if (session.lastUsedAt < staleBefore) {
+    await prisma.session.updateMany({
+      where: { id: sessionId, lastUsedAt: { lt: staleBefore } },
+      data: { lastUsedAt: now },
+    });
+  }
+
+  return true;
+}
+
+export async function listActiveSessions(userId: string) {
+  return prisma.session.findMany({
+    where: {
+      userId,
+      revokedAt: null,
+      refreshTokens: { some: { usedAt: null, expiresAt: { gt: new Date() } } },
+    },
+    orderBy: { lastUsedAt: "desc" },
+  });
+}
+
+export async function rotateRefreshToken(
+  refreshToken: string,
+  { ipAddress, userAgent }: SessionClient = {}
+) {
+  const storedToken = await runWithoutTenant(() =>
+    prisma.refreshToken.findUnique({
+      where: { tokenHash: hashToken(refreshToken) },
+      include: { session: { include: { user: true } } },
+    })
+  );
+
+  if (!storedToken || storedToken.session.revokedAt) {
+    throw new SessionError("Refresh token inválido ou revogado.");
+  }
+
+  setCurrentOrganization(storedToken.session.user.organizationId);
+
+  if (storedToken.expiresAt <= new Date()) {
+    throw new SessionError("Refresh token expirado.");
+  }
+
+  const { count } = await prisma.refreshToken.updateMany({
+    where: { id: storedToken.id, usedAt: null },
+    data: { usedAt: new Date() },
+  });
+
+  if (count === 0) {
+    await revokeSession(storedToken.sessionId);
+    throw new SessionError(
+      "Refresh token reutilizado. A sessão foi encerrada por segurança."
+    );
+  }
+
+  const session = await prisma.session.update({
+    where: { id: storedToken.sessionId },
+    data: { lastUsedAt: new Date(), ipAddress, userAgent },
+    include: { user: true },
+  });
+
+  return {
+    session,
+    refreshToken: await issueRefreshToken(session.id),
+  };
+}
@@ -0,0 +1,357 @@
+import { Decimal } from "@prisma/client/runtime/library";
+import { Prisma, Simulation } from "@prisma/client";
+import { z } from "zod";
+import {
+  loadProjectionInputs,
+  PROJECTION_ENGINE_VERSION,
+  ProjectionParameters,
+  ReturnAssumptions,
+  simulateWealthCurve,
+  TaxAssumptions,
+} from "./projection.service";
+import {
+  savedProjectionSchema,
+  simulationInputsSchema,
+} from "../schemas/simulation.schema";
+
+export class SimulationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SimulationError";
+  }
+}
+
+function runSimulationInputs(snapshot: unknown) {
+  const {
+    walletValue,
+    events,
+    parameters: { annualRate, gainsTaxRate, gainsTaxPreset, ...options },
+  } = simulationInputsSchema.parse(snapshot);
+
+  return simulateWealthCurve(
+    Decimal(walletValue),
+    events.map((event) => ({ ...event, value: Decimal(event.value) })),
+    annualRate,
+    {
+      ...options,
+      gainsTaxRate: gainsTaxRate ?? undefined,
+      gainsTaxPreset: gainsTaxPreset ?? undefined,
+    }
+  );
+}
+
+export async function buildSimulationForClient(
+  clientId: string,
+  annualRate: number = 4,
+  {
+    managementFee = 0,
+    gainsTaxRate,
+    gainsTaxPreset,
+    incomeTaxRate = 0,
+    ...parameters
+  }: ProjectionParameters & ReturnAssumptions & TaxAssumptions = {}
+) {
+  const startDate = parameters.startDate ?? new Date();
+  const { wallet, events, portfolio, options } = await loadProjectionInputs(
+    clientId,
+    { ...parameters, startDate }
+  );
+
+  const inputs = {
+    walletValue: wallet.totalValue.toString(),
+    events: events.map((event) => ({
+      id: event.id,
+      description: event.description,
+      category: event.category,
+      value: event.value.toString(),
+      frequency: event.frequency,
+      startDate: event.startDate?.toISOString() ?? null,
+      endDate: event.endDate?.toISOString() ?? null,
+      occurrenceDate: event.occurrenceDate?.toISOString() ?? null,
+      inflationIndexed: event.inflationIndexed,
+    })),
+    parameters: {
+      annualRate: portfolio?.expectedReturn ?? annualRate,
+      startDate: startDate.toISOString(),
+      endYear: options.endYear,
+      inflationRate: options.inflationRate ?? 0,
+      returnSource: parameters.returnSource ?? "FLAT_RATE",
+      assetClasses: portfolio?.assetClasses ?? null,
+      managementFee,
+      gainsTaxRate: gainsTaxRate ?? null,
+      gainsTaxPreset: gainsTaxPreset ?? null,
+      incomeTaxRate,
+    },
+  } satisfies Prisma.InputJsonObject;
+
+  const projection = runSimulationInputs(inputs).map((point) => ({
+    year: point.year,
+    projectedValue: point.projectedValue.toFixed(2),
+    realValue: point.realValue.toFixed(2),
+    postTaxValue: point.postTaxValue.toFixed(2),
+    postTaxRealValue: point.postTaxRealValue.toFixed(2),
+  }));
+
+  return {
+    projection,
+    rate: inputs.parameters.annualRate,
+    endYear: options.endYear,
+    inputs,
+    engineVersion: PROJECTION_ENGINE_VERSION,
+  };
+}
+
+export function rerunSimulation(
+  simulation: Pick<Simulation, "id" | "inputs" | "projection" | "engineVersion">
+) {
+  if (!simulation.inputs) {
+    throw new SimulationError(
+      "Esta simulação foi salva sem as premissas de entrada e não pode ser reexecutada."
+    );
+  }
+
+  const savedProjection = savedProjectionSchema
+    .catch([])
+    .parse(simulation.projection);
+  const savedValues = new Map(
+    savedProjection.map((point) => [point.year, Decimal(point.projectedValue)])
+  );
+
+  const projection = runSimulationInputs(simulation.inputs).map((point) => {
+    const currentValue = Decimal(point.projectedValue.toFixed(2));
+    const savedValue = savedValues.get(point.year) ?? null;
+
+    return {
+      year: point.year,
+      savedValue,
+      currentValue,
+      drift: savedValue ? currentValue.minus(savedValue) : null,
+    };
+  });
+
+  const maxAbsoluteDrift = projection.reduce(
+    (max, point) => (point.drift ? Decimal.max(max, point.drift.abs()) : max),
+    Decimal(0)
+  );
+
+  return {
+    simulationId: simulation.id,
+    savedEngineVersion: simulation.engineVersion,
+    currentEngineVersion: PROJECTION_ENGINE_VERSION,
+    hasDrift:
+      !maxAbsoluteDrift.isZero() ||
+      projection.length !== savedProjection.length ||
+      projection.some((point) => point.drift === null),
+    maxAbsoluteDrift,
+    projection,
+  };
+}
+
+type SimulationInputs = z.infer<typeof simulationInputsSchema>;
+
+function toJsonValue(value: unknown) {
+  return value instanceof Date ? value.toISOString() : value;
+}
+
+function compareSimulationInputs(
+  inputs: SimulationInputs,
+  otherInputs: SimulationInputs
+) {
+  const events = new Map(inputs.events.map((event) => [event.id, event]));
+  const otherEvents = new Map(
+    otherInputs.events.map((event) => [event.id, event])
+  );
+
+  const { annualRate: _rate, ...parameters } = inputs.parameters;
+  const { annualRate: _otherRate, ...otherParameters } = otherInputs.parameters;
+
+  return {
+    walletValue: Decimal(inputs.walletValue).equals(otherInputs.walletValue)
+      ? null
+      : { from: inputs.walletValue, to: otherInputs.walletValue },
+    eventsAdded: otherInputs.events.filter((event) => !events.has(event.id)),
+    eventsRemoved: inputs.events.filter((event) => !otherEvents.has(event.id)),
+    eventsModified: inputs.events
+      .filter(
+        (event) =>
+          otherEvents.has(event.id) &&
+          JSON.stringify(event) !== JSON.stringify(otherEvents.get(event.id))
+      )
+      .map((event) => ({ from: event, to: otherEvents.get(event.id)! })),
+    parameters: (Object.keys(parameters) as (keyof typeof parameters)[])
+      .filter(
+        (name) =>
+          JSON.stringify(parameters[name]) !==
+          JSON.stringify(otherParameters[name])
+      )
+      .map((name) => ({
+        name,
+        from: toJsonValue(parameters[name]),
+        to: toJsonValue(otherParameters[name]),
+      })),
+  };
+}
+
+export function compareSimulations(
+  simulation: Pick<Simulation, "id" | "rate" | "projection" | "inputs">,
+  otherSimulation: Pick<Simulation, "id" | "rate" | "projection" | "inputs">
+) {
+  const parseProjection = (projection: Prisma.JsonValue) =>
+    new Map(
+      savedProjectionSchema
+        .catch([])
+        .parse(projection)
+        .map((point) => [point.year, Decimal(point.projectedValue)])
+    );
+
+  const values = parseProjection(simulation.projection);
+  const otherValues = parseProjection(otherSimulation.projection);
+  const years = [...new Set([...values.keys(), ...otherValues.keys()])].sort(
+    (a, b) => a - b
+  );
+
+  const inputs = simulationInputsSchema.safeParse(simulation.inputs);
+  const otherInputs = simulationInputsSchema.safeParse(otherSimulation.inputs);
+
+  return {
+    simulationId: simulation.id,
+    otherSimulationId: otherSimulation.id,
+    rateChange: simulation.rate.equals(otherSimulation.rate)
+      ? null
+      : { from: simulation.rate, to: otherSimulation.rate },
+    projection: years.map((year) => {
+      const value = values.get(year) ?? null;
+      const otherValue = otherValues.get(year) ?? null;
+
+      return {
+        year,
+        value,
+        otherValue,
+        delta: value && otherValue ? otherValue.minus(value) : null,
+      };
+    }),
+    inputChanges:
+      inputs.success && otherInputs.success
+        ? compareSimulationInputs(inputs.data, otherInputs.data)
+        : null,
+  };
+}
+
+export type TrackingStatus = "AHEAD" | "ON_TRACK" | "BEHIND";
+
+function buildPlannedPath(
+  simulation: Pick<Simulation, "projection" | "inputs">
+) {
+  const inputs = simulationInputsSchema.safeParse(simulation.inputs);
+  const start = inputs.success
+    ? [
+        {
+          time: inputs.data.parameters.startDate.getTime(),
+          value: Decimal(inputs.data.walletValue),
+        },
+      ]
+    : [];
+
+  // Yearly points hold the value at the end of December.
+  const yearly = savedProjectionSchema
+    .catch([])
+    .parse(simulation.projection)
+    .map((point) => ({
+      time: Date.UTC(point.year + 1, 0, 1),
+      value: Decimal(point.projectedValue),
+    }));
+
+  return [...start, ...yearly].sort((a, b) => a.time - b.time);
+}
+
+function interpolatePlannedValue(
+  path: ReturnType<typeof buildPlannedPath>,
+  date: Date
+) {
+  const time = date.getTime();
+  const nextIndex = path.findIndex((point) => point.time >= time);
+
+  if (nextIndex === -1) {
+    return null;
+  }
+
+  const next = path[nextIndex];
+
+  if (next.time === time) {
+    return next.value;
+  }
+
+  if (nextIndex === 0) {
+    return null;
+  }
+
+  const previous = path[nextIndex - 1];
+  const weight = (time - previous.time) / (next.time - previous.time);
+
+  return previous.value.plus(next.value.minus(previous.value).times(weight));
+}
+
+export function trackSimulationAgainstActuals(
+  simulation: Pick<Simulation, "id" | "projection" | "inputs">,
+  snapshots: { totalValue: Decimal; recordedAt: Date }[],
+  tolerance: number
+) {
+  const path = buildPlannedPath(simulation);
+
+  const points = [...snapshots]
+    .sort((a, b) => a.recordedAt.getTime() - b.recordedAt.getTime())
+    .flatMap(({ totalValue, recordedAt }) => {
+      const plannedValue = interpolatePlannedValue(path, recordedAt);
+
+      if (!plannedValue) {
+        return [];
+      }
+
+      const deviation = totalValue.minus(plannedValue);
+
+      return [
+        {
+          date: recordedAt,
+          actualValue: totalValue,
+          plannedValue,
+          deviation,
+          deviationPercent: plannedValue.isZero()
+            ? null
+            : deviation.div(plannedValue).times(100),
+        },
+      ];
+    });
+
+  const deviations = points.flatMap((point) =>
+    point.deviationPercent ? [point.deviationPercent] : []
+  );
+
+  const trackingError =
+    deviations.length > 0
+      ? deviations
+          .reduce((sum, deviation) => sum.plus(deviation.pow(2)), Decimal(0))
+          .div(deviations.length)
+          .sqrt()
+      : null;
+
+  const latest = points.at(-1)?.deviationPercent ?? null;
+  let status: TrackingStatus | null = null;
+
+  if (latest) {
+    if (latest.greaterThan(tolerance)) {
+      status = "AHEAD";
+    } else if (latest.lessThan(-tolerance)) {
+      status = "BEHIND";
+    } else {
+      status = "ON_TRACK";
+    }
+  }
+
+  return {
+    simulationId: simulation.id,
+    status,
+    tolerance,
+    trackingError,
+    points,
+  };
+}
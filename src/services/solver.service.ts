@@ -0,0 +1,314 @@
+import { Decimal } from "@prisma/client/runtime/library";
+import {
+  loadProjectionInputs,
+  ProjectionError,
+  ProjectionEvent,
+  ProjectionOptions,
+  ProjectionParameters,
+  ReturnAssumptions,
+  simulateGoalAwareWealthCurve,
+  simulateRetirementWealthCurve,
+} from "./projection.service";
+import { findSmallestSufficientValue } from "../utils/finance";
+
+export type SolveFor =
+  "MONTHLY_CONTRIBUTION" | "ANNUAL_RATE" | "RETIREMENT_DATE";
+
+export type SolverTarget = {
+  targetValue: Decimal;
+  targetDate: Date;
+};
+
+type SolverInputs = {
+  initialValue: Decimal;
+  events: ProjectionEvent[];
+  annualRate: number;
+  monthlyContribution: number;
+  options: ProjectionOptions;
+};
+
+const MAX_MONTHLY_CONTRIBUTION = 1e12;
+const MAX_ANNUAL_RATE = 1000;
+
+function createContributionEvent(monthlyContribution: number): ProjectionEvent {
+  return {
+    category: "INCOME",
+    value: Decimal(monthlyContribution),
+    frequency: "MONTHLY",
+    startDate: null,
+    endDate: null,
+    occurrenceDate: null,
+    inflationIndexed: false,
+  };
+}
+
+function withContribution(
+  events: ProjectionEvent[],
+  monthlyContribution: number
+) {
+  return monthlyContribution > 0
+    ? [...events, createContributionEvent(monthlyContribution)]
+    : events;
+}
+
+function projectTarget(
+  {
+    initialValue,
+    events,
+    annualRate,
+    monthlyContribution,
+    options,
+  }: SolverInputs,
+  { targetValue, targetDate }: SolverTarget
+) {
+  const result = simulateGoalAwareWealthCurve(
+    initialValue,
+    withContribution(events, monthlyContribution),
+    [{ id: "target", targetValue, targetDate }],
+    annualRate,
+    options
+  );
+
+  return { projection: result.projection, outcome: result.goals[0] };
+}
+
+function projectRetirement(
+  {
+    initialValue,
+    events,
+    annualRate,
+    monthlyContribution,
+    options,
+  }: SolverInputs,
+  retirementDate: Date,
+  monthlyWithdrawal: number
+) {
+  return simulateRetirementWealthCurve(
+    initialValue,
+    withContribution(events, monthlyContribution),
+    annualRate,
+    {
+      ...options,
+      retirementDate,
+      withdrawalStrategy: "FIXED_REAL",
+      monthlyWithdrawal,
+    }
+  );
+}
+
+function addMonths(date: Date, months: number) {
+  return new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1)
+  );
+}
+
+function isTargetReached(inputs: SolverInputs, target: SolverTarget) {
+  return projectTarget(inputs, target).outcome.status === "REACHED";
+}
+
+export function solveMonthlyContribution(
+  inputs: Omit<SolverInputs, "monthlyContribution">,
+  target: SolverTarget
+) {
+  const contribution = findSmallestSufficientValue(
+    (monthlyContribution) =>
+      isTargetReached({ ...inputs, monthlyContribution }, target),
+    Math.max(target.targetValue.toNumber() / 100, 1),
+    MAX_MONTHLY_CONTRIBUTION
+  );
+
+  if (contribution === null) {
+    throw new ProjectionError(
+      "Não foi possível encontrar um aporte mensal que atinja o valor-alvo."
+    );
+  }
+
+  return contribution;
+}
+
+export function solveRequiredAnnualRate(
+  inputs: Omit<SolverInputs, "annualRate">,
+  target: SolverTarget
+) {
+  const annualRate = findSmallestSufficientValue(
+    (candidateRate) =>
+      isTargetReached({ ...inputs, annualRate: candidateRate }, target),
+    10,
+    MAX_ANNUAL_RATE
+  );
+
+  if (annualRate === null) {
+    throw new ProjectionError(
+      "Não foi possível encontrar uma taxa anual que atinja o valor-alvo."
+    );
+  }
+
+  return annualRate;
+}
+
+/**
+ * Finds the first month in which the client can retire: contributions stop
+ * in that month, so the target must already be reached in the month before,
+ * and the remaining wealth must then pay the monthly withdrawal (in today's
+ * money) and the recurring expenses until the end of the horizon.
+ */
+export function solveRetirementDate(
+  inputs: SolverInputs,
+  targetValue: Decimal,
+  monthlyWithdrawal: number = 0
+) {
+  const { endYear } = inputs.options;
+
+  if (endYear === undefined) {
+    throw new ProjectionError("O horizonte da projeção não foi definido.");
+  }
+
+  const { outcome } = projectTarget(inputs, {
+    targetValue,
+    targetDate: new Date(Date.UTC(endYear, 11, 1)),
+  });
+
+  const earliestDate = outcome.reachedDate && addMonths(outcome.reachedDate, 1);
+
+  if (!earliestDate || earliestDate.getUTCFullYear() > endYear) {
+    throw new ProjectionError(
+      "O valor-alvo não é atingido dentro do horizonte da projeção."
+    );
+  }
+
+  const isSustainable = (monthOffset: number) =>
+    projectRetirement(
+      inputs,
+      addMonths(earliestDate, monthOffset),
+      monthlyWithdrawal
+    ).depletionDate === null;
+
+  let lower = 0;
+  let upper =
+    (endYear - earliestDate.getUTCFullYear()) * 12 +
+    11 -
+    earliestDate.getUTCMonth();
+
+  if (!isSustainable(upper)) {
+    throw new ProjectionError(
+      "O patrimônio não sustenta os resgates e as despesas após a aposentadoria dentro do horizonte da projeção."
+    );
+  }
+
+  while (lower < upper) {
+    const middle = Math.floor((lower + upper) / 2);
+
+    if (isSustainable(middle)) {
+      upper = middle;
+    } else {
+      lower = middle + 1;
+    }
+  }
+
+  return addMonths(earliestDate, lower);
+}
+
+export async function solveProjectionForClient(
+  clientId: string,
+  {
+    solveFor,
+    goalId,
+    targetValue,
+    targetYear,
+    annualRate,
+    monthlyContribution,
+    monthlyWithdrawal = 0,
+    ...parameters
+  }: ProjectionParameters &
+    ReturnAssumptions & {
+      solveFor: SolveFor;
+      goalId?: string;
+      targetValue?: number;
+      targetYear?: number;
+      annualRate: number;
+      monthlyContribution: number;
+      monthlyWithdrawal?: number;
+    }
+) {
+  const { wallet, events, goals, portfolio, options } =
+    await loadProjectionInputs(clientId, parameters);
+
+  let target: SolverTarget;
+
+  if (goalId) {
+    const goal = goals.find((g) => g.id === goalId);
+
+    if (!goal) {
+      throw new ProjectionError("Meta não encontrada para este cliente.");
+    }
+
+    target = { targetValue: goal.targetValue, targetDate: goal.targetDate };
+  } else {
+    target = {
+      targetValue: Decimal(targetValue!),
+      targetDate: new Date(Date.UTC(targetYear ?? options.endYear, 11, 1)),
+    };
+  }
+
+  const startYear = (options.startDate ?? new Date()).getUTCFullYear();
+
+  if (
+    solveFor !== "RETIREMENT_DATE" &&
+    target.targetDate.getUTCFullYear() < startYear
+  ) {
+    throw new ProjectionError(
+      "A data-alvo não pode ser anterior ao início da projeção."
+    );
+  }
+
+  const solved = {
+    monthlyContribution,
+    annualRate: portfolio?.expectedReturn ?? annualRate,
+    retirementDate: null as Date | null,
+  };
+
+  const solverOptions =
+    solveFor === "RETIREMENT_DATE"
+      ? options
+      : { ...options, endYear: target.targetDate.getUTCFullYear() };
+
+  const inputs = {
+    initialValue: wallet.totalValue,
+    events,
+    options: solverOptions,
+  };
+
+  if (solveFor === "MONTHLY_CONTRIBUTION") {
+    solved.monthlyContribution = solveMonthlyContribution(
+      { ...inputs, annualRate: solved.annualRate },
+      target
+    );
+  } else if (solveFor === "ANNUAL_RATE") {
+    solved.annualRate = solveRequiredAnnualRate(
+      { ...inputs, monthlyContribution },
+      target
+    );
+  } else {
+    solved.retirementDate = solveRetirementDate(
+      { ...inputs, ...solved },
+      target.targetValue,
+      monthlyWithdrawal
+    );
+  }
+
+  const { projection } = solved.retirementDate
+    ? projectRetirement(
+        { ...inputs, ...solved },
+        solved.retirementDate,
+        monthlyWithdrawal
+      )
+    : projectTarget({ ...inputs, ...solved }, target);
+
+  return {
+    solveFor,
+    targetValue: target.targetValue,
+    targetDate: solveFor === "RETIREMENT_DATE" ? null : target.targetDate,
+    ...solved,
+    projection,
+  };
+}
@@ -0,0 +1,280 @@
+import { Decimal } from "@prisma/client/runtime/library";
+import {
+  calculatePresentValue,
+  calculateAlignmentPercentage,
+  calculateAlignmentTrend,
+  categorizeAlignment,
+  DEFAULT_ALIGNMENT_BANDS,
+  describeAlignment,
+  describeBandRange,
+  fundProjectedGoals,
+} from "../alignment.service";
+import { simulateGoalAwareWealthCurve } from "../projection.service";
+
+const [green, , yellowDark] = DEFAULT_ALIGNMENT_BANDS;
+
+const customBands = [
+  {
+    category: "blue",
+    label: "Azul",
+    color: "#2563eb",
+    minPercentage: Decimal(120),
+    minInclusive: true,
+  },
+  {
+    category: "green",
+    label: "Verde",
+    color: "#16a34a",
+    minPercentage: Decimal(80),
+    minInclusive: true,
+  },
+  {
+    category: "red",
+    label: "Vermelho",
+    color: "#dc2626",
+    minPercentage: Decimal(0),
+    minInclusive: true,
+  },
+];
+
+describe("Alignment Categories (categorizeAlignment)", () => {
+  it.each([
+    [100, "green"],
+    [90.01, "green"],
+    [90, "yellow-light"],
+    [70, "yellow-light"],
+    [69.99, "yellow-dark"],
+    [50, "yellow-dark"],
+    [49.99, "red"],
+    [0, "red"],
+  ])("should categorize %s%% as %s", (percentage, category) => {
+    expect(categorizeAlignment(Decimal(percentage)).category).toBe(category);
+  });
+
+  it.each([
+    [150, "blue"],
+    [120, "blue"],
+    [119.99, "green"],
+    [80, "green"],
+    [79.99, "red"],
+  ])(
+    "should categorize %s%% as %s with custom bands",
+    (percentage, category) => {
+      expect(
+        categorizeAlignment(Decimal(percentage), customBands).category
+      ).toBe(category);
+    }
+  );
+});
+
+describe("Alignment Band Ranges (describeBandRange)", () => {
+  it("should describe the range between a band and the one above it", () => {
+    expect(describeBandRange(green, DEFAULT_ALIGNMENT_BANDS)).toBe(
+      "acima de 90%"
+    );
+    expect(describeBandRange(yellowDark, DEFAULT_ALIGNMENT_BANDS)).toBe(
+      "de 50% a 70%"
+    );
+    expect(describeBandRange(customBands[0], customBands)).toBe(
+      "a partir de 120%"
+    );
+    expect(describeBandRange(customBands[2], customBands)).toBe(
+      "abaixo de 80%"
+    );
+  });
+});
+
+describe("Alignment Explanation (describeAlignment)", () => {
+  const goals = [
+    {
+      description: "Casa",
+      targetDate: new Date("2030-01-01"),
+      shortfall: Decimal(0),
+    },
+    {
+      description: "Aposentadoria",
+      targetDate: new Date("2045-01-01"),
+      shortfall: Decimal(150000),
+    },
+    {
+      description: "Viagem",
+      targetDate: new Date("2035-01-01"),
+      shortfall: Decimal(20000),
+    },
+  ];
+
+  it("should explain the band and point to the largest shortfall", () => {
+    const reason = describeAlignment(
+      "current",
+      Decimal(62.5),
+      yellowDark,
+      DEFAULT_ALIGNMENT_BANDS,
+      goals
+    );
+
+    expect(reason).toContain("62,5%");
+    expect(reason).toContain('"Amarelo escuro" (de 50% a 70%)');
+    expect(reason).toContain("2 de 3 metas estão subfinanciadas");
+    expect(reason).toContain('"Aposentadoria"');
+    expect(reason).toContain("01/01/2045");
+  });
+
+  it("should state that every goal is covered when there is no shortfall", () => {
+    const reason = describeAlignment(
+      "projected",
+      Decimal(120),
+      green,
+      DEFAULT_ALIGNMENT_BANDS,
+      [goals[0]]
+    );
+
+    expect(reason).toMatch(/^O patrimônio projetado cobre 120%/);
+    expect(reason).toContain("Todas as metas estão cobertas.");
+  });
+});
+
+describe("Alignment Trend (calculateAlignmentTrend)", () => {
+  const history = (...percentages: number[]) =>
+    percentages.map((percentage) => ({
+      alignmentPercentage: Decimal(percentage),
+    }));
+
+  it("should compare the first and last points of the period", () => {
+    expect(calculateAlignmentTrend(history(40, 20, 65), 1)).toEqual({
+      trend: "IMPROVING",
+      change: Decimal(25),
+    });
+    expect(calculateAlignmentTrend(history(80, 95, 60), 1).trend).toBe(
+      "DECLINING"
+    );
+  });
+
+  it("should consider changes within the tolerance as stable", () => {
+    expect(calculateAlignmentTrend(history(70, 72.5), 5).trend).toBe("STABLE");
+  });
+
+  it("should not report a trend with fewer than two points", () => {
+    expect(calculateAlignmentTrend(history(70), 1)).toEqual({
+      trend: null,
+      change: null,
+    });
+  });
+});
+
+describe("Goal Discounting (calculatePresentValue)", () => {
+  const referenceDate = new Date("2025-01-01T00:00:00.000Z");
+
+  it("should discount the target value by the years until the target date", () => {
+    const presentValue = calculatePresentValue(
+      Decimal(108160),
+      new Date("2027-01-01T00:00:00.000Z"),
+      4,
+      referenceDate
+    );
+
+    expect(presentValue.toFixed(2)).toBe("100000.00");
+  });
+
+  it("should not discount goals whose target date has already passed", () => {
+    const presentValue = calculatePresentValue(
+      Decimal(100000),
+      new Date("2020-01-01T00:00:00.000Z"),
+      4,
+      referenceDate
+    );
+
+    expect(presentValue.toFixed(2)).toBe("100000.00");
+  });
+});
+
+describe("Projected Goal Funding (fundProjectedGoals)", () => {
+  it("should not count the same projected wealth toward two goals", () => {
+    const goals = [
+      {
+        id: "first-goal",
+        targetValue: Decimal(100000),
+        targetDate: new Date("2030-01-01"),
+      },
+      {
+        id: "second-goal",
+        targetValue: Decimal(100000),
+        targetDate: new Date("2030-01-01"),
+      },
+    ];
+    const requiredValues = goals.map((goal) => goal.targetValue);
+
+    const { goals: outcomes } = simulateGoalAwareWealthCurve(
+      Decimal(150000),
+      [],
+      goals,
+      0,
+      {
+        startDate: new Date("2025-01-01"),
+        endYear: 2030,
+        withdrawGoals: true,
+      }
+    );
+    const funded = fundProjectedGoals(
+      requiredValues,
+      outcomes.map((outcome) => outcome.valueAtTargetDate)
+    );
+
+    expect(funded.map((value) => value.toNumber())).toEqual([100000, 50000]);
+    expect(
+      calculateAlignmentPercentage(
+        funded.reduce((sum, value) => sum.plus(value), Decimal(0)),
+        Decimal(200000)
+      ).toNumber()
+    ).toBe(75);
+  });
+
+  it("should carry only the remaining wealth to goals that are partly covered", () => {
+    const goals = [
+      {
+        id: "first-goal",
+        targetValue: Decimal(100000),
+        targetDate: new Date("2030-01-01"),
+      },
+      {
+        id: "second-goal",
+        targetValue: Decimal(100000),
+        targetDate: new Date("2030-01-01"),
+      },
+    ];
+    const requiredValues = goals.map((goal) => goal.targetValue);
+
+    const { goals: outcomes } = simulateGoalAwareWealthCurve(
+      Decimal(80000),
+      [],
+      goals,
+      0,
+      {
+        startDate: new Date("2025-01-01"),
+        endYear: 2030,
+        withdrawGoals: true,
+        withdrawPartialGoals: true,
+      }
+    );
+    const funded = fundProjectedGoals(
+      requiredValues,
+      outcomes.map((outcome) => outcome.valueAtTargetDate)
+    );
+
+    expect(funded.map((value) => value.toNumber())).toEqual([80000, 0]);
+    expect(
+      calculateAlignmentPercentage(
+        funded.reduce((sum, value) => sum.plus(value), Decimal(0)),
+        Decimal(200000)
+      ).toNumber()
+    ).toBe(40);
+  });
+
+  it("should cap each goal at its required value", () => {
+    const funded = fundProjectedGoals(
+      [Decimal(100000), Decimal(50000)],
+      [Decimal(400000), null]
+    );
+
+    expect(funded.map((value) => value.toNumber())).toEqual([100000, 0]);
+  });
+});
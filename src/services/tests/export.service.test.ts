@@ -0,0 +1,167 @@
+import ExcelJS from "exceljs";
+import { Decimal } from "@prisma/client/runtime/library";
+import {
+  buildProjectionExport,
+  generateProjectionCsv,
+  generateProjectionWorkbook,
+  resolveExportFormat,
+} from "../export.service";
+
+const simulation = {
+  rate: Decimal(5),
+  endYear: 2026,
+  projection: [
+    { year: 2025, projectedValue: "105000.00", realValue: "101000.00" },
+    { year: 2026, projectedValue: "110250.00", realValue: "102000.00" },
+  ],
+  inputs: {
+    walletValue: "100000",
+    events: [
+      {
+        id: "mock-id",
+        description: "Aluguel, reajustado",
+        category: "EXPENSE",
+        value: "2000",
+        frequency: "MONTHLY",
+        startDate: null,
+        endDate: null,
+        occurrenceDate: null,
+        inflationIndexed: true,
+      },
+    ],
+    parameters: {
+      annualRate: 5,
+      startDate: "2025-01-01T00:00:00.000Z",
+      endYear: 2026,
+      inflationRate: 4,
+      returnSource: "ALLOCATION",
+      assetClasses: [
+        { className: "Renda Fixa", percentage: 70 },
+        { className: "Ações", percentage: 30 },
+      ],
+      managementFee: 0,
+      gainsTaxRate: null,
+      gainsTaxPreset: null,
+      incomeTaxRate: 0,
+    },
+  },
+};
+
+describe("Export Format Negotiation (resolveExportFormat)", () => {
+  it("should prefer the format query over the Accept header", () => {
+    expect(resolveExportFormat("csv", "application/json")).toBe("csv");
+  });
+
+  it("should read the format from the Accept header", () => {
+    expect(resolveExportFormat(undefined, "text/csv")).toBe("csv");
+    expect(
+      resolveExportFormat(
+        undefined,
+        "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+      )
+    ).toBe("xlsx");
+    expect(resolveExportFormat(undefined, "*/*")).toBe("json");
+    expect(resolveExportFormat(undefined, undefined)).toBe("json");
+  });
+});
+
+describe("Projection Export (buildProjectionExport)", () => {
+  it("should list the yearly series, the assumptions and the events", () => {
+    const data = buildProjectionExport(simulation);
+
+    expect(data.projection).toEqual(simulation.projection);
+    expect(data.assumptions).toEqual(
+      expect.arrayContaining([
+        { name: "rate", value: "5" },
+        { name: "walletValue", value: "100000" },
+        { name: "startDate", value: "2025-01-01T00:00:00.000Z" },
+        { name: "assetClasses", value: "Renda Fixa 70%; Ações 30%" },
+      ])
+    );
+    expect(data.events).toHaveLength(1);
+  });
+
+  it("should only list the saved rate and horizon for simulations without inputs", () => {
+    const data = buildProjectionExport({ ...simulation, inputs: null });
+
+    expect(data.assumptions).toEqual([
+      { name: "rate", value: "5" },
+      { name: "endYear", value: 2026 },
+    ]);
+    expect(data.events).toEqual([]);
+  });
+});
+
+describe("Projection CSV (generateProjectionCsv)", () => {
+  it("should write one section per table and quote values with commas", () => {
+    const csv = [
+      ...generateProjectionCsv(buildProjectionExport(simulation)),
+    ].join("");
+    const lines = csv.split("\r\n");
+
+    expect(lines[0]).toBe("year,projectedValue,realValue");
+    expect(lines[1]).toBe("2025,105000.00,101000.00");
+    expect(lines[3]).toBe("");
+    expect(lines[4]).toBe("name,value");
+    expect(csv).toContain('"Aluguel, reajustado"');
+  });
+
+  it("should keep text cells from being read as formulas", () => {
+    const csv = [
+      ...generateProjectionCsv({
+        projection: [{ year: 2025, projectedValue: "-1500.00" }],
+        assumptions: [],
+        events: [
+          { description: '=HYPERLINK("http://example.com")', value: "-2000" },
+          { description: "@SUM(A1)", value: "100" },
+        ],
+      }),
+    ].join("");
+    const lines = csv.split("\r\n");
+
+    expect(lines[1]).toBe("2025,-1500.00");
+    expect(lines[5]).toBe(`"'=HYPERLINK(""http://example.com"")",-2000`);
+    expect(lines[6]).toBe("'@SUM(A1),100");
+  });
+});
+
+describe("Projection Workbook (generateProjectionWorkbook)", () => {
+  it("should write the series, assumptions and events to separate sheets", async () => {
+    const buffer = await generateProjectionWorkbook(
+      buildProjectionExport(simulation)
+    );
+
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(new Uint8Array(buffer).buffer);
+
+    expect(workbook.worksheets.map((sheet) => sheet.name)).toEqual([
+      "Projeção",
+      "Premissas",
+      "Movimentações",
+    ]);
+
+    const projection = workbook.getWorksheet("Projeção")!;
+    expect(projection.getRow(1).values).toEqual([
+      undefined,
+      "year",
+      "projectedValue",
+      "realValue",
+    ]);
+    expect(projection.getCell("B2").value).toBe(105000);
+  });
+
+  it("should write text cells as they are", async () => {
+    const buffer = await generateProjectionWorkbook({
+      projection: [],
+      assumptions: [],
+      events: [{ description: "-5% ajuste", value: "-2000" }],
+    });
+
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(new Uint8Array(buffer).buffer);
+
+    const events = workbook.getWorksheet("Movimentações")!;
+    expect(events.getCell("A2").value).toBe("-5% ajuste");
+    expect(events.getCell("B2").value).toBe(-2000);
+  });
+});
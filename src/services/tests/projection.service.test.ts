@@ -1,12 +1,25 @@
 import { Event } from "@prisma/client";
 import { Decimal } from "@prisma/client/runtime/library";
-import { simulateWealthCurve } from "../projection.service";
+import {
+  calculateMaxSustainableWithdrawal,
+  derivePortfolioAssumptions,
+  ProjectionError,
+  resolveGainsTaxRate,
+  resolveProjectionEndYear,
+  simulateGoalAwareWealthCurve,
+  simulateRetirementWealthCurve,
+  simulateStochasticWealthCurves,
+  simulateWealthCurve,
+} from "../projection.service";
 import { calculateMonthlyRate } from "../../utils/finance";
 
 function createMockEvent(
   value: number,
   category: "INCOME" | "EXPENSE",
-  frequency: "UNIQUE" | "MONTHLY" | "ANNUAL"
+  frequency: "UNIQUE" | "MONTHLY" | "ANNUAL",
+  overrides: Partial<
+    Pick<Event, "startDate" | "endDate" | "occurrenceDate" | "inflationIndexed">
+  > = {}
 ): Event {
   return {
     id: "mock-id",
@@ -17,6 +30,11 @@ function createMockEvent(
     value: Decimal(value),
     category,
     frequency,
+    startDate: null,
+    endDate: null,
+    occurrenceDate: null,
+    inflationIndexed: false,
+    ...overrides,
   };
 }
 
@@ -316,6 +334,197 @@ describe("Projection Engine (simulateWealthCurve) - Output Integrity", () => {
     });
   });
 
+  describe("Dated Events Logic", () => {
+    it("should apply a unique event only in the month of its occurrence date", () => {
+      jest.setSystemTime(new Date("2025-01-01"));
+      const initialValue = Decimal(100000);
+      const eventValue = 40000;
+      const events = [
+        createMockEvent(eventValue, "EXPENSE", "UNIQUE", {
+          occurrenceDate: new Date("2030-06-10"),
+        }),
+      ];
+
+      const projection = simulateWealthCurve(initialValue, events, 0);
+
+      const year2029 = projection.find((p) => p.year === 2029);
+      const year2030 = projection.find((p) => p.year === 2030);
+      const year2031 = projection.find((p) => p.year === 2031);
+
+      expect(year2029!.projectedValue.toString()).toBe(initialValue.toString());
+      expect(year2030!.projectedValue.toString()).toBe(
+        initialValue.minus(eventValue).toString()
+      );
+      expect(year2031!.projectedValue.toString()).toBe(
+        initialValue.minus(eventValue).toString()
+      );
+    });
+
+    it("should skip a unique event with a past occurrence date", () => {
+      jest.setSystemTime(new Date("2025-05-15"));
+      const initialValue = Decimal(100000);
+      const eventValue = 10000;
+      const events = [
+        createMockEvent(eventValue, "INCOME", "UNIQUE", {
+          occurrenceDate: new Date("2020-01-01"),
+        }),
+      ];
+
+      const projection = simulateWealthCurve(initialValue, events, 0);
+
+      expect(projection[0].projectedValue.toString()).toBe(
+        initialValue.toString()
+      );
+    });
+
+    it("should not apply a unique event scheduled after the projection horizon", () => {
+      jest.setSystemTime(new Date("2025-01-01"));
+      const initialValue = Decimal(100000);
+      const events = [
+        createMockEvent(5000, "INCOME", "UNIQUE", {
+          occurrenceDate: new Date("2050-01-01"),
+        }),
+      ];
+
+      const projection = simulateWealthCurve(initialValue, events, 0, {
+        endYear: 2040,
+      });
+
+      expect(projection[projection.length - 1].projectedValue.toString()).toBe(
+        initialValue.toString()
+      );
+    });
+
+    it("should apply a monthly event only inside its start/end window", () => {
+      jest.setSystemTime(new Date("2025-01-01"));
+      const initialValue = Decimal(0);
+      const eventValue = 1000;
+      const events = [
+        createMockEvent(eventValue, "INCOME", "MONTHLY", {
+          startDate: new Date("2026-04-01"),
+          endDate: new Date("2027-03-31"),
+        }),
+      ];
+
+      const projection = simulateWealthCurve(initialValue, events, 0);
+
+      const year2025 = projection.find((p) => p.year === 2025);
+      const year2026 = projection.find((p) => p.year === 2026);
+      const year2027 = projection.find((p) => p.year === 2027);
+      const year2028 = projection.find((p) => p.year === 2028);
+
+      expect(year2025!.projectedValue.toString()).toBe("0");
+      expect(year2026!.projectedValue.toString()).toBe(
+        (eventValue * 9).toString()
+      );
+      expect(year2027!.projectedValue.toString()).toBe(
+        (eventValue * 12).toString()
+      );
+      expect(year2028!.projectedValue.toString()).toBe(
+        (eventValue * 12).toString()
+      );
+    });
+
+    it("should apply an annual event on the month of its start date", () => {
+      jest.setSystemTime(new Date("2025-01-01"));
+      const initialValue = Decimal(0);
+      const eventValue = 3000;
+      const events = [
+        createMockEvent(eventValue, "INCOME", "ANNUAL", {
+          startDate: new Date("2025-08-01"),
+          endDate: new Date("2026-12-31"),
+        }),
+      ];
+
+      const projection = simulateWealthCurve(initialValue, events, 0);
+
+      const year2025 = projection.find((p) => p.year === 2025);
+      const year2026 = projection.find((p) => p.year === 2026);
+      const year2027 = projection.find((p) => p.year === 2027);
+
+      expect(year2025!.projectedValue.toString()).toBe(eventValue.toString());
+      expect(year2026!.projectedValue.toString()).toBe(
+        (eventValue * 2).toString()
+      );
+      expect(year2027!.projectedValue.toString()).toBe(
+        (eventValue * 2).toString()
+      );
+    });
+  });
+
+  describe("Inflation Logic", () => {
+    it("should return real values equal to nominal values when inflation is zero", () => {
+      const projection = simulateWealthCurve(Decimal(100000), [], 6);
+
+      projection.forEach((point) => {
+        expect(point.realValue.toString()).toBe(
+          point.projectedValue.toString()
+        );
+      });
+    });
+
+    it("should deflate the nominal value to today's money", () => {
+      jest.setSystemTime(new Date("2025-01-01"));
+      const initialValue = Decimal(100000);
+
+      const projection = simulateWealthCurve(initialValue, [], 0, {
+        inflationRate: 5,
+      });
+
+      const firstYear = projection.find((p) => p.year === 2025);
+      const secondYear = projection.find((p) => p.year === 2026);
+
+      expect(firstYear!.projectedValue.toString()).toBe(
+        initialValue.toString()
+      );
+      expect(firstYear!.realValue.toNumber()).toBeCloseTo(100000 / 1.05, 2);
+      expect(secondYear!.realValue.toNumber()).toBeCloseTo(
+        100000 / 1.05 ** 2,
+        2
+      );
+    });
+
+    it("should grow inflation-indexed events with inflation", () => {
+      jest.setSystemTime(new Date("2025-01-01"));
+      const eventValue = 1000;
+      const inflationRate = 5;
+      const events = [
+        createMockEvent(eventValue, "INCOME", "ANNUAL", {
+          inflationIndexed: true,
+        }),
+      ];
+
+      const projection = simulateWealthCurve(Decimal(0), events, 0, {
+        inflationRate,
+      });
+
+      const firstYear = projection.find((p) => p.year === 2025);
+      const secondYear = projection.find((p) => p.year === 2026);
+
+      expect(firstYear!.projectedValue.toNumber()).toBeCloseTo(eventValue, 2);
+      expect(secondYear!.projectedValue.toNumber()).toBeCloseTo(
+        eventValue + eventValue * 1.05,
+        2
+      );
+    });
+
+    it("should keep non-indexed events at their nominal value", () => {
+      jest.setSystemTime(new Date("2025-01-01"));
+      const eventValue = 1000;
+      const events = [createMockEvent(eventValue, "EXPENSE", "ANNUAL")];
+
+      const projection = simulateWealthCurve(Decimal(10000), events, 0, {
+        inflationRate: 10,
+      });
+
+      const secondYear = projection.find((p) => p.year === 2026);
+
+      expect(secondYear!.projectedValue.toString()).toBe(
+        (10000 - eventValue * 2).toString()
+      );
+    });
+  });
+
   describe("Order of Operations", () => {
     it("should apply monthly events BEFORE calculating compound interest for that month", () => {
       jest.setSystemTime(new Date("2025-01-01"));
@@ -515,6 +724,50 @@ describe("Projection Engine (simulateWealthCurve) - Output Structure Integrity",
     expect(projection[projection.length - 1].year).toBe(endYear);
   });
 
+  it("should stop the projection at the requested end year", () => {
+    jest.setSystemTime(new Date("2025-01-01"));
+
+    const projection = simulateWealthCurve(Decimal(1000), [], 0, {
+      endYear: 2045,
+    });
+
+    expect(projection.length).toBe(2045 - 2025 + 1);
+    expect(projection[projection.length - 1].year).toBe(2045);
+  });
+
+  it("should extend the projection beyond 2060 when requested", () => {
+    jest.setSystemTime(new Date("2025-01-01"));
+
+    const projection = simulateWealthCurve(Decimal(1000), [], 0, {
+      endYear: 2090,
+    });
+
+    expect(projection[projection.length - 1].year).toBe(2090);
+  });
+
+  it("should start the projection at the requested start date", () => {
+    jest.setSystemTime(new Date("2025-01-01"));
+    const initialValue = Decimal(100000);
+    const annualRate = 10;
+
+    const projection = simulateWealthCurve(initialValue, [], annualRate, {
+      startDate: new Date("2030-07-15"),
+      endYear: 2035,
+    });
+
+    const monthlyRate = calculateMonthlyRate(annualRate);
+    const expectedFirstYearValue = initialValue.times(
+      monthlyRate.plus(1).pow(6)
+    );
+
+    expect(projection[0].year).toBe(2030);
+    expect(projection[0].projectedValue.toNumber()).toBeCloseTo(
+      expectedFirstYearValue.toNumber(),
+      2
+    );
+    expect(projection.length).toBe(6);
+  });
+
   it("should return all years in ascending and consecutive order", () => {
     const startYear = 2025;
     jest.setSystemTime(new Date(`${startYear}-01-01`));
@@ -545,3 +798,551 @@ describe("Projection Engine (simulateWealthCurve) - Output Structure Integrity",
     });
   });
 });
+
+describe("Projection Horizon (resolveProjectionEndYear)", () => {
+  const dateOfBirth = new Date("1980-03-10");
+
+  it("should default to 2060 when no end year or age is provided", () => {
+    const endYear = resolveProjectionEndYear(dateOfBirth, {
+      startDate: new Date("2025-01-01"),
+    });
+
+    expect(endYear).toBe(2060);
+  });
+
+  it("should use the explicit end year when provided", () => {
+    const endYear = resolveProjectionEndYear(dateOfBirth, {
+      startDate: new Date("2025-01-01"),
+      endYear: 2045,
+    });
+
+    expect(endYear).toBe(2045);
+  });
+
+  it("should derive the end year from the client's age", () => {
+    const endYear = resolveProjectionEndYear(dateOfBirth, {
+      startDate: new Date("2025-01-01"),
+      untilAge: 100,
+    });
+
+    expect(endYear).toBe(2080);
+  });
+
+  it("should throw a ProjectionError if the end year is before the start year", () => {
+    expect(() =>
+      resolveProjectionEndYear(dateOfBirth, {
+        startDate: new Date("2025-01-01"),
+        untilAge: 30,
+      })
+    ).toThrow(ProjectionError);
+  });
+});
+
+describe("Taxes and Fees (simulateWealthCurve)", () => {
+  const options = { startDate: new Date("2025-01-01"), endYear: 2026 };
+
+  it("should return post-tax values equal to the gross values without assumptions", () => {
+    const projection = simulateWealthCurve(Decimal(100000), [], 10, options);
+
+    projection.forEach((point) => {
+      expect(point.postTaxValue.equals(point.projectedValue)).toBe(true);
+      expect(point.postTaxRealValue.equals(point.realValue)).toBe(true);
+    });
+  });
+
+  it("should deduct the management fee from the post-tax curve only", () => {
+    const [firstYear] = simulateWealthCurve(Decimal(100000), [], 10, {
+      ...options,
+      managementFee: 1,
+    });
+
+    expect(firstYear.projectedValue.toNumber()).toBeCloseTo(110000, 6);
+    expect(firstYear.postTaxValue.toNumber()).toBeCloseTo(108900, 6);
+  });
+
+  it("should tax INCOME events in the post-tax curve", () => {
+    const [firstYear] = simulateWealthCurve(
+      Decimal(0),
+      [
+        createMockEvent(1000, "INCOME", "MONTHLY"),
+        createMockEvent(100, "EXPENSE", "MONTHLY"),
+      ],
+      0,
+      { ...options, incomeTaxRate: 27.5 }
+    );
+
+    expect(firstYear.projectedValue.toNumber()).toBe(10800);
+    expect(firstYear.postTaxValue.toNumber()).toBe(12 * (725 - 100));
+  });
+
+  it("should tax only the gains over the contributed amount", () => {
+    const [firstYear] = simulateWealthCurve(
+      Decimal(100000),
+      [createMockEvent(12000, "INCOME", "UNIQUE")],
+      10,
+      { ...options, gainsTaxRate: 15 }
+    );
+
+    const gains = firstYear.projectedValue.toNumber() - 112000;
+    expect(firstYear.postTaxValue.toNumber()).toBeCloseTo(
+      112000 + gains * 0.85,
+      6
+    );
+  });
+
+  it("should apply the Brazilian regressive fixed-income tiers by holding period", () => {
+    expect(
+      [6, 7, 12, 13, 24, 25].map((monthsHeld) =>
+        resolveGainsTaxRate(monthsHeld, {
+          gainsTaxPreset: "BR_REGRESSIVE_FIXED_INCOME",
+        })
+      )
+    ).toEqual([22.5, 20, 20, 17.5, 17.5, 15]);
+
+    const [firstYear, secondYear] = simulateWealthCurve(
+      Decimal(100000),
+      [],
+      10,
+      {
+        startDate: new Date("2025-07-01"),
+        endYear: 2026,
+        gainsTaxPreset: "BR_REGRESSIVE_FIXED_INCOME",
+      }
+    );
+
+    const afterTax = (value: Decimal, rate: number) =>
+      100000 + (value.toNumber() - 100000) * (1 - rate / 100);
+    expect(firstYear.postTaxValue.toNumber()).toBeCloseTo(
+      afterTax(firstYear.projectedValue, 22.5),
+      6
+    );
+    expect(secondYear.postTaxValue.toNumber()).toBeCloseTo(
+      afterTax(secondYear.projectedValue, 17.5),
+      6
+    );
+  });
+
+  it("should deflate the post-tax value to today's money", () => {
+    const [firstYear] = simulateWealthCurve(Decimal(100000), [], 0, {
+      ...options,
+      inflationRate: 10,
+      gainsTaxRate: 15,
+    });
+
+    expect(firstYear.postTaxRealValue.toNumber()).toBeCloseTo(100000 / 1.1, 6);
+  });
+});
+
+describe("Goal-Aware Projection Engine (simulateGoalAwareWealthCurve)", () => {
+  const options = { startDate: new Date("2025-01-01"), endYear: 2035 };
+
+  const createMockGoal = (
+    id: string,
+    targetValue: number,
+    targetDate: string
+  ) => ({
+    id,
+    targetValue: Decimal(targetValue),
+    targetDate: new Date(targetDate),
+  });
+
+  it("should flag a goal as reached and report the first year its value is covered", () => {
+    const result = simulateGoalAwareWealthCurve(
+      Decimal(100000),
+      [createMockEvent(1000, "INCOME", "MONTHLY")],
+      [createMockGoal("goal", 110000, "2030-01-01")],
+      0,
+      options
+    );
+
+    expect(result.goals).toEqual([
+      {
+        goalId: "goal",
+        status: "REACHED",
+        reachedYear: 2025,
+        reachedDate: new Date("2025-10-01"),
+        shortfall: Decimal(0),
+        valueAtTargetDate: Decimal(161000),
+      },
+    ]);
+  });
+
+  it("should flag a goal as missed on its target date with the shortfall", () => {
+    const result = simulateGoalAwareWealthCurve(
+      Decimal(100000),
+      [createMockEvent(1000, "INCOME", "MONTHLY")],
+      [createMockGoal("goal", 200000, "2026-12-01")],
+      0,
+      options
+    );
+
+    const [goal] = result.goals;
+    expect(goal.status).toBe("MISSED");
+    expect(goal.shortfall!.toNumber()).toBe(200000 - 124000);
+    expect(goal.reachedYear).toBe(2033);
+  });
+
+  it("should not evaluate goals whose target date is beyond the horizon", () => {
+    const result = simulateGoalAwareWealthCurve(
+      Decimal(100000),
+      [],
+      [createMockGoal("goal", 500000, "2040-01-01")],
+      0,
+      options
+    );
+
+    expect(result.goals[0]).toEqual({
+      goalId: "goal",
+      status: "OUTSIDE_HORIZON",
+      reachedYear: null,
+      reachedDate: null,
+      shortfall: null,
+      valueAtTargetDate: null,
+    });
+  });
+
+  it("should withdraw reached goals from the wealth on their target date when requested", () => {
+    const goals = [createMockGoal("goal", 30000, "2027-06-01")];
+
+    const withoutWithdrawals = simulateGoalAwareWealthCurve(
+      Decimal(100000),
+      [],
+      goals,
+      0,
+      options
+    );
+    const withWithdrawals = simulateGoalAwareWealthCurve(
+      Decimal(100000),
+      [],
+      goals,
+      0,
+      { ...options, withdrawGoals: true }
+    );
+
+    const valueAt = (
+      projection: { year: number; projectedValue: Decimal }[],
+      year: number
+    ) => projection.find((p) => p.year === year)!.projectedValue.toNumber();
+
+    expect(valueAt(withoutWithdrawals.projection, 2027)).toBe(100000);
+    expect(valueAt(withWithdrawals.projection, 2026)).toBe(100000);
+    expect(valueAt(withWithdrawals.projection, 2027)).toBe(70000);
+  });
+
+  it("should not withdraw goals that are missed", () => {
+    const result = simulateGoalAwareWealthCurve(
+      Decimal(100000),
+      [],
+      [createMockGoal("goal", 200000, "2027-06-01")],
+      0,
+      { ...options, withdrawGoals: true }
+    );
+
+    expect(result.goals[0].status).toBe("MISSED");
+    expect(result.projection.at(-1)!.projectedValue.toNumber()).toBe(100000);
+  });
+});
+
+describe("Retirement Projection Engine (simulateRetirementWealthCurve)", () => {
+  const options = {
+    startDate: new Date("2025-01-01"),
+    endYear: 2027,
+    retirementDate: new Date("2025-01-01"),
+  };
+
+  const withdrawalsByYear = (
+    projection: { year: number; withdrawal: Decimal }[]
+  ) => projection.map((point) => point.withdrawal.toNumber());
+
+  it("should stop recurring contributions at the retirement date", () => {
+    const result = simulateRetirementWealthCurve(
+      Decimal(0),
+      [createMockEvent(1000, "INCOME", "MONTHLY")],
+      0,
+      {
+        ...options,
+        retirementDate: new Date("2026-01-01"),
+        withdrawalStrategy: "FIXED_REAL",
+        monthlyWithdrawal: 0,
+      }
+    );
+
+    expect(result.projection.map((p) => p.projectedValue.toNumber())).toEqual([
+      12000, 12000, 12000,
+    ]);
+  });
+
+  it("should keep incomes that start after the retirement date", () => {
+    const result = simulateRetirementWealthCurve(
+      Decimal(0),
+      [
+        createMockEvent(500, "INCOME", "MONTHLY", {
+          startDate: new Date("2026-01-01"),
+        }),
+      ],
+      0,
+      {
+        ...options,
+        retirementDate: new Date("2026-01-01"),
+        withdrawalStrategy: "FIXED_REAL",
+        monthlyWithdrawal: 0,
+      }
+    );
+
+    expect(result.projection[2].projectedValue.toNumber()).toBe(12000);
+  });
+
+  it("should report when a fixed withdrawal depletes the wealth", () => {
+    const result = simulateRetirementWealthCurve(Decimal(12000), [], 0, {
+      ...options,
+      withdrawalStrategy: "FIXED_REAL",
+      monthlyWithdrawal: 1000,
+    });
+
+    expect(result.depletionDate).toEqual(new Date("2025-12-01"));
+    expect(withdrawalsByYear(result.projection)[0]).toBe(12000);
+  });
+
+  it("should index fixed withdrawals by inflation", () => {
+    const result = simulateRetirementWealthCurve(Decimal(1000000), [], 0, {
+      ...options,
+      inflationRate: 12,
+      withdrawalStrategy: "FIXED_REAL",
+      monthlyWithdrawal: 1000,
+    });
+
+    const [first, second] = withdrawalsByYear(result.projection);
+    expect(second).toBeGreaterThan(first);
+  });
+
+  it("should withdraw a percentage of the wealth, recalculated every year", () => {
+    const result = simulateRetirementWealthCurve(Decimal(120000), [], 0, {
+      ...options,
+      withdrawalStrategy: "PERCENTAGE",
+      withdrawalRate: 10,
+    });
+
+    expect(withdrawalsByYear(result.projection).slice(0, 2)).toEqual([
+      12000, 10800,
+    ]);
+    expect(result.depletionDate).toBeNull();
+  });
+
+  it("should cut the withdrawal when the guardrail is crossed", () => {
+    const result = simulateRetirementWealthCurve(Decimal(120000), [], 0, {
+      ...options,
+      withdrawalStrategy: "GUARDRAILS",
+      withdrawalRate: 10,
+      guardrailBand: 20,
+      guardrailAdjustment: 10,
+    });
+
+    expect(withdrawalsByYear(result.projection)).toEqual([12000, 12000, 10800]);
+  });
+
+  it("should find the maximum sustainable monthly income", () => {
+    const maxIncome = calculateMaxSustainableWithdrawal(
+      Decimal(120000),
+      [],
+      0,
+      {
+        ...options,
+        endYear: 2034,
+      }
+    );
+
+    expect(maxIncome!.toNumber()).toBe(999.99);
+  });
+});
+
+describe("Stochastic Projection Engine (simulateStochasticWealthCurves)", () => {
+  const stochasticOptions = {
+    startDate: new Date("2025-01-01"),
+    endYear: 2035,
+    meanAnnualReturn: 6,
+    annualVolatility: 15,
+    paths: 200,
+    seed: 42,
+  };
+
+  it("should return the same result for the same seed", () => {
+    const first = simulateStochasticWealthCurves(
+      Decimal(100000),
+      [],
+      [],
+      stochasticOptions
+    );
+    const second = simulateStochasticWealthCurves(
+      Decimal(100000),
+      [],
+      [],
+      stochasticOptions
+    );
+
+    expect(first.percentiles.map((p) => p.p50.toString())).toEqual(
+      second.percentiles.map((p) => p.p50.toString())
+    );
+  });
+
+  it("should return ordered P10/P50/P90 bands for every projected year", () => {
+    const result = simulateStochasticWealthCurves(
+      Decimal(100000),
+      [],
+      [],
+      stochasticOptions
+    );
+
+    expect(result.percentiles.length).toBe(2035 - 2025 + 1);
+    result.percentiles.forEach((point) => {
+      expect(point.p10.lte(point.p50)).toBe(true);
+      expect(point.p50.lte(point.p90)).toBe(true);
+    });
+  });
+
+  it("should match the deterministic curve when volatility is zero", () => {
+    const events = [createMockEvent(1000, "INCOME", "MONTHLY")];
+
+    const result = simulateStochasticWealthCurves(Decimal(100000), events, [], {
+      ...stochasticOptions,
+      annualVolatility: 0,
+      paths: 10,
+    });
+    const deterministic = simulateWealthCurve(Decimal(100000), events, 6, {
+      startDate: stochasticOptions.startDate,
+      endYear: stochasticOptions.endYear,
+    });
+
+    result.percentiles.forEach((point, index) => {
+      expect(point.p50.toNumber()).toBeCloseTo(
+        deterministic[index].projectedValue.toNumber(),
+        2
+      );
+    });
+  });
+
+  it("should report the probability of staying solvent", () => {
+    const solvent = simulateStochasticWealthCurves(
+      Decimal(100000),
+      [],
+      [],
+      stochasticOptions
+    );
+    const insolvent = simulateStochasticWealthCurves(
+      Decimal(1000),
+      [createMockEvent(5000, "EXPENSE", "MONTHLY")],
+      [],
+      stochasticOptions
+    );
+
+    expect(solvent.probabilityOfSolvency).toBe(1);
+    expect(insolvent.probabilityOfSolvency).toBe(0);
+  });
+
+  it("should report the probability of reaching each goal by its target date", () => {
+    const goals = [
+      {
+        id: "reachable-goal",
+        targetValue: Decimal(50000),
+        targetDate: new Date("2030-01-01"),
+      },
+      {
+        id: "unreachable-goal",
+        targetValue: Decimal(100000000),
+        targetDate: new Date("2030-01-01"),
+      },
+    ];
+
+    const result = simulateStochasticWealthCurves(
+      Decimal(100000),
+      [],
+      goals,
+      stochasticOptions
+    );
+
+    expect(result.goals).toEqual([
+      { goalId: "reachable-goal", probabilityOfSuccess: 1 },
+      { goalId: "unreachable-goal", probabilityOfSuccess: 0 },
+    ]);
+  });
+
+  it("should reject simulations above the paths × months budget", () => {
+    expect(() =>
+      simulateStochasticWealthCurves(Decimal(100000), [], [], {
+        ...stochasticOptions,
+        endYear: 2100,
+        paths: 2000,
+      })
+    ).toThrow(ProjectionError);
+  });
+});
+
+describe("Portfolio Assumptions (derivePortfolioAssumptions)", () => {
+  const assumptions = [
+    {
+      className: "Renda Fixa",
+      expectedReturn: Decimal(10),
+      volatility: Decimal(3),
+    },
+    {
+      className: "Ações Nacionais",
+      expectedReturn: Decimal(14),
+      volatility: Decimal(25),
+    },
+  ];
+
+  it("should weight the expected return by the allocation", () => {
+    const portfolio = derivePortfolioAssumptions(
+      [
+        { className: "Renda Fixa", percentage: 75 },
+        { className: "Ações Nacionais", percentage: 25 },
+      ],
+      assumptions
+    );
+
+    expect(portfolio.expectedReturn).toBeCloseTo(11, 6);
+    expect(portfolio.volatility).toBeCloseTo(
+      Math.sqrt((0.75 * 3) ** 2 + (0.25 * 25) ** 2),
+      6
+    );
+  });
+
+  it("should add the weighted volatilities up for fully correlated classes", () => {
+    const portfolio = derivePortfolioAssumptions(
+      [
+        { className: "Renda Fixa", percentage: 75 },
+        { className: "Ações Nacionais", percentage: 25 },
+      ],
+      assumptions,
+      1
+    );
+
+    expect(portfolio.volatility).toBeCloseTo(0.75 * 3 + 0.25 * 25, 6);
+  });
+
+  it("should normalize allocations that do not sum to 100%", () => {
+    const portfolio = derivePortfolioAssumptions(
+      [
+        { className: "Renda Fixa", percentage: 30 },
+        { className: "Ações Nacionais", percentage: 30 },
+      ],
+      assumptions
+    );
+
+    expect(portfolio.expectedReturn).toBeCloseTo(12, 6);
+  });
+
+  it("should throw a ProjectionError for asset classes without assumptions", () => {
+    expect(() =>
+      derivePortfolioAssumptions(
+        [{ className: "Criptomoedas", percentage: 100 }],
+        assumptions
+      )
+    ).toThrow(ProjectionError);
+  });
+
+  it("should throw a ProjectionError for an empty allocation", () => {
+    expect(() => derivePortfolioAssumptions([], assumptions)).toThrow(
+      ProjectionError
+    );
+  });
+});
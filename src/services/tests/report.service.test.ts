@@ -0,0 +1,94 @@
+import { Decimal } from "@prisma/client/runtime/library";
+import { ClientReportData, renderClientReport } from "../report.service";
+
+const data: ClientReportData = {
+  generatedAt: new Date("2026-10-19"),
+  client: {
+    name: "Cliente Teste",
+    email: "cliente@teste.com",
+    dateOfBirth: new Date("1980-05-10"),
+    familyProfile: [],
+  },
+  wallet: {
+    totalValue: Decimal(350000),
+    assetClasses: [
+      { className: "Renda Fixa", percentage: 70 },
+      { className: "Ações", percentage: 30 },
+    ],
+  },
+  goals: [
+    {
+      description: "Aposentadoria",
+      targetValue: Decimal(2000000),
+      targetDate: new Date("2045-01-01"),
+    },
+  ],
+  events: [],
+  insurances: [],
+  alignment: {
+    method: "current",
+    alignmentPercentage: "17.5",
+    category: "red",
+    band: {
+      category: "red",
+      label: "Vermelho",
+      color: "#dc2626",
+      minPercentage: "0",
+      minInclusive: true,
+    },
+    reason:
+      'O patrimônio atual cobre 17,5% do valor necessário para as metas, na faixa "Vermelho" (abaixo de 50%).',
+    goals: [],
+  },
+  projection: {
+    savedAt: null,
+    rate: "4",
+    points: Array.from({ length: 36 }, (_, index) => ({
+      year: 2025 + index,
+      projectedValue: Decimal(100000).times(Decimal(1.04).pow(index)),
+    })),
+  },
+};
+
+const countPages = (pdf: Buffer) =>
+  pdf.toString("latin1").match(/\/Type \/Page\b/g)?.length ?? 0;
+
+describe("Client Report (renderClientReport)", () => {
+  it("should render a PDF document", async () => {
+    const pdf = await renderClientReport(data);
+
+    expect(pdf.subarray(0, 5).toString()).toBe("%PDF-");
+    expect(countPages(pdf)).toBeGreaterThan(0);
+  });
+
+  it("should break long sections into additional pages", async () => {
+    const short = await renderClientReport({ ...data, projection: null });
+    const long = await renderClientReport({
+      ...data,
+      events: Array.from({ length: 60 }, (_, index) => ({
+        description: `Movimentação ${index}`,
+        category: "INCOME",
+        value: Decimal(1000),
+        frequency: "MONTHLY",
+        startDate: new Date("2025-01-01"),
+        endDate: null,
+        occurrenceDate: null,
+      })),
+    });
+
+    expect(countPages(short)).toBe(1);
+    expect(countPages(long)).toBeGreaterThan(2);
+  });
+
+  it("should render a report for clients without a plan", async () => {
+    const pdf = await renderClientReport({
+      ...data,
+      wallet: null,
+      goals: [],
+      alignment: { message: "O cliente não possui metas cadastradas." },
+      projection: null,
+    });
+
+    expect(pdf.subarray(0, 5).toString()).toBe("%PDF-");
+  });
+});
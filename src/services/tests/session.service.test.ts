@@ -0,0 +1,23 @@
+import { calculateRefreshTokenExpiry } from "../session.service";
+import { hashToken } from "../../utils/token";
+
+describe("Refresh Token Hashing (hashToken)", () => {
+  it("should hash the token deterministically without keeping it in clear", () => {
+    const hash = hashToken("refresh-token");
+
+    expect(hash).toBe(hashToken("refresh-token"));
+    expect(hash).not.toBe(hashToken("other-refresh-token"));
+    expect(hash).not.toContain("refresh-token");
+    expect(hash).toMatch(/^[0-9a-f]{64}$/);
+  });
+});
+
+describe("Refresh Token Expiry (calculateRefreshTokenExpiry)", () => {
+  it("should expire 30 days after the reference date", () => {
+    const expiresAt = calculateRefreshTokenExpiry(
+      new Date("2026-01-15T12:00:00.000Z")
+    );
+
+    expect(expiresAt.toISOString()).toBe("2026-02-14T12:00:00.000Z");
+  });
+});
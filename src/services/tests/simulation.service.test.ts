@@ -0,0 +1,239 @@
+import { PROJECTION_ENGINE_VERSION } from "../projection.service";
+import {
+  compareSimulations,
+  rerunSimulation,
+  SimulationError,
+  trackSimulationAgainstActuals,
+} from "../simulation.service";
+import { Decimal } from "@prisma/client/runtime/library";
+
+const inputs = {
+  walletValue: "100000",
+  events: [
+    {
+      id: "mock-id",
+      description: "mock",
+      category: "INCOME",
+      value: "1000",
+      frequency: "MONTHLY",
+      startDate: null,
+      endDate: null,
+      occurrenceDate: null,
+      inflationIndexed: false,
+    },
+  ],
+  parameters: {
+    annualRate: 0,
+    startDate: "2025-01-01T00:00:00.000Z",
+    endYear: 2026,
+    inflationRate: 0,
+    returnSource: "FLAT_RATE",
+    assetClasses: null,
+    managementFee: 0,
+    gainsTaxRate: null,
+    gainsTaxPreset: null,
+    incomeTaxRate: 0,
+  },
+};
+
+describe("Simulation Re-run (rerunSimulation)", () => {
+  it("should report no drift when the engine reproduces the saved projection", () => {
+    const result = rerunSimulation({
+      id: "mock-simulation-id",
+      inputs,
+      engineVersion: PROJECTION_ENGINE_VERSION,
+      projection: [
+        { year: 2025, projectedValue: "112000.00" },
+        { year: 2026, projectedValue: "124000.00" },
+      ],
+    });
+
+    expect(result.hasDrift).toBe(false);
+    expect(result.maxAbsoluteDrift.toNumber()).toBe(0);
+    expect(result.currentEngineVersion).toBe(PROJECTION_ENGINE_VERSION);
+  });
+
+  it("should report the drift for every year that changed", () => {
+    const result = rerunSimulation({
+      id: "mock-simulation-id",
+      inputs,
+      engineVersion: null,
+      projection: [
+        { year: 2025, projectedValue: "112000.00" },
+        { year: 2026, projectedValue: "123000.00" },
+      ],
+    });
+
+    expect(result.hasDrift).toBe(true);
+    expect(result.maxAbsoluteDrift.toNumber()).toBe(1000);
+    expect(result.projection.map((point) => point.drift?.toNumber())).toEqual([
+      0, 1000,
+    ]);
+  });
+
+  it("should flag years missing from the saved projection", () => {
+    const result = rerunSimulation({
+      id: "mock-simulation-id",
+      inputs,
+      engineVersion: null,
+      projection: [{ year: 2025, projectedValue: "112000.00" }],
+    });
+
+    expect(result.hasDrift).toBe(true);
+    expect(result.projection[1].savedValue).toBeNull();
+    expect(result.projection[1].drift).toBeNull();
+  });
+
+  it("should throw a SimulationError for simulations saved without inputs", () => {
+    expect(() =>
+      rerunSimulation({
+        id: "mock-simulation-id",
+        inputs: null,
+        engineVersion: null,
+        projection: [],
+      })
+    ).toThrow(SimulationError);
+  });
+});
+
+describe("Simulation Comparison (compareSimulations)", () => {
+  const simulation = {
+    id: "mock-simulation-id",
+    rate: Decimal(5),
+    inputs,
+    projection: [
+      { year: 2025, projectedValue: "112000.00" },
+      { year: 2026, projectedValue: "124000.00" },
+    ],
+  };
+
+  it("should return the yearly delta between both projections", () => {
+    const result = compareSimulations(simulation, {
+      ...simulation,
+      id: "mock-other-simulation-id",
+      rate: Decimal(6),
+      projection: [
+        { year: 2025, projectedValue: "113000.00" },
+        { year: 2026, projectedValue: "126500.00" },
+        { year: 2027, projectedValue: "140000.00" },
+      ],
+    });
+
+    expect(result.rateChange?.to.toNumber()).toBe(6);
+    expect(result.projection.map((point) => point.delta?.toNumber())).toEqual([
+      1000,
+      2500,
+      undefined,
+    ]);
+    expect(result.projection[2].value).toBeNull();
+  });
+
+  it("should list added, removed and modified events and changed parameters", () => {
+    const result = compareSimulations(simulation, {
+      ...simulation,
+      inputs: {
+        ...inputs,
+        walletValue: "150000",
+        events: [
+          { ...inputs.events[0], value: "2000" },
+          { ...inputs.events[0], id: "mock-new-id" },
+        ],
+        parameters: { ...inputs.parameters, endYear: 2030 },
+      },
+    });
+
+    expect(result.rateChange).toBeNull();
+    expect(result.inputChanges?.walletValue).toEqual({
+      from: "100000",
+      to: "150000",
+    });
+    expect(result.inputChanges?.eventsAdded.map((e) => e.id)).toEqual([
+      "mock-new-id",
+    ]);
+    expect(result.inputChanges?.eventsRemoved).toEqual([]);
+    expect(result.inputChanges?.eventsModified[0].to.value).toBe("2000");
+    expect(result.inputChanges?.parameters).toEqual([
+      { name: "endYear", from: 2026, to: 2030 },
+    ]);
+  });
+
+  it("should not report input changes when a snapshot is missing", () => {
+    const result = compareSimulations(simulation, {
+      ...simulation,
+      inputs: null,
+    });
+
+    expect(result.inputChanges).toBeNull();
+  });
+});
+
+describe("Plan vs. Actual Tracking (trackSimulationAgainstActuals)", () => {
+  const simulation = {
+    id: "mock-simulation-id",
+    inputs,
+    projection: [
+      { year: 2025, projectedValue: "112000.00" },
+      { year: 2026, projectedValue: "124000.00" },
+    ],
+  };
+
+  const snapshot = (recordedAt: string, totalValue: number) => ({
+    recordedAt: new Date(recordedAt),
+    totalValue: Decimal(totalValue),
+  });
+
+  it("should interpolate the planned value between the projection points", () => {
+    const result = trackSimulationAgainstActuals(
+      simulation,
+      [snapshot("2026-07-02T12:00:00.000Z", 118000)],
+      5
+    );
+
+    expect(result.points).toHaveLength(1);
+    expect(result.points[0].plannedValue.toFixed(0)).toBe("118000");
+    expect(result.points[0].deviation.abs().toNumber()).toBeLessThan(1);
+    expect(result.status).toBe("ON_TRACK");
+  });
+
+  it("should flag the client as ahead or behind the plan based on the latest snapshot", () => {
+    const ahead = trackSimulationAgainstActuals(
+      simulation,
+      [snapshot("2026-01-01", 120000)],
+      5
+    );
+    const behind = trackSimulationAgainstActuals(
+      simulation,
+      [snapshot("2025-06-01", 150000), snapshot("2026-01-01", 100000)],
+      5
+    );
+
+    expect(ahead.status).toBe("AHEAD");
+    expect(ahead.points[0].deviation.toNumber()).toBe(8000);
+    expect(behind.status).toBe("BEHIND");
+  });
+
+  it("should compute the tracking error as the RMS of the percentage deviations", () => {
+    const result = trackSimulationAgainstActuals(
+      simulation,
+      [snapshot("2025-01-01", 110000), snapshot("2027-01-01", 111600)],
+      5
+    );
+
+    expect(result.points.map((p) => p.deviationPercent?.toNumber())).toEqual([
+      10, -10,
+    ]);
+    expect(result.trackingError?.toNumber()).toBe(10);
+  });
+
+  it("should ignore snapshots outside the planned path", () => {
+    const result = trackSimulationAgainstActuals(
+      simulation,
+      [snapshot("2024-06-01", 90000), snapshot("2028-01-01", 200000)],
+      5
+    );
+
+    expect(result.points).toEqual([]);
+    expect(result.status).toBeNull();
+    expect(result.trackingError).toBeNull();
+  });
+});
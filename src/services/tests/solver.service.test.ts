@@ -0,0 +1,164 @@
+import { Event } from "@prisma/client";
+import { Decimal } from "@prisma/client/runtime/library";
+import { ProjectionError } from "../projection.service";
+import {
+  solveMonthlyContribution,
+  solveRequiredAnnualRate,
+  solveRetirementDate,
+} from "../solver.service";
+
+function createMockEvent(
+  value: number,
+  category: "INCOME" | "EXPENSE",
+  frequency: "UNIQUE" | "MONTHLY" | "ANNUAL"
+): Event {
+  return {
+    id: "mock-id",
+    clientId: "mock-client-id",
+    description: "mock",
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    value: Decimal(value),
+    category,
+    frequency,
+    startDate: null,
+    endDate: null,
+    occurrenceDate: null,
+    inflationIndexed: false,
+  };
+}
+
+describe("Projection Solver", () => {
+  const options = { startDate: new Date("2025-01-01"), endYear: 2025 };
+  const target = {
+    targetValue: Decimal(12000),
+    targetDate: new Date("2025-12-01"),
+  };
+
+  describe("solveMonthlyContribution", () => {
+    it("should find the monthly contribution that reaches the target", () => {
+      const contribution = solveMonthlyContribution(
+        { initialValue: Decimal(0), events: [], annualRate: 0, options },
+        target
+      );
+
+      expect(contribution).toBe(1000);
+    });
+
+    it("should account for the client's existing events", () => {
+      const contribution = solveMonthlyContribution(
+        {
+          initialValue: Decimal(0),
+          events: [createMockEvent(500, "EXPENSE", "MONTHLY")],
+          annualRate: 0,
+          options,
+        },
+        target
+      );
+
+      expect(contribution).toBe(1500);
+    });
+
+    it("should return zero when the target is already reached", () => {
+      const contribution = solveMonthlyContribution(
+        { initialValue: Decimal(20000), events: [], annualRate: 0, options },
+        target
+      );
+
+      expect(contribution).toBe(0);
+    });
+  });
+
+  describe("solveRequiredAnnualRate", () => {
+    it("should find the annual rate that reaches the target", () => {
+      const annualRate = solveRequiredAnnualRate(
+        {
+          initialValue: Decimal(100000),
+          events: [],
+          monthlyContribution: 0,
+          options,
+        },
+        { targetValue: Decimal(110000), targetDate: new Date("2025-12-01") }
+      );
+
+      expect(annualRate).toBe(10);
+    });
+
+    it("should throw a ProjectionError when no rate reaches the target", () => {
+      expect(() =>
+        solveRequiredAnnualRate(
+          {
+            initialValue: Decimal(0),
+            events: [],
+            monthlyContribution: 0,
+            options,
+          },
+          target
+        )
+      ).toThrow(ProjectionError);
+    });
+  });
+
+  describe("solveRetirementDate", () => {
+    it("should retire in the month after the target is reached", () => {
+      const retirementDate = solveRetirementDate(
+        {
+          initialValue: Decimal(0),
+          events: [],
+          annualRate: 0,
+          monthlyContribution: 1000,
+          options: { ...options, endYear: 2030 },
+        },
+        Decimal(5000)
+      );
+
+      expect(retirementDate).toEqual(new Date("2025-06-01"));
+    });
+
+    it("should delay retirement until the withdrawals are sustainable", () => {
+      const retirementDate = solveRetirementDate(
+        {
+          initialValue: Decimal(0),
+          events: [],
+          annualRate: 0,
+          monthlyContribution: 1000,
+          options,
+        },
+        Decimal(5000),
+        1000
+      );
+
+      expect(retirementDate).toEqual(new Date("2025-08-01"));
+    });
+
+    it("should throw a ProjectionError when expenses deplete the wealth after retiring", () => {
+      expect(() =>
+        solveRetirementDate(
+          {
+            initialValue: Decimal(10000),
+            events: [createMockEvent(1000, "EXPENSE", "MONTHLY")],
+            annualRate: 0,
+            monthlyContribution: 0,
+            options: { ...options, endYear: 2030 },
+          },
+          Decimal(1000)
+        )
+      ).toThrow(ProjectionError);
+    });
+
+    it("should throw a ProjectionError when the target is never reached", () => {
+      expect(() =>
+        solveRetirementDate(
+          {
+            initialValue: Decimal(0),
+            events: [],
+            annualRate: 0,
+            monthlyContribution: 1000,
+            options,
+          },
+          Decimal(1000000)
+        )
+      ).toThrow(ProjectionError);
+    });
+  });
+});
@@ -0,0 +1,20 @@
+import { calculateUserTokenExpiry } from "../user-token.service";
+
+describe("Account Token Expiry (calculateUserTokenExpiry)", () => {
+  const referenceDate = new Date("2026-01-15T12:00:00.000Z");
+
+  it("should expire password reset tokens after one hour", () => {
+    expect(
+      calculateUserTokenExpiry("PASSWORD_RESET", referenceDate).toISOString()
+    ).toBe("2026-01-15T13:00:00.000Z");
+  });
+
+  it("should expire email verification tokens after 48 hours", () => {
+    expect(
+      calculateUserTokenExpiry(
+        "EMAIL_VERIFICATION",
+        referenceDate
+      ).toISOString()
+    ).toBe("2026-01-17T12:00:00.000Z");
+  });
+});
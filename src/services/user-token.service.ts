@@ -0,0 +1,113 @@
+import { User, UserTokenType } from "@prisma/client";
+import { prisma } from "../lib/prisma";
+import { runWithoutTenant, setCurrentOrganization } from "../lib/tenant";
+import { sendMail } from "../lib/mailer";
+import {
+  EMAIL_VERIFICATION_TOKEN_EXPIRES_IN_HOURS,
+  PASSWORD_RESET_TOKEN_EXPIRES_IN_MINUTES,
+} from "../config/constants";
+import { generateToken, hashToken } from "../utils/token";
+
+export class UserTokenError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UserTokenError";
+  }
+}
+
+const TOKEN_LIFETIMES_IN_MINUTES: Record<UserTokenType, number> = {
+  PASSWORD_RESET: PASSWORD_RESET_TOKEN_EXPIRES_IN_MINUTES,
+  EMAIL_VERIFICATION: EMAIL_VERIFICATION_TOKEN_EXPIRES_IN_HOURS * 60,
+};
+
+export function calculateUserTokenExpiry(
+  type: UserTokenType,
+  referenceDate: Date = new Date()
+) {
+  return new Date(
+    referenceDate.getTime() + TOKEN_LIFETIMES_IN_MINUTES[type] * 60 * 1000
+  );
+}
+
+async function issueUserToken(userId: string, type: UserTokenType) {
+  const token = generateToken();
+
+  await prisma.$transaction([
+    prisma.userToken.updateMany({
+      where: { userId, type, usedAt: null },
+      data: { usedAt: new Date() },
+    }),
+    prisma.userToken.create({
+      data: {
+        type,
+        tokenHash: hashToken(token),
+        expiresAt: calculateUserTokenExpiry(type),
+        userId,
+      },
+    }),
+  ]);
+
+  return token;
+}
+
+export async function consumeUserToken(token: string, type: UserTokenType) {
+  const storedToken = await runWithoutTenant(() =>
+    prisma.userToken.findUnique({
+      where: { tokenHash: hashToken(token) },
+      include: { user: { select: { organizationId: true } } },
+    })
+  );
+
+  if (
+    !storedToken ||
+    storedToken.type !== type ||
+    storedToken.expiresAt <= new Date()
+  ) {
+    throw new UserTokenError("Token inválido ou expirado.");
+  }
+
+  setCurrentOrganization(storedToken.user.organizationId);
+
+  const { count } = await prisma.userToken.updateMany({
+    where: { id: storedToken.id, usedAt: null },
+    data: { usedAt: new Date() },
+  });
+
+  if (count === 0) {
+    throw new UserTokenError("Token inválido ou expirado.");
+  }
+
+  return storedToken.userId;
+}
+
+export async function sendPasswordResetEmail(user: Pick<User, "id" | "email">) {
+  const token = await issueUserToken(user.id, "PASSWORD_RESET");
+
+  await sendMail({
+    to: user.email,
+    subject: "Redefinição de senha",
+    text: [
+      "Recebemos um pedido para redefinir a sua senha.",
+      `Use o código abaixo para escolher uma nova senha. Ele vale por ${PASSWORD_RESET_TOKEN_EXPIRES_IN_MINUTES} minutos e só pode ser usado uma vez:`,
+      "",
+      token,
+      "",
+      "Se você não fez esse pedido, ignore este e-mail; a sua senha continua a mesma.",
+    ].join("\n"),
+  });
+}
+
+export async function sendEmailVerification(user: Pick<User, "id" | "email">) {
+  const token = await issueUserToken(user.id, "EMAIL_VERIFICATION");
+
+  await sendMail({
+    to: user.email,
+    subject: "Confirme o seu e-mail",
+    text: [
+      "Confirme o seu endereço de e-mail com o código abaixo.",
+      `Ele vale por ${EMAIL_VERIFICATION_TOKEN_EXPIRES_IN_HOURS} horas e só pode ser usado uma vez:`,
+      "",
+      token,
+    ].join("\n"),
+  });
+}
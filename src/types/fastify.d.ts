@@ -10,10 +10,26 @@ declare module "fastify" {
       request: FastifyRequest,
       reply: FastifyReply
     ) => Promise<void>;
+    ensurePlatformOperator: (
+      request: FastifyRequest,
+      reply: FastifyReply
+    ) => Promise<void>;
+    ensureOrgAdmin: (
+      request: FastifyRequest,
+      reply: FastifyReply
+    ) => Promise<void>;
     ensureOwnerOrAdvisor: (
       request: FastifyRequest,
       reply: FastifyReply
     ) => Promise<void>;
+    ensureManagedUser: (
+      request: FastifyRequest,
+      reply: FastifyReply
+    ) => Promise<void>;
+    ensureAssignedAdvisor: (
+      request: FastifyRequest,
+      reply: FastifyReply
+    ) => Promise<void>;
   }
 }
 
@@ -3,3 +3,63 @@ import { Decimal } from "@prisma/client/runtime/library";
 export function calculateMonthlyRate(annualRate: number): Decimal {
   return Decimal(annualRate).div(100).plus(1).pow(Decimal(1).div(12)).minus(1);
 }
+
+export function calculatePercentile(
+  sortedValues: number[],
+  percentile: number
+): number {
+  const position = (sortedValues.length - 1) * (percentile / 100);
+  const lowerIndex = Math.floor(position);
+  const upperIndex = Math.ceil(position);
+  const weight = position - lowerIndex;
+
+  return (
+    sortedValues[lowerIndex] * (1 - weight) + sortedValues[upperIndex] * weight
+  );
+}
+
+export function findSmallestSufficientValue(
+  isSufficient: (candidate: number) => boolean,
+  initialUpperBound: number,
+  maxUpperBound: number,
+  decimals: number = 2
+): number | null {
+  if (isSufficient(0)) {
+    return 0;
+  }
+
+  const precision = 10 ** -(decimals + 1);
+  let lower = 0;
+  let upper = initialUpperBound;
+
+  while (!isSufficient(upper)) {
+    lower = upper;
+    upper *= 2;
+
+    if (upper > maxUpperBound) {
+      return null;
+    }
+  }
+
+  while (upper - lower > precision) {
+    const middle = (lower + upper) / 2;
+
+    if (isSufficient(middle)) {
+      upper = middle;
+    } else {
+      lower = middle;
+    }
+  }
+
+  const rounded = Number(upper.toFixed(decimals));
+
+  return isSufficient(rounded)
+    ? rounded
+    : Number((rounded + 10 ** -decimals).toFixed(decimals));
+}
+
+export function calculateMonthlyFeeRate(annualFee: number): Decimal {
+  return Decimal(1).minus(
+    Decimal(1).minus(Decimal(annualFee).div(100)).pow(Decimal(1).div(12))
+  );
+}
@@ -0,0 +1,16 @@
+import { createHash, randomBytes, timingSafeEqual } from "node:crypto";
+
+export function generateToken() {
+  return randomBytes(32).toString("base64url");
+}
+
+export function hashToken(token: string) {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+export function tokensMatch(token: string, expected: string) {
+  return timingSafeEqual(
+    Buffer.from(hashToken(token)),
+    Buffer.from(hashToken(expected))
+  );
+}